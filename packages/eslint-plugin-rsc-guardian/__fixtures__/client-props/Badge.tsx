@@ -0,0 +1,3 @@
+export default function Badge(props: { format?: (value: number) => string }) {
+  return <span>{props.format?.(1)}</span>;
+}
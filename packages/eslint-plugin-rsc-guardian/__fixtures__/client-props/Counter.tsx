@@ -0,0 +1,5 @@
+'use client';
+
+export default function Counter(props: { label?: string; onChange?: (value: number) => void }) {
+  return <button>{props.label}</button>;
+}
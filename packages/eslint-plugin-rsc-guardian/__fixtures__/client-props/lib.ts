@@ -0,0 +1,7 @@
+export class Money {
+  constructor(public amount: number) {}
+}
+
+export const price = new Money(1);
+export const onSelect = (value: number) => value;
+export const createdAt = new Date();
@@ -0,0 +1,5 @@
+'use client';
+
+export function Card(props: { title?: string; render?: () => unknown }) {
+  return <section>{props.title}</section>;
+}
@@ -0,0 +1,5 @@
+'use client';
+
+export default function Dialog(props: { onClose?: () => void; children?: unknown }) {
+  return <dialog>{String(props.children)}</dialog>;
+}
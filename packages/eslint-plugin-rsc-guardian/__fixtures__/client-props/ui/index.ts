@@ -0,0 +1,2 @@
+export { default as Dialog } from './Dialog';
+export * from './Card';
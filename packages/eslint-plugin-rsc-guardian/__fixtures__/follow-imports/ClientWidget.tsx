@@ -0,0 +1,8 @@
+'use client';
+
+import { useToggle } from './useToggle';
+
+export default function ClientWidget() {
+  const [open, toggle] = useToggle();
+  return <button onClick={toggle}>{open ? 'Close' : 'Open'}</button>;
+}
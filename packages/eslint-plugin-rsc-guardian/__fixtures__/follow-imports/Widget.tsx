@@ -0,0 +1,6 @@
+import { useToggle } from './useToggle';
+
+export default function Widget() {
+  const [open, toggle] = useToggle();
+  return <button onClick={toggle}>{open ? 'Close' : 'Open'}</button>;
+}
@@ -0,0 +1,6 @@
+import { useState } from 'react';
+
+export function useToggle(): [boolean, () => void] {
+  const [open, setOpen] = useState(false);
+  return [open, () => setOpen(!open)];
+}
@@ -0,0 +1,10 @@
+import Header from '../components/Header';
+import Shell from './Shell';
+
+export default function Page() {
+  return (
+    <Shell>
+      <Header />
+    </Shell>
+  );
+}
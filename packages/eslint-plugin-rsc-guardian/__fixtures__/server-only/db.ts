@@ -0,0 +1,5 @@
+import 'server-only';
+
+export async function getUsers() {
+  return [{ id: 1, name: 'Ada' }];
+}
@@ -0,0 +1,134 @@
+import { describe, it, afterAll } from 'vitest';
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { rules } from '../index';
+
+RuleTester.describe = describe;
+RuleTester.it = it;
+RuleTester.afterAll = afterAll;
+
+const ruleTester = new RuleTester({
+  parser: '@typescript-eslint/parser',
+  parserOptions: {
+    ecmaVersion: 2022,
+    sourceType: 'module',
+    ecmaFeatures: {
+      jsx: true,
+    },
+  },
+});
+
+describe('directive-placement', () => {
+  ruleTester.run('directive-placement', rules['directive-placement'], {
+    valid: [
+      "'use client';\nimport { useState } from 'react';",
+      "// Copyright (c) Example\n'use client';\nimport { useState } from 'react';",
+      "'use server';\nexport async function save() {}",
+      "'use strict';\nexport const x = 1;",
+      "export default function Page() {\n  async function save() {\n    'use server';\n  }\n  return null;\n}",
+      "async function getData() {\n  'use cache';\n  return fetch('/api');\n}",
+      "export const label = 'use client';",
+    ],
+    invalid: [
+      {
+        code: "'use strict';\n'use client';\nimport { useState } from 'react';",
+        output: "'use client';\n'use strict';\nimport { useState } from 'react';",
+        errors: [{ messageId: 'misplacedUseClient', line: 2 }],
+      },
+      {
+        code: 'import { useState } from \'react\';\n"use client";\nexport default function Counter() {}',
+        output:
+          '"use client";\nimport { useState } from \'react\';\nexport default function Counter() {}',
+        errors: [{ messageId: 'misplacedUseClient', line: 2 }],
+      },
+      {
+        code: '"use-client";\nimport { useState } from \'react\';',
+        output: '"use client";\nimport { useState } from \'react\';',
+        errors: [
+          { messageId: 'directiveTypo', data: { text: 'use-client', directive: 'use client' } },
+        ],
+      },
+      {
+        code: "'use  client';\nexport default function Counter() {}",
+        output: "'use client';\nexport default function Counter() {}",
+        errors: [
+          { messageId: 'directiveTypo', data: { text: 'use  client', directive: 'use client' } },
+        ],
+      },
+      {
+        code: "'Use Client;';\n'useserver';\n'use clinet';",
+        output: "'use client';\n'use server';\n'use client';",
+        errors: [
+          { messageId: 'directiveTypo', data: { text: 'Use Client;', directive: 'use client' } },
+          { messageId: 'directiveTypo', data: { text: 'useserver', directive: 'use server' } },
+          { messageId: 'directiveTypo', data: { text: 'use clinet', directive: 'use client' } },
+        ],
+      },
+      {
+        code: "export async function save() {\n  'use sever';\n}",
+        output: "export async function save() {\n  'use server';\n}",
+        errors: [
+          {
+            messageId: 'directiveTypo',
+            data: { text: 'use sever', directive: 'use server' },
+            line: 2,
+          },
+        ],
+      },
+      {
+        code: "'use client';\nimport { useState } from 'react';\n'use client';\nexport default function Counter() {}",
+        output:
+          "'use client';\nimport { useState } from 'react';\nexport default function Counter() {}",
+        errors: [{ messageId: 'duplicateDirective', data: { directive: 'use client' }, line: 3 }],
+      },
+      {
+        code: "import { db } from './db';\n'use server';\nexport async function save() {}",
+        output: "'use server';\nimport { db } from './db';\nexport async function save() {}",
+        errors: [{ messageId: 'misplacedUseServer', line: 2 }],
+      },
+      {
+        code: "'use server';\n'use server';\nexport async function save() {}",
+        output: "'use server';\nexport async function save() {}",
+        errors: [{ messageId: 'duplicateDirective', data: { directive: 'use server' }, line: 2 }],
+      },
+      {
+        code: "'use client';\n'use server';\nexport async function save() {}",
+        output: null,
+        errors: [
+          {
+            messageId: 'conflictingDirectives',
+            line: 2,
+            suggestions: [
+              {
+                messageId: 'keepDirective',
+                data: { directive: 'use client' },
+                output: "'use client';\nexport async function save() {}",
+              },
+              {
+                messageId: 'keepDirective',
+                data: { directive: 'use server' },
+                output: "'use server';\nexport async function save() {}",
+              },
+            ],
+          },
+        ],
+      },
+      {
+        code: "import { useState } from 'react';\nexport default function Counter() {\n  'use client';\n  const [c] = useState(0);\n  return c;\n}",
+        output: null,
+        errors: [
+          {
+            messageId: 'useClientInFunction',
+            line: 3,
+            suggestions: [
+              {
+                messageId: 'moveUseClient',
+                output:
+                  "'use client';\nimport { useState } from 'react';\nexport default function Counter() {\n  const [c] = useState(0);\n  return c;\n}",
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  });
+});
@@ -1,11 +1,33 @@
-import { describe, it, expect, afterAll } from 'vitest';
+import { describe, it, afterAll, expect } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import * as parser from '@typescript-eslint/parser';
+import { TSESLint } from '@typescript-eslint/utils';
 import { RuleTester } from '@typescript-eslint/rule-tester';
-import { rules } from '../index';
+import { processors, rules } from '../index';
+
+// Get __dirname equivalent for ESM
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
 
 RuleTester.describe = describe;
 RuleTester.it = it;
 RuleTester.afterAll = afterAll;
 
+// Data of a client-only feature reported in a plain server component
+const serverAdvice = {
+  hook: "Add 'use client' or move the stateful part into a client component.",
+  'browser-global': "Add 'use client' or read it in a client component, e.g. inside useEffect.",
+  'event-handler': "Add 'use client' or move the interactive element into a client component.",
+  'class-component': "Add 'use client' or rewrite it as a function component.",
+  'create-context': "Move the context and its provider into a 'use client' module.",
+  'react-dom-api': "Add 'use client' or move this code into a client component.",
+  'client-import': "Add 'use client' or import it from a client component.",
+};
+function inServer(category: keyof typeof serverAdvice, data: Record<string, string>) {
+  return { where: 'a server component', advice: serverAdvice[category], ...data };
+}
+
 const ruleTester = new RuleTester({
   parser: '@typescript-eslint/parser',
   parserOptions: {
@@ -18,7 +40,7 @@ const ruleTester = new RuleTester({
 });
 
 describe('no-client-in-server', () => {
-  it('should error when hooks are used without "use client"', () => {
+  describe('should error when hooks are used without "use client"', () => {
     ruleTester.run('no-client-in-server', rules['no-client-in-server'], {
       valid: [
         {
@@ -30,8 +52,8 @@ describe('no-client-in-server', () => {
           code: "import { useState } from 'react';\nexport default function Component() { const [x] = useState(0); return null; }",
           errors: [
             {
-              messageId: 'clientFeatureInServer',
-              data: { name: 'useState' },
+              messageId: 'hookInServer',
+              data: inServer('hook', { name: 'useState' }),
             },
           ],
         },
@@ -39,7 +61,7 @@ describe('no-client-in-server', () => {
     });
   });
 
-  it('should error when browser globals are used without "use client"', () => {
+  describe('should error when browser globals are used without "use client"', () => {
     ruleTester.run('no-client-in-server', rules['no-client-in-server'], {
       valid: [
         {
@@ -48,11 +70,11 @@ describe('no-client-in-server', () => {
       ],
       invalid: [
         {
-          code: "export default function Component() { const x = window.location; return null; }",
+          code: 'export default function Component() { const x = window.location; return null; }',
           errors: [
             {
-              messageId: 'clientFeatureInServer',
-              data: { name: 'window' },
+              messageId: 'browserGlobalInServer',
+              data: inServer('browser-global', { name: 'window' }),
             },
           ],
         },
@@ -60,7 +82,7 @@ describe('no-client-in-server', () => {
     });
   });
 
-  it('should error when event handlers are used without "use client"', () => {
+  describe('should error when event handlers are used without "use client"', () => {
     ruleTester.run('no-client-in-server', rules['no-client-in-server'], {
       valid: [
         {
@@ -69,11 +91,11 @@ describe('no-client-in-server', () => {
       ],
       invalid: [
         {
-          code: "export default function Component() { return <button onClick={() => {}}>Click</button>; }",
+          code: 'export default function Component() { return <button onClick={() => {}}>Click</button>; }',
           errors: [
             {
-              messageId: 'clientFeatureInServer',
-              data: { name: 'onClick' },
+              messageId: 'eventHandlerInServer',
+              data: inServer('event-handler', { name: 'onClick' }),
             },
           ],
         },
@@ -82,3 +104,536 @@ describe('no-client-in-server', () => {
   });
 });
 
+describe('should only report browser globals that resolve to real globals', () => {
+  ruleTester.run('no-client-in-server', rules['no-client-in-server'], {
+    valid: [
+      {
+        code: 'export default function Page({ location }) { return <p>{location.city}</p>; }',
+      },
+      {
+        code: 'const data = { location: "x", history: [] }; export default function Page() { return <p>{data.location}</p>; }',
+      },
+      {
+        code: 'export default function Page({ router }) { return <p>{router.history.length}</p>; }',
+      },
+      {
+        code: 'export default function Page() { const navigator = getNavigator(); return <p>{navigator.name}</p>; }',
+      },
+    ],
+    invalid: [
+      {
+        code: 'export default function Page() { const title = globalThis.document.title; return null; }',
+        errors: [
+          {
+            messageId: 'browserGlobalInServer',
+            data: inServer('browser-global', { name: 'document' }),
+          },
+        ],
+      },
+      {
+        code: "export default function Page() { self['localStorage'].clear(); return null; }",
+        errors: [
+          {
+            messageId: 'browserGlobalInServer',
+            data: inServer('browser-global', { name: 'localStorage' }),
+          },
+        ],
+      },
+    ],
+  });
+});
+
+describe('should fix each file once and offer suggestions', () => {
+  const counter =
+    "import { useState } from 'react';\nexport default function Counter() { const [c, setC] = useState(0); return <button onClick={() => setC(c + 1)}>{c}</button>; }";
+  const filename = path.join(__dirname, 'Counter.tsx');
+  const command = `rsc-guardian split ${path.relative(process.cwd(), filename)}`;
+
+  ruleTester.run('no-client-in-server', rules['no-client-in-server'], {
+    valid: [],
+    invalid: [
+      {
+        code: counter,
+        options: [{ autoFix: true }],
+        output: `'use client';\n${counter}`,
+        errors: [
+          { messageId: 'hookInServer', data: inServer('hook', { name: 'useState' }) },
+          {
+            messageId: 'eventHandlerInServer',
+            data: inServer('event-handler', { name: 'onClick' }),
+          },
+        ],
+      },
+      {
+        code: `"use strict";\n"use client";\n${counter}`,
+        options: [{ autoFix: true }],
+        output: `"use client";\n"use strict";\n${counter}`,
+        errors: [{ messageId: 'hookInServer' }, { messageId: 'eventHandlerInServer' }],
+      },
+      {
+        code: `// Copyright (c) Example\n${counter}`,
+        options: [{ autoFix: true }],
+        output: `// Copyright (c) Example\n'use client';\n${counter}`,
+        errors: [{ messageId: 'hookInServer' }, { messageId: 'eventHandlerInServer' }],
+      },
+      {
+        code: 'export default function Page() { return <p>{window.innerWidth}</p>; }',
+        errors: [
+          {
+            messageId: 'browserGlobalInServer',
+            suggestions: [
+              {
+                messageId: 'addUseClient',
+                output:
+                  "'use client';\nexport default function Page() { return <p>{window.innerWidth}</p>; }",
+              },
+            ],
+          },
+        ],
+      },
+      {
+        code: counter,
+        filename,
+        options: [{ suggestSplit: true }],
+        errors: [
+          {
+            messageId: 'hookInServer',
+            data: {
+              name: 'useState',
+              where: 'a server component',
+              advice: `${serverAdvice.hook} Or run \`${command} --strategy islands\` to move the interactive JSX into a client component.`,
+            },
+          },
+          {
+            messageId: 'eventHandlerInServer',
+            data: {
+              name: 'onClick',
+              where: 'a server component',
+              advice: `${serverAdvice['event-handler']} Or run \`${command} --strategy islands\` to move the interactive JSX into a client component.`,
+            },
+          },
+        ],
+      },
+      {
+        code: 'const width = window.innerWidth;\nexport default function Page() { return <p>{width}</p>; }',
+        filename,
+        options: [{ suggestSplit: true }],
+        errors: [
+          {
+            messageId: 'browserGlobalInServer',
+            data: {
+              name: 'window',
+              where: 'a server component',
+              advice: `${serverAdvice['browser-global']} Or run \`${command}\` to move the component into a client component.`,
+            },
+          },
+        ],
+      },
+    ],
+  });
+});
+
+describe('should leave the split to the CLI with suggestSplit', () => {
+  const filename = path.join(__dirname, 'Counter.tsx');
+  const counter = [
+    "import { useState } from 'react';",
+    '',
+    'export default function Counter() {',
+    '  const [count, setCount] = useState(0);',
+    '  return <button onClick={() => setCount(count + 1)}>{count}</button>;',
+    '}',
+    '',
+  ].join('\n');
+  // ESLint can't create the client module, so the only suggestion is the directive
+  const suggestions = [{ messageId: 'addUseClient' as const, output: `'use client';\n${counter}` }];
+
+  ruleTester.run('no-client-in-server', rules['no-client-in-server'], {
+    valid: [],
+    invalid: [
+      {
+        code: counter,
+        filename,
+        options: [{ suggestSplit: true }],
+        errors: [
+          { messageId: 'hookInServer', suggestions },
+          { messageId: 'eventHandlerInServer', suggestions },
+        ],
+      },
+    ],
+  });
+});
+
+describe('should report imported modules that reach client-only code with followImports', () => {
+  const fixturesDir = path.resolve(__dirname, '../../__fixtures__/follow-imports');
+  const filename = path.join(fixturesDir, 'page.tsx');
+
+  ruleTester.run('no-client-in-server', rules['no-client-in-server'], {
+    valid: [
+      {
+        code: "import ClientWidget from './ClientWidget';\nimport { formatPrice } from './format';\nexport default function Page() { return <ClientWidget label={formatPrice(1)} />; }",
+        filename,
+        options: [{ followImports: true }],
+      },
+      {
+        code: "import Widget from './Widget';\nexport default function Page() { return <Widget />; }",
+        filename,
+      },
+      {
+        code: "import type { Props } from './Widget';\nexport default function Page(props: Props) { return null; }",
+        filename,
+        options: [{ followImports: true }],
+      },
+    ],
+    invalid: [
+      {
+        code: "import Widget from './Widget';\nexport default function Page() { return <Widget />; }",
+        filename,
+        options: [{ followImports: true }],
+        errors: [
+          {
+            messageId: 'transitiveClientFeature',
+            data: {
+              source: './Widget',
+              file: 'Widget.tsx',
+              names: 'onClick, useToggle',
+              chain: 'page.tsx → Widget.tsx',
+            },
+          },
+          {
+            messageId: 'transitiveClientFeature',
+            data: {
+              source: './Widget',
+              file: 'useToggle.ts',
+              names: 'useState',
+              chain: 'page.tsx → Widget.tsx → useToggle.ts',
+            },
+          },
+        ],
+      },
+    ],
+  });
+});
+
+describe('should apply Next.js App Router conventions with framework next-app', () => {
+  const fixturesDir = path.resolve(__dirname, '../../__fixtures__/next-app');
+  const file = (name: string) => path.join(fixturesDir, name);
+  const options = [{ framework: 'next-app' as const }];
+
+  ruleTester.run('no-client-in-server', rules['no-client-in-server'], {
+    valid: [
+      {
+        // Only imported from the 'use client' Shell
+        code: "import { useState } from 'react';\nexport default function Counter() { const [c] = useState(0); return c; }",
+        filename: file('components/Counter.tsx'),
+        options,
+      },
+      {
+        code: "import { useState } from 'react';\nexport default function Legacy() { const [c] = useState(0); return c; }",
+        filename: file('pages/legacy.tsx'),
+        options,
+      },
+      {
+        code: "'use client';\nexport default function Error({ reset }) { return <button onClick={reset}>Retry</button>; }",
+        filename: file('app/error.tsx'),
+        options,
+      },
+      {
+        code: "'use client';\nexport default function Page() { return null; }",
+        filename: file('app/about/page.tsx'),
+        options,
+      },
+      {
+        code: 'export function GET() { return Response.json({ ok: true }); }',
+        filename: file('app/api/route.ts'),
+        options,
+      },
+    ],
+    invalid: [
+      {
+        code: "import { useState } from 'react';\nexport default function Header() { const [c] = useState(0); return c; }",
+        filename: file('components/Header.tsx'),
+        options,
+        errors: [{ messageId: 'hookInServer', data: inServer('hook', { name: 'useState' }) }],
+      },
+      {
+        code: "import { useState } from 'react';\nexport default function Page() { const [c] = useState(0); return c; }",
+        filename: file('app/page.tsx'),
+        options,
+        errors: [
+          {
+            messageId: 'hookInServer',
+            data: {
+              name: 'useState',
+              where: 'the Next.js page file, a server component by default',
+              advice: serverAdvice.hook,
+            },
+          },
+        ],
+      },
+      {
+        code: 'export default function Error() { return null; }',
+        filename: file('app/error.tsx'),
+        options: [{ framework: 'next-app', autoFix: true }],
+        output: "'use client';\nexport default function Error() { return null; }",
+        errors: [{ messageId: 'nextClientConvention', data: { convention: 'error' } }],
+      },
+      {
+        code: "'use client';\nexport function GET() { return Response.json({}); }",
+        filename: file('app/api/route.ts'),
+        options,
+        errors: [{ messageId: 'nextRouteUseClient', line: 1 }],
+      },
+      {
+        code: 'export function GET() { return Response.json({ width: window.innerWidth }); }',
+        filename: file('app/api/route.ts'),
+        options: [{ framework: 'next-app', autoFix: true }],
+        output: null,
+        errors: [
+          {
+            messageId: 'browserGlobalInServer',
+            data: {
+              name: 'window',
+              where: 'a route handler',
+              advice:
+                'Route handlers run only on the server; move this code out of the route handler.',
+            },
+          },
+        ],
+      },
+      {
+        code: "'use client';\nexport const metadata = { title: 'Home' };\nexport default function Layout({ children }) { return children; }",
+        filename: file('app/layout.tsx'),
+        options,
+        errors: [
+          {
+            messageId: 'nextClientMetadata',
+            data: { name: 'metadata', convention: 'layout' },
+            line: 2,
+          },
+        ],
+      },
+    ],
+  });
+
+  it('should name the Next.js file in the category message', () => {
+    const linter = new TSESLint.Linter();
+    linter.defineParser('@typescript-eslint/parser', parser);
+    linter.defineRule('rsc-guardian/no-client-in-server', rules['no-client-in-server']);
+    const [message] = linter.verify(
+      "import { createPortal } from 'react-dom';\nexport default function Page({ children }) { return createPortal(children, container); }",
+      {
+        parser: '@typescript-eslint/parser',
+        parserOptions: { ecmaVersion: 2022, sourceType: 'module', ecmaFeatures: { jsx: true } },
+        rules: { 'rsc-guardian/no-client-in-server': ['error', ...options] },
+      },
+      { filename: file('app/page.tsx') }
+    );
+
+    expect(message.message).toBe(
+      `'createPortal' from react-dom used in the Next.js page file, a server component by default. It works on the browser DOM, which doesn't exist during server rendering. ${serverAdvice['react-dom-api']}`
+    );
+  });
+});
+
+describe('should apply the settings of rsc-guardian.config.json', () => {
+  const fixturesDir = path.resolve(__dirname, '../../__fixtures__/config');
+  const file = (name: string) => path.join(fixturesDir, name);
+
+  ruleTester.run('no-client-in-server', rules['no-client-in-server'], {
+    valid: [
+      {
+        code: "export default function Title() { const t = useTranslations(); return <h1>{t('title')}</h1>; }",
+        filename: file('Title.tsx'),
+      },
+      {
+        code: 'export default function Card() { const theme = useTheme(); return <div className={theme.card} />; }',
+        filename: file('design-system/Card.tsx'),
+      },
+    ],
+    invalid: [
+      {
+        code: 'export default function Card() { const theme = useTheme(); return <div className={theme.card} />; }',
+        filename: file('Card.tsx'),
+        errors: [{ messageId: 'hookInServer', data: inServer('hook', { name: 'useTheme' }) }],
+      },
+      {
+        code: "import { Fade as Animated } from '@acme/animations';\nexport default function Fade() { const observer = new IntersectionObserver(() => {}); return <Animated />; }",
+        filename: file('Fade.tsx'),
+        errors: [
+          {
+            messageId: 'clientImportInServer',
+            data: inServer('client-import', {
+              reason:
+                "'@acme/animations' is a client-only package and can't be imported by server components.",
+            }),
+            line: 1,
+          },
+          {
+            messageId: 'browserGlobalInServer',
+            data: inServer('browser-global', { name: 'IntersectionObserver' }),
+            line: 2,
+          },
+        ],
+      },
+    ],
+  });
+});
+
+describe('should explain why React APIs and client-only libraries need the client', () => {
+  ruleTester.run('no-client-in-server', rules['no-client-in-server'], {
+    valid: [
+      "import type { MotionProps } from 'framer-motion';\nexport default function Box(props: MotionProps) { return null; }",
+      "import { createStore } from 'zustand/vanilla';\nexport const store = createStore(() => ({ count: 0 }));",
+      "import { createContext } from 'react';\nexport default function Page() { const ctx = createContext(null); return null; }",
+      'class Cache extends Map {}\nexport default function Page() { return null; }',
+    ],
+    invalid: [
+      {
+        code: "import React from 'react';\nexport default class Counter extends React.Component { render() { return null; } }",
+        errors: [
+          {
+            messageId: 'classComponentInServer',
+            data: inServer('class-component', { name: 'Counter' }),
+            line: 2,
+          },
+        ],
+      },
+      {
+        code: "import { PureComponent } from 'react';\nexport default class extends PureComponent { render() { return null; } }",
+        errors: [
+          {
+            messageId: 'classComponentInServer',
+            data: inServer('class-component', { name: 'PureComponent' }),
+          },
+        ],
+      },
+      {
+        code: "import { createContext } from 'react';\nexport const ThemeContext = createContext('light');",
+        errors: [{ messageId: 'createContextInServer', line: 2 }],
+      },
+      {
+        code: "import { createPortal, flushSync } from 'react-dom';\nexport default function Modal({ children }) { flushSync(() => {}); return createPortal(children, document.body); }",
+        errors: [
+          {
+            messageId: 'reactDomApiInServer',
+            data: inServer('react-dom-api', { name: 'flushSync' }),
+          },
+          {
+            messageId: 'reactDomApiInServer',
+            data: inServer('react-dom-api', { name: 'createPortal' }),
+          },
+          {
+            messageId: 'browserGlobalInServer',
+            data: inServer('browser-global', { name: 'document' }),
+          },
+        ],
+      },
+      {
+        code: "import { LineChart } from 'recharts';\nexport default function Sales() { return <LineChart />; }",
+        errors: [
+          {
+            messageId: 'clientImportInServer',
+            data: inServer('client-import', {
+              reason:
+                "'recharts' draws charts with browser APIs, so it only works in client components.",
+            }),
+          },
+        ],
+      },
+    ],
+  });
+});
+
+describe('should apply the categories and reportMode options', () => {
+  const form =
+    "import { useState } from 'react';\nexport default function Form() { const [v, setV] = useState(''); return <form onSubmit={() => {}}><input onChange={(e) => setV(e.target.value)} onBlur={() => {}} /><button onClick={() => {}} /><button onClick={() => {}} /></form>; }";
+
+  ruleTester.run('no-client-in-server', rules['no-client-in-server'], {
+    valid: [
+      {
+        code: 'export default function Page() { return <button onClick={() => {}}>{window.name}</button>; }',
+        options: [{ categories: { 'event-handler': 'off', 'browser-global': 'off' } }],
+      },
+    ],
+    invalid: [
+      {
+        code: form,
+        options: [{ categories: { 'event-handler': 'off' } }],
+        errors: [{ messageId: 'hookInServer', data: inServer('hook', { name: 'useState' }) }],
+      },
+      {
+        code: form,
+        options: [{ reportMode: 'per-file', autoFix: true }],
+        output: `'use client';\n${form}`,
+        errors: [
+          {
+            messageId: 'clientFeaturesInServer',
+            data: {
+              features: 'hooks: useState; event handlers: onSubmit, onChange, onBlur, onClick (2)',
+            },
+            line: 2,
+            column: 52,
+          },
+        ],
+      },
+      {
+        code: form,
+        options: [{ reportMode: 'per-file', categories: { hook: 'off' } }],
+        errors: [
+          {
+            messageId: 'clientFeaturesInServer',
+            data: { features: 'event handlers: onSubmit, onChange, onBlur, onClick (2)' },
+          },
+        ],
+      },
+    ],
+  });
+
+  it('should report each category with its severity through the severity processor', () => {
+    const linter = new TSESLint.Linter();
+    linter.defineParser('@typescript-eslint/parser', parser);
+    linter.defineRule('rsc-guardian/no-client-in-server', rules['no-client-in-server']);
+    const lint = (options: object) =>
+      linter.verify(
+        form,
+        {
+          parser: '@typescript-eslint/parser',
+          parserOptions: { ecmaVersion: 2022, sourceType: 'module', ecmaFeatures: { jsx: true } },
+          rules: { 'rsc-guardian/no-client-in-server': ['error', options] },
+        },
+        { filename: 'Form.tsx', ...processors.severity }
+      );
+
+    const perFeature = lint({ categories: { 'event-handler': 'warn' } });
+    expect(perFeature.map((message) => [message.messageId, message.severity])).toEqual([
+      ['hookInServer', 2],
+      ...Array(5).fill(['eventHandlerInServer', 1]),
+    ]);
+
+    const perFile = lint({
+      reportMode: 'per-file',
+      categories: { hook: 'warn', 'event-handler': 'warn' },
+    });
+    expect(perFile.map((message) => [message.messageId, message.severity])).toEqual([
+      ['clientFeaturesInServer', 1],
+    ]);
+  });
+
+  it('should not keep the severities of other files when linting without the processor', () => {
+    const linter = new TSESLint.Linter();
+    linter.defineParser('@typescript-eslint/parser', parser);
+    linter.defineRule('rsc-guardian/no-client-in-server', rules['no-client-in-server']);
+    const config: TSESLint.Linter.Config = {
+      parser: '@typescript-eslint/parser',
+      parserOptions: { ecmaVersion: 2022, sourceType: 'module', ecmaFeatures: { jsx: true } },
+      rules: { 'rsc-guardian/no-client-in-server': ['error', { categories: { hook: 'warn' } }] },
+    };
+
+    const [report] = linter.verify(form, config, { filename: 'Form.tsx' });
+    linter.verify(form, config, { filename: 'Other.tsx' });
+
+    // Form.tsx's severities were dropped when Other.tsx was linted
+    const [message] = processors.severity.postprocess?.([[report]], 'Form.tsx') ?? [];
+    expect(message).toMatchObject({ messageId: 'hookInServer', severity: 2 });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, afterAll } from 'vitest';
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { rules } from '../index';
+
+RuleTester.describe = describe;
+RuleTester.it = it;
+RuleTester.afterAll = afterAll;
+
+const ruleTester = new RuleTester({
+  parser: '@typescript-eslint/parser',
+  parserOptions: {
+    ecmaVersion: 2022,
+    sourceType: 'module',
+    ecmaFeatures: {
+      jsx: true,
+    },
+  },
+});
+
+describe('no-inline-server-action-in-client', () => {
+  ruleTester.run('no-inline-server-action-in-client', rules['no-inline-server-action-in-client'], {
+    valid: [
+      "'use client';\nimport { save } from './actions';\nexport default function Form() { return <form action={save} />; }",
+      // Inline actions are fine in server components
+      "export default function Form() {\n  async function save() {\n    'use server';\n  }\n  return <form action={save} />;\n}",
+    ],
+    invalid: [
+      {
+        code: "'use client';\nexport default function Form() {\n  async function save() {\n    'use server';\n  }\n  return <form action={save} />;\n}",
+        errors: [{ messageId: 'inlineServerAction', data: { name: 'save' }, line: 4 }],
+      },
+      {
+        code: "'use client';\nexport default function Form() {\n  return <form action={async () => { 'use server'; }} />;\n}",
+        errors: [{ messageId: 'inlineServerAction', data: { name: 'action' } }],
+      },
+    ],
+  });
+});
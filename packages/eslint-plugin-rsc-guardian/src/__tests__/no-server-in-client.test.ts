@@ -0,0 +1,146 @@
+import { describe, it, afterAll } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { rules } from '../index';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+RuleTester.describe = describe;
+RuleTester.it = it;
+RuleTester.afterAll = afterAll;
+
+const ruleTester = new RuleTester({
+  parser: '@typescript-eslint/parser',
+  parserOptions: {
+    ecmaVersion: 2022,
+    sourceType: 'module',
+    ecmaFeatures: {
+      jsx: true,
+    },
+  },
+});
+
+describe('no-server-in-client', () => {
+  const fixturesDir = path.resolve(__dirname, '../../__fixtures__/server-only');
+  const filename = path.join(fixturesDir, 'Users.tsx');
+
+  ruleTester.run('no-server-in-client', rules['no-server-in-client'], {
+    valid: [
+      // Server components may use all of it
+      "import fs from 'fs';\nexport default async function Page() { return fs.readFileSync('x', 'utf-8'); }",
+      "'use client';\nimport type { PrismaClient } from '@prisma/client';\nexport default function Users(props: { db: PrismaClient }) { return null; }",
+      "'use client';\nimport { type NextRequest } from 'next/server';\nexport function useRequest(request: NextRequest) { return request; }",
+      "'use client';\nexport default function Analytics() { return <script data-id={process.env.NEXT_PUBLIC_ANALYTICS_ID} />; }",
+      "'use client';\nexport default function Debug() { return process.env.NODE_ENV === 'development' ? <p>dev</p> : null; }",
+      "'use client';\nexport async function save(data) { await fetch('/api', { method: 'POST', body: data }); }",
+      "'use client';\nexport default function Form() { const submit = async () => {}; return <form onSubmit={submit} />; }",
+      {
+        code: "'use client';\nimport { formatName } from './format';\nexport default function Name({ name }) { return <p>{formatName(name)}</p>; }",
+        filename,
+      },
+      {
+        code: "'use client';\nexport default function Analytics() { return <p>{process.env.VITE_APP_NAME}</p>; }",
+        options: [{ publicEnvPrefix: 'VITE_' }],
+      },
+    ],
+    invalid: [
+      {
+        code: "'use client';\nimport { readFileSync } from 'fs';\nimport { cookies } from 'next/headers';\nimport { PrismaClient } from '@prisma/client';\nimport 'server-only';\nexport default function Users() { return null; }",
+        errors: [
+          {
+            messageId: 'serverModuleInClient',
+            data: {
+              reason: "'fs' is a Node.js built-in module, which doesn't exist in the browser.",
+            },
+            line: 2,
+          },
+          {
+            messageId: 'serverModuleInClient',
+            data: {
+              reason: "'next/headers' reads the incoming request, which only exists on the server.",
+            },
+            line: 3,
+          },
+          {
+            messageId: 'serverModuleInClient',
+            data: {
+              reason: "'@prisma/client' connects to a database with server-side credentials.",
+            },
+            line: 4,
+          },
+          {
+            messageId: 'serverModuleInClient',
+            data: {
+              reason: "'server-only' marks code that must never be bundled for the browser.",
+            },
+            line: 5,
+          },
+        ],
+      },
+      {
+        code: "'use client';\nexport default function Logs() { import('node:child_process'); return null; }",
+        errors: [{ messageId: 'serverModuleInClient' }],
+      },
+      {
+        code: "'use client';\nimport { track } from '@acme/telemetry/server';\nexport default function Users() { return null; }",
+        options: [{ serverModules: ['@acme/telemetry'] }],
+        errors: [
+          {
+            messageId: 'serverModuleInClient',
+            data: {
+              reason:
+                "'@acme/telemetry' is a server-only module and can't be imported by client components.",
+            },
+          },
+        ],
+      },
+      {
+        code: "'use client';\nimport { getUsers } from './db';\nexport default function Users() { return null; }",
+        filename,
+        errors: [{ messageId: 'markedModuleInClient', data: { source: './db' } }],
+      },
+      {
+        code: "'use client';\nconst { STRIPE_SECRET_KEY, NEXT_PUBLIC_STRIPE_KEY } = process.env;\nexport default function Checkout() { return <p data-url={process.env.DATABASE_URL} data-token={process.env['API_TOKEN']} />; }",
+        errors: [
+          {
+            messageId: 'privateEnvInClient',
+            data: { name: 'process.env.STRIPE_SECRET_KEY', prefix: 'NEXT_PUBLIC_' },
+            line: 2,
+          },
+          {
+            messageId: 'privateEnvInClient',
+            data: { name: 'process.env.DATABASE_URL', prefix: 'NEXT_PUBLIC_' },
+          },
+          {
+            messageId: 'privateEnvInClient',
+            data: { name: 'process.env.API_TOKEN', prefix: 'NEXT_PUBLIC_' },
+          },
+        ],
+      },
+      {
+        code: "'use client';\nexport default function Analytics() { return <p>{process.env.NEXT_PUBLIC_APP_NAME}</p>; }",
+        options: [{ publicEnvPrefix: 'VITE_' }],
+        errors: [
+          {
+            messageId: 'privateEnvInClient',
+            data: { name: 'process.env.NEXT_PUBLIC_APP_NAME', prefix: 'VITE_' },
+          },
+        ],
+      },
+      {
+        code: "'use client';\nexport default async function Users() { return null; }\nexport const Profile = async () => null;\nasync function Avatar() { return null; }",
+        errors: [
+          { messageId: 'asyncClientComponent', data: { name: 'Users' }, line: 2 },
+          { messageId: 'asyncClientComponent', data: { name: 'Profile' }, line: 3 },
+          { messageId: 'asyncClientComponent', data: { name: 'Avatar' }, line: 4 },
+        ],
+      },
+      {
+        code: "'use client';\nexport default async function () { return null; }",
+        errors: [{ messageId: 'asyncClientComponent', data: { name: 'default' } }],
+      },
+    ],
+  });
+});
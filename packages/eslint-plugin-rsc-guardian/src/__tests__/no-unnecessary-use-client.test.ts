@@ -0,0 +1,141 @@
+import { describe, it, afterAll } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { rules } from '../index';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+RuleTester.describe = describe;
+RuleTester.it = it;
+RuleTester.afterAll = afterAll;
+
+const ruleTester = new RuleTester({
+  parser: '@typescript-eslint/parser',
+  parserOptions: {
+    ecmaVersion: 2022,
+    sourceType: 'module',
+    ecmaFeatures: {
+      jsx: true,
+    },
+  },
+});
+
+describe('no-unnecessary-use-client', () => {
+  const nextApp = path.resolve(__dirname, '../../__fixtures__/next-app');
+
+  ruleTester.run('no-unnecessary-use-client', rules['no-unnecessary-use-client'], {
+    valid: [
+      'export default function Title() { return <h1>Hello</h1>; }',
+      "'use client';\nimport { useState } from 'react';\nexport default function Counter() { const [c] = useState(0); return c; }",
+      "'use client';\nexport default function Button() { return <button onClick={() => {}} />; }",
+      "'use client';\nexport default function Width() { return <p>{window.innerWidth}</p>; }",
+      "'use client';\nimport { motion } from 'framer-motion';\nexport default function Fade() { return <motion.div />; }",
+      "'use client';\nexport { Carousel } from 'react-slick';",
+      "'use client';\nexport * from '@acme/ui';",
+      // Package components without 'use client' of their own are wrapped to render them
+      "'use client';\nimport Carousel from 'react-slick';\nexport default function Slides({ slides }) { return <Carousel dots>{slides}</Carousel>; }",
+      "'use client';\nimport { ThemeProvider } from 'next-themes';\nexport function Providers({ children }) { return <ThemeProvider attribute=\"class\">{children}</ThemeProvider>; }",
+      // Functions can only be passed to client components from a client module
+      "'use client';\nimport Table from './Table';\nexport default function Users({ users }) { return <Table rows={users} renderRow={(user) => <td>{user.name}</td>} />; }",
+      "'use client';\nimport List from './List';\nfunction format(value) { return value.toFixed(2); }\nexport default function Prices({ prices }) { return <List items={prices} format={format} />; }",
+      "'use client';\nimport Tabs from './Tabs';\nexport default function Page() { return <Tabs>{(tab) => <p>{tab}</p>}</Tabs>; }",
+      "'use client';\n// rsc-guardian-keep-client: imported by the client-side <Editor>\nexport default function Toolbar({ items }) { return <nav>{items}</nav>; }",
+      {
+        code: "'use client';\nexport default function Error() { return <p>Something went wrong</p>; }",
+        filename: path.join(nextApp, 'app/error.tsx'),
+        options: [{ framework: 'next-app' }],
+      },
+    ],
+    invalid: [
+      {
+        code: "'use client';\nexport default function Title({ text }) { return <h1>{text}</h1>; }",
+        errors: [
+          {
+            messageId: 'unnecessaryUseClient',
+            line: 1,
+            suggestions: [
+              {
+                messageId: 'removeUseClient',
+                output: 'export default function Title({ text }) { return <h1>{text}</h1>; }',
+              },
+            ],
+          },
+        ],
+      },
+      {
+        code: "// Copyright (c) Example\n\"use client\";\nimport Card from './Card';\nconst title = 'Users';\nexport default function Users({ users }) { return <Card title={title}>{users.map((user) => <p key={user.id}>{user.name}</p>)}</Card>; }",
+        errors: [
+          {
+            messageId: 'unnecessaryUseClient',
+            line: 2,
+            suggestions: [
+              {
+                messageId: 'removeUseClient',
+                output:
+                  "// Copyright (c) Example\nimport Card from './Card';\nconst title = 'Users';\nexport default function Users({ users }) { return <Card title={title}>{users.map((user) => <p key={user.id}>{user.name}</p>)}</Card>; }",
+              },
+            ],
+          },
+        ],
+      },
+      {
+        code: "'use client';\nexport { default } from './Title';",
+        errors: [
+          {
+            messageId: 'unnecessaryUseClient',
+            suggestions: [
+              { messageId: 'removeUseClient', output: "export { default } from './Title';" },
+            ],
+          },
+        ],
+      },
+      {
+        code: "'use client';\nexport default function Error() { return <p>Something went wrong</p>; }",
+        filename: path.join(nextApp, 'app/error.tsx'),
+        errors: [
+          {
+            messageId: 'unnecessaryUseClient',
+            suggestions: [
+              {
+                messageId: 'removeUseClient',
+                output: 'export default function Error() { return <p>Something went wrong</p>; }',
+              },
+            ],
+          },
+        ],
+      },
+      {
+        code: "'use client';\nimport type { ReactNode } from 'react';\nimport { type Theme } from 'next-themes';\nexport default function Label({ theme, children }: { theme: Theme; children: ReactNode }) { return <p>{theme}{children}</p>; }",
+        errors: [
+          {
+            messageId: 'unnecessaryUseClient',
+            suggestions: [
+              {
+                messageId: 'removeUseClient',
+                output:
+                  "import type { ReactNode } from 'react';\nimport { type Theme } from 'next-themes';\nexport default function Label({ theme, children }: { theme: Theme; children: ReactNode }) { return <p>{theme}{children}</p>; }",
+              },
+            ],
+          },
+        ],
+      },
+      {
+        code: "'use client';\nimport { createStore } from 'zustand/vanilla';\nexport const store = createStore(() => ({ count: 0 }));",
+        errors: [
+          {
+            messageId: 'unnecessaryUseClient',
+            suggestions: [
+              {
+                messageId: 'removeUseClient',
+                output:
+                  "import { createStore } from 'zustand/vanilla';\nexport const store = createStore(() => ({ count: 0 }));",
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  });
+});
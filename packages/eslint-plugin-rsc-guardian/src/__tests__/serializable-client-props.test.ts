@@ -0,0 +1,173 @@
+import { describe, it, afterAll } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { rules } from '../index';
+
+// Get __dirname equivalent for ESM
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+RuleTester.describe = describe;
+RuleTester.it = it;
+RuleTester.afterAll = afterAll;
+
+const fixturesDir = path.resolve(__dirname, '../../__fixtures__/client-props');
+const filename = path.join(fixturesDir, 'page.tsx');
+
+const ruleTester = new RuleTester({
+  parser: '@typescript-eslint/parser',
+  parserOptions: {
+    ecmaVersion: 2022,
+    sourceType: 'module',
+    ecmaFeatures: {
+      jsx: true,
+    },
+  },
+});
+
+const typedRuleTester = new RuleTester({
+  parser: '@typescript-eslint/parser',
+  parserOptions: {
+    ecmaVersion: 2022,
+    sourceType: 'module',
+    ecmaFeatures: {
+      jsx: true,
+    },
+    project: './tsconfig.json',
+    tsconfigRootDir: fixturesDir,
+  },
+});
+
+describe('serializable-client-props', () => {
+  ruleTester.run('serializable-client-props', rules['serializable-client-props'], {
+    valid: [
+      {
+        code: "import Counter from './Counter';\nexport default function Page() { return <Counter label=\"Count\" key=\"c\" />; }",
+        filename,
+      },
+      {
+        // Server Actions may be passed, imported or inline, and bound
+        code: [
+          "import Counter from './Counter';",
+          "import { save } from './actions';",
+          'export default function Page({ id }: { id: number }) {',
+          '  async function update(value: number) {',
+          "    'use server';",
+          '  }',
+          '  return (',
+          '    <>',
+          '      <Counter onChange={save} />',
+          '      <Counter onChange={update} />',
+          '      <Counter onChange={save.bind(null, id)} />',
+          '      <Counter onChange={async () => { "use server"; }} />',
+          '    </>',
+          '  );',
+          '}',
+        ].join('\n'),
+        filename,
+      },
+      {
+        // Server components may receive anything
+        code: "import Badge from './Badge';\nexport default function Page() { return <Badge format={(n) => String(n)} />; }",
+        filename,
+      },
+      {
+        code: "import { Card } from './ui';\nexport default function Page() { return <Card title={new Date().toISOString()} />; }",
+        filename,
+      },
+      {
+        // Client components render client components with any props
+        code: "'use client';\nimport Counter from './Counter';\nexport default function Page() { return <Counter onChange={() => {}} />; }",
+        filename,
+      },
+    ],
+    invalid: [
+      {
+        code: "import Counter from './Counter';\nexport default function Page() { return <Counter onChange={(value) => console.log(value)} />; }",
+        filename,
+        errors: [
+          {
+            messageId: 'nonSerializableProp',
+            data: { prop: 'onChange', component: 'Counter', reason: 'a function' },
+          },
+        ],
+      },
+      {
+        // Resolved through the barrel file
+        code: [
+          "import { Card, Dialog } from './ui';",
+          'class Formatter {}',
+          'export default function Page() {',
+          '  const close = () => {};',
+          '  return (',
+          '    <Dialog onClose={close}>',
+          '      <Card title={new Formatter()} />',
+          '    </Dialog>',
+          '  );',
+          '}',
+        ].join('\n'),
+        filename,
+        errors: [
+          {
+            messageId: 'nonSerializableProp',
+            data: { prop: 'onClose', component: 'Dialog', reason: 'a function' },
+            line: 6,
+          },
+          {
+            messageId: 'nonSerializableProp',
+            data: { prop: 'title', component: 'Card', reason: 'a class instance' },
+            line: 7,
+          },
+        ],
+      },
+      {
+        code: "import * as UI from './ui';\nexport default function Page() { return <UI.Card>{() => null}</UI.Card>; }",
+        filename,
+        errors: [
+          {
+            messageId: 'nonSerializableProp',
+            data: { prop: 'children', component: 'UI.Card', reason: 'a function' },
+          },
+        ],
+      },
+    ],
+  });
+});
+
+describe('serializable-client-props with type information', () => {
+  typedRuleTester.run('serializable-client-props', rules['serializable-client-props'], {
+    valid: [
+      {
+        code: "import Counter from './Counter';\nimport { createdAt } from './lib';\nexport default function Page() { return <Counter label={createdAt.toISOString()} />; }",
+        filename,
+      },
+      {
+        code: "import { Card } from './ui';\nimport { save } from './actions';\nexport default function Page() { return <Card render={save} />; }",
+        filename,
+      },
+    ],
+    invalid: [
+      {
+        code: [
+          "import Counter from './Counter';",
+          "import { onSelect, price } from './lib';",
+          'export default function Page() {',
+          '  return <Counter onChange={onSelect} label={price} />;',
+          '}',
+        ].join('\n'),
+        filename,
+        errors: [
+          {
+            messageId: 'nonSerializableProp',
+            data: { prop: 'onChange', component: 'Counter', reason: 'a function' },
+          },
+          {
+            messageId: 'nonSerializableProp',
+            data: { prop: 'label', component: 'Counter', reason: 'a class instance' },
+          },
+        ],
+      },
+    ],
+  });
+});
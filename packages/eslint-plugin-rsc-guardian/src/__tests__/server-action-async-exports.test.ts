@@ -0,0 +1,62 @@
+import { describe, it, afterAll } from 'vitest';
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { rules } from '../index';
+
+RuleTester.describe = describe;
+RuleTester.it = it;
+RuleTester.afterAll = afterAll;
+
+const ruleTester = new RuleTester({
+  parser: '@typescript-eslint/parser',
+  parserOptions: {
+    ecmaVersion: 2022,
+    sourceType: 'module',
+    ecmaFeatures: {
+      jsx: true,
+    },
+  },
+});
+
+describe('server-action-async-exports', () => {
+  ruleTester.run('server-action-async-exports', rules['server-action-async-exports'], {
+    valid: [
+      "'use server';\nexport async function save(data: FormData) {}",
+      "'use server';\nexport const remove = async (id: string) => {};",
+      "'use server';\nexport default async function () {}",
+      "'use server';\nasync function update() {}\nexport { update };",
+      "'use server';\nimport { withAuth } from './auth';\nexport const guarded = withAuth(async () => {});",
+      "'use server';\nexport type Result = { ok: boolean };\nexport interface Input { id: string }",
+      "'use server';\nexport { helper } from './helpers';",
+      // Not a 'use server' file
+      'export const limit = 10;\nexport function format() {}',
+    ],
+    invalid: [
+      {
+        code: "'use server';\nexport function save(data: FormData) {}",
+        errors: [{ messageId: 'nonAsyncExport', data: { name: 'save' }, line: 2 }],
+      },
+      {
+        code: "'use server';\nexport const limit = 10;\nexport const remove = (id: string) => {};",
+        errors: [
+          { messageId: 'nonAsyncExport', data: { name: 'limit' } },
+          { messageId: 'nonAsyncExport', data: { name: 'remove' } },
+        ],
+      },
+      {
+        code: "'use server';\nfunction update() {}\nconst config = { retries: 3 };\nexport { update, config as settings };",
+        errors: [
+          { messageId: 'nonAsyncExport', data: { name: 'update' } },
+          { messageId: 'nonAsyncExport', data: { name: 'settings' } },
+        ],
+      },
+      {
+        code: "'use server';\nexport default class Store {}",
+        errors: [{ messageId: 'nonAsyncExport', data: { name: 'default' } }],
+      },
+      {
+        code: "'use server';\nexport enum Status { Open, Closed }",
+        errors: [{ messageId: 'nonAsyncExport', data: { name: 'Status' } }],
+      },
+    ],
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, afterAll, expect } from 'vitest';
+import * as parser from '@typescript-eslint/parser';
+import { TSESLint } from '@typescript-eslint/utils';
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { rules } from '../index';
+
+RuleTester.describe = describe;
+RuleTester.it = it;
+RuleTester.afterAll = afterAll;
+
+const ruleTester = new RuleTester({
+  parser: '@typescript-eslint/parser',
+  parserOptions: {
+    ecmaVersion: 2022,
+    sourceType: 'module',
+    ecmaFeatures: {
+      jsx: true,
+    },
+  },
+});
+
+describe('server-action-directive-placement', () => {
+  ruleTester.run('server-action-directive-placement', rules['server-action-directive-placement'], {
+    valid: [
+      "'use server';\nexport async function save() {}",
+      "export default function Page() {\n  async function save() {\n    'use server';\n  }\n  return null;\n}",
+      "const save = async () => {\n  'use server';\n};",
+      // Module-level directives are reported by directive-placement
+      "import { db } from './db';\n'use server';\nexport async function save() {}",
+      "'use server';\n'use server';\nexport async function save() {}",
+      "'use client';\nimport x from './x';\n'use server';",
+    ],
+    invalid: [
+      {
+        code: "async function save() {\n  const id = 1;\n  'use server';\n  return id;\n}",
+        output: "async function save() {\n  'use server';\n  const id = 1;\n  return id;\n}",
+        errors: [{ messageId: 'misplacedUseServer', line: 3 }],
+      },
+      {
+        // No fix inside nested blocks, where the intent is unclear
+        code: "async function save(ok: boolean) {\n  if (ok) {\n    'use server';\n  }\n}",
+        output: null,
+        errors: [{ messageId: 'misplacedUseServer' }],
+      },
+    ],
+  });
+
+  it('should leave module-level directives to directive-placement', () => {
+    const linter = new TSESLint.Linter();
+    linter.defineParser('@typescript-eslint/parser', parser);
+    linter.defineRule('rsc-guardian/directive-placement', rules['directive-placement']);
+    linter.defineRule(
+      'rsc-guardian/server-action-directive-placement',
+      rules['server-action-directive-placement']
+    );
+    const config: TSESLint.Linter.Config = {
+      parser: '@typescript-eslint/parser',
+      parserOptions: { ecmaVersion: 2022, sourceType: 'module' },
+      rules: {
+        'rsc-guardian/directive-placement': 'error',
+        'rsc-guardian/server-action-directive-placement': 'error',
+      },
+    };
+    const code = [
+      "import { db } from './db';",
+      "'use server';",
+      "'use server';",
+      'export async function save() {',
+      '  await db.save();',
+      "  'use server';",
+      '}',
+    ].join('\n');
+
+    expect(
+      linter.verify(code, config).map((message) => [message.ruleId, message.messageId])
+    ).toEqual([
+      ['rsc-guardian/directive-placement', 'misplacedUseServer'],
+      ['rsc-guardian/directive-placement', 'duplicateDirective'],
+      ['rsc-guardian/server-action-directive-placement', 'misplacedUseServer'],
+    ]);
+    expect(linter.verifyAndFix(code, config)).toMatchObject({
+      output: [
+        "'use server';",
+        "import { db } from './db';",
+        'export async function save() {',
+        "  'use server';",
+        '  await db.save();',
+        '}',
+      ].join('\n'),
+      messages: [],
+    });
+  });
+});
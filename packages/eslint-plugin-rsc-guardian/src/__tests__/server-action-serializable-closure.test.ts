@@ -0,0 +1,116 @@
+import { describe, it, afterAll } from 'vitest';
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { rules } from '../index';
+
+RuleTester.describe = describe;
+RuleTester.it = it;
+RuleTester.afterAll = afterAll;
+
+const ruleTester = new RuleTester({
+  parser: '@typescript-eslint/parser',
+  parserOptions: {
+    ecmaVersion: 2022,
+    sourceType: 'module',
+    ecmaFeatures: {
+      jsx: true,
+    },
+  },
+});
+
+describe('server-action-serializable-closure', () => {
+  ruleTester.run('server-action-serializable-closure', rules['server-action-serializable-closure'], {
+    valid: [
+      // Serializable captured values and module-level bindings
+      [
+        "import { db } from './db';",
+        'const logger = console;',
+        'export default function Page({ id }: { id: string }) {',
+        '  const createdAt = new Date();',
+        '  const tags = new Set(["a"]);',
+        '  async function save() {',
+        "    'use server';",
+        '    logger.log(createdAt, tags);',
+        '    await db.save(id);',
+        '  }',
+        '  return <form action={save} />;',
+        '}',
+      ].join('\n'),
+      // Other Server Actions are passed by reference
+      [
+        'export default function Page() {',
+        '  async function refresh() {',
+        "    'use server';",
+        '  }',
+        '  async function save() {',
+        "    'use server';",
+        '    await refresh();',
+        '  }',
+        '  return <form action={save} />;',
+        '}',
+      ].join('\n'),
+      // Not a Server Action
+      [
+        'export default function Page() {',
+        '  const format = (value: number) => value.toFixed(2);',
+        '  const total = () => format(1);',
+        '  return <p>{total()}</p>;',
+        '}',
+      ].join('\n'),
+    ],
+    invalid: [
+      {
+        code: [
+          'export default function Page() {',
+          '  const format = (value: number) => value.toFixed(2);',
+          '  const client = new ApiClient();',
+          "  const key = Symbol('key');",
+          '  async function save() {',
+          "    'use server';",
+          '    await client.post(format(1), key);',
+          '    await client.flush();',
+          '  }',
+          '  return <form action={save} />;',
+          '}',
+        ].join('\n'),
+        errors: [
+          {
+            messageId: 'nonSerializableClosure',
+            data: { action: 'save', name: 'client', reason: 'a class instance' },
+            line: 7,
+          },
+          {
+            messageId: 'nonSerializableClosure',
+            data: { action: 'save', name: 'format', reason: 'a function' },
+            line: 7,
+          },
+          {
+            messageId: 'nonSerializableClosure',
+            data: { action: 'save', name: 'key', reason: 'a symbol' },
+            line: 7,
+          },
+        ],
+      },
+      {
+        code: [
+          'export default function Page() {',
+          '  class Cart {}',
+          '  return (',
+          '    <form',
+          '      action={async () => {',
+          "        'use server';",
+          '        return new Cart();',
+          '      }}',
+          '    />',
+          '  );',
+          '}',
+        ].join('\n'),
+        errors: [
+          {
+            messageId: 'nonSerializableClosure',
+            data: { action: 'action', name: 'Cart', reason: 'a class' },
+          },
+        ],
+      },
+    ],
+  });
+});
@@ -1,10 +1,31 @@
+import directivePlacement from './rules/directive-placement';
 import noClientInServer from './rules/no-client-in-server';
+import noInlineServerActionInClient from './rules/no-inline-server-action-in-client';
+import noServerInClient from './rules/no-server-in-client';
+import noUnnecessaryUseClient from './rules/no-unnecessary-use-client';
+import serializableClientProps from './rules/serializable-client-props';
+import serverActionAsyncExports from './rules/server-action-async-exports';
+import serverActionDirectivePlacement from './rules/server-action-directive-placement';
+import serverActionSerializableClosure from './rules/server-action-serializable-closure';
+import { severityProcessor } from './severity';
 
 export const rules = {
+  'directive-placement': directivePlacement,
   'no-client-in-server': noClientInServer,
+  'no-inline-server-action-in-client': noInlineServerActionInClient,
+  'no-server-in-client': noServerInClient,
+  'no-unnecessary-use-client': noUnnecessaryUseClient,
+  'serializable-client-props': serializableClientProps,
+  'server-action-async-exports': serverActionAsyncExports,
+  'server-action-directive-placement': serverActionDirectivePlacement,
+  'server-action-serializable-closure': serverActionSerializableClosure,
+};
+
+export const processors = {
+  severity: severityProcessor,
 };
 
 export default {
   rules,
+  processors,
 };
-
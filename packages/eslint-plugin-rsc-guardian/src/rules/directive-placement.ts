@@ -0,0 +1,226 @@
+import type { TSESLint } from '@typescript-eslint/utils';
+import type { TSESTree } from '@typescript-eslint/types';
+import { isDirectiveStatement } from 'rsc-guardian-core';
+import { createRule, isFunctionNode, statementLineRange } from '../utils';
+
+type MessageIds =
+  | 'misplacedUseClient'
+  | 'misplacedUseServer'
+  | 'useClientInFunction'
+  | 'moveUseClient'
+  | 'directiveTypo'
+  | 'duplicateDirective'
+  | 'conflictingDirectives'
+  | 'keepDirective';
+type Options = readonly [];
+
+type RuleFixer = TSESLint.RuleFixer;
+
+type Directive = 'use client' | 'use server';
+
+interface StringStatement extends TSESTree.ExpressionStatement {
+  expression: TSESTree.StringLiteral;
+}
+
+const directives: Directive[] = ['use client', 'use server'];
+
+// Other directives a file or function may legitimately start with
+const knownDirectives = new Set(['use strict', 'use cache', 'use asm']);
+
+function isStringStatement(node: TSESTree.Node | undefined): node is StringStatement {
+  return (
+    node?.type === 'ExpressionStatement' &&
+    node.expression.type === 'Literal' &&
+    typeof node.expression.value === 'string'
+  );
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * The directive a string was probably meant to be: `"use-client"`,
+ * `'use  client'`, `'Use Client;'` or `'use clinet'` all mean `'use client'`.
+ */
+function intendedDirective(value: string): Directive | null {
+  if ((directives as string[]).includes(value) || knownDirectives.has(value)) {
+    return null;
+  }
+  const normalized = value
+    .toLowerCase()
+    .replace(/[\s_-]+/g, ' ')
+    .replace(/[\s;]+$/, '')
+    .trim();
+  return (
+    directives.find(
+      (directive) =>
+        normalized === directive ||
+        normalized === directive.replace(' ', '') ||
+        editDistance(normalized, directive) <= 2
+    ) ?? null
+  );
+}
+
+/** The leading string statements of a body: its directive prologue. */
+function prologue(body: TSESTree.Node[]): StringStatement[] {
+  const statements: StringStatement[] = [];
+  for (const statement of body) {
+    if (!isStringStatement(statement)) {
+      break;
+    }
+    statements.push(statement);
+  }
+  return statements;
+}
+
+const rule = createRule({
+  name: 'directive-placement',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        "Require 'use client' and 'use server' directives to be spelled right, placed first and used once",
+      recommended: 'recommended',
+    },
+    messages: {
+      misplacedUseClient:
+        "'use client' only takes effect as the first statement of a file, above imports and other directives. Here it is ignored, so the file is treated as a server component.",
+      misplacedUseServer:
+        "'use server' only takes effect as the first statement of a file, above imports and other directives. Here it is ignored, so the file's exports are not Server Actions.",
+      useClientInFunction:
+        "'use client' marks a whole file as a client module and is ignored inside a function. Move it to the top of the file.",
+      moveUseClient: "Move 'use client' to the top of the file.",
+      directiveTypo:
+        "'{{text}}' is not a directive React knows, so it is ignored. Did you mean '{{directive}}'?",
+      duplicateDirective: "'{{directive}}' is already declared above. Remove the duplicate.",
+      conflictingDirectives:
+        "A file can't be both a client module ('use client') and a module of Server Actions ('use server'). Keep one of the two directives.",
+      keepDirective: "Keep '{{directive}}' and remove the other directive.",
+    },
+    fixable: 'code',
+    hasSuggestions: true,
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context: TSESLint.RuleContext<MessageIds, Options>) {
+    const sourceCode = context.getSourceCode();
+    const text = sourceCode.getText();
+
+    function replaceValue(node: StringStatement, directive: Directive) {
+      const quote = sourceCode.getText(node.expression)[0];
+      return (fixer: RuleFixer) =>
+        fixer.replaceText(node.expression, `${quote}${directive}${quote}`);
+    }
+
+    function moveToTop(node: StringStatement, directive: Directive) {
+      const first = sourceCode.ast.body[0];
+      const quote = sourceCode.getText(node.expression)[0];
+      return (fixer: RuleFixer) => [
+        fixer.removeRange(statementLineRange(text, node)),
+        // The file may already start with the directive
+        ...(isDirectiveStatement(first, directive)
+          ? []
+          : [fixer.insertTextBefore(first, `${quote}${directive}${quote};\n`)]),
+      ];
+    }
+
+    function remove(nodes: StringStatement[]) {
+      return (fixer: RuleFixer) =>
+        nodes.map((node) => fixer.removeRange(statementLineRange(text, node)));
+    }
+
+    function checkTypos(statements: StringStatement[]): void {
+      for (const node of statements) {
+        const directive = intendedDirective(node.expression.value);
+        if (directive) {
+          context.report({
+            node,
+            messageId: 'directiveTypo',
+            data: { text: node.expression.value, directive },
+            fix: replaceValue(node, directive),
+          });
+        }
+      }
+    }
+
+    return {
+      Program(program: TSESTree.Program) {
+        // Top-level strings anywhere, since a directive below the imports is a common mistake
+        const statements = program.body.filter(isStringStatement);
+        checkTypos(statements);
+
+        const useClient = statements.filter((node) => isDirectiveStatement(node, 'use client'));
+        const useServer = statements.filter((node) => isDirectiveStatement(node, 'use server'));
+
+        if (useClient.length > 0 && useServer.length > 0) {
+          const [later] = [useClient[0], useServer[0]].sort((a, b) => b.range[0] - a.range[0]);
+          context.report({
+            node: later,
+            messageId: 'conflictingDirectives',
+            suggest: directives.map((directive) => ({
+              messageId: 'keepDirective' as const,
+              data: { directive },
+              fix: remove(directive === 'use client' ? useServer : useClient),
+            })),
+          });
+          return;
+        }
+
+        for (const [directive, nodes] of [
+          ['use client', useClient],
+          ['use server', useServer],
+        ] as const) {
+          for (const node of nodes.slice(1)) {
+            context.report({
+              node,
+              messageId: 'duplicateDirective',
+              data: { directive },
+              fix: remove([node]),
+            });
+          }
+        }
+        // Module-level 'use server' is checked here; server-action-directive-placement checks
+        // function bodies
+        for (const [directive, nodes, messageId] of [
+          ['use client', useClient, 'misplacedUseClient'],
+          ['use server', useServer, 'misplacedUseServer'],
+        ] as const) {
+          if (nodes.length > 0 && program.body[0] !== nodes[0]) {
+            context.report({ node: nodes[0], messageId, fix: moveToTop(nodes[0], directive) });
+          }
+        }
+      },
+      BlockStatement(node: TSESTree.BlockStatement) {
+        if (!isFunctionNode(node.parent)) {
+          return;
+        }
+        const statements = prologue(node.body);
+        checkTypos(statements);
+        for (const statement of statements) {
+          if (isDirectiveStatement(statement, 'use client')) {
+            context.report({
+              node: statement,
+              messageId: 'useClientInFunction',
+              suggest: [{ messageId: 'moveUseClient', fix: moveToTop(statement, 'use client') }],
+            });
+          }
+        }
+      },
+    };
+  },
+});
+
+export default rule;
@@ -1,19 +1,170 @@
-import { ESLintUtils, TSESLint } from '@typescript-eslint/utils';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TSESLint } from '@typescript-eslint/utils';
 import type { TSESTree } from '@typescript-eslint/types';
+import {
+  analyzeImportGraph,
+  checkNextFile,
+  classifyNextFile,
+  createConfigResolver,
+  createDetectionContext,
+  createModuleResolver,
+  createScopeContext,
+  findIslands,
+  findServerModules,
+  frameworks,
+  hasDirective,
+  isServerOnly,
+  readModuleImports,
+} from 'rsc-guardian-core';
+import type {
+  ClientFeature,
+  FeatureCategory,
+  Framework,
+  IslandExtraction,
+  NextFile,
+  NextProblemKind,
+} from 'rsc-guardian-core';
+import { clearReportSeverities, setReportSeverity } from '../severity';
+import type { ReportSeverity } from '../severity';
+import { addUseClient, createRule } from '../utils';
 
-type MessageIds = 'clientFeatureInServer';
+type MessageIds =
+  | 'hookInServer'
+  | 'browserGlobalInServer'
+  | 'eventHandlerInServer'
+  | 'classComponentInServer'
+  | 'createContextInServer'
+  | 'reactDomApiInServer'
+  | 'clientImportInServer'
+  | 'clientFeaturesInServer'
+  | 'splitClientFeatures'
+  | 'addUseClient'
+  | 'transitiveClientFeature'
+  | 'nextRouteClientFeatures'
+  | 'nextClientConvention'
+  | 'nextRouteUseClient'
+  | 'nextClientMetadata';
 type Options = readonly [
   {
     autoFix?: boolean;
     suggestSplit?: boolean;
-  }
+    followImports?: boolean;
+    tsconfig?: string;
+    framework?: Framework;
+    categories?: Partial<Record<FeatureCategory, CategorySetting>>;
+    reportMode?: ReportMode;
+  },
 ];
 
+type CategorySetting = 'off' | ReportSeverity;
+type ReportMode = 'per-feature' | 'per-file';
+
+type ImportNode =
+  TSESTree.ImportDeclaration | TSESTree.ExportNamedDeclaration | TSESTree.ExportAllDeclaration;
+
 type RuleFixer = TSESLint.RuleFixer;
 
-const rule = ESLintUtils.RuleCreator(
-  (name: string) => `https://github.com/devchospre001/react-rsc-sentinel/blob/main/packages/eslint-plugin-rsc-guardian/docs/rules/${name}.md`
-)({
+// Each category's message explains why the construct needs the client
+const categoryMessages: Record<FeatureCategory, MessageIds> = {
+  hook: 'hookInServer',
+  'browser-global': 'browserGlobalInServer',
+  'event-handler': 'eventHandlerInServer',
+  'class-component': 'classComponentInServer',
+  'create-context': 'createContextInServer',
+  'react-dom-api': 'reactDomApiInServer',
+  'client-import': 'clientImportInServer',
+};
+
+// What to do about each category, unless the file is a route handler
+const categoryAdvice: Record<FeatureCategory, string> = {
+  hook: "Add 'use client' or move the stateful part into a client component.",
+  'browser-global': "Add 'use client' or read it in a client component, e.g. inside useEffect.",
+  'event-handler': "Add 'use client' or move the interactive element into a client component.",
+  'class-component': "Add 'use client' or rewrite it as a function component.",
+  'create-context': "Move the context and its provider into a 'use client' module.",
+  'react-dom-api': "Add 'use client' or move this code into a client component.",
+  'client-import': "Add 'use client' or import it from a client component.",
+};
+
+// Names of the categories in per-file reports, in report order
+const categoryLabels: Record<FeatureCategory, string> = {
+  hook: 'hooks',
+  'browser-global': 'browser globals',
+  'event-handler': 'event handlers',
+  'class-component': 'class components',
+  'create-context': 'contexts',
+  'react-dom-api': 'react-dom APIs',
+  'client-import': 'client-only imports',
+};
+
+/** `hooks: useState, useEffect; event handlers: onClick (30)` */
+function describeFeatures(features: ClientFeature[]): string {
+  const groups = new Map<FeatureCategory, Map<string, number>>();
+  for (const feature of features) {
+    const counts = groups.get(feature.category) ?? new Map<string, number>();
+    counts.set(feature.name, (counts.get(feature.name) ?? 0) + 1);
+    groups.set(feature.category, counts);
+  }
+  return (Object.keys(categoryLabels) as FeatureCategory[])
+    .filter((category) => groups.has(category))
+    .map((category) => {
+      const names = Array.from(groups.get(category) ?? [], ([name, count]) =>
+        count > 1 ? `${name} (${count})` : name
+      );
+      return `${categoryLabels[category]}: ${names.join(', ')}`;
+    })
+    .join('; ');
+}
+
+const nextProblemMessages: Record<NextProblemKind, MessageIds> = {
+  'client-convention': 'nextClientConvention',
+  'route-use-client': 'nextRouteUseClient',
+  'client-metadata': 'nextClientMetadata',
+};
+
+// Directives and imports of the modules of Next.js projects, shared by every file linted in the
+// same process. A module is parsed again only once its modification time changes.
+const moduleImportsCache = new Map<
+  string,
+  { mtimeMs: number; hasUseClient: boolean; imports: string[] }
+>();
+
+function readModule(file: string): { hasUseClient: boolean; imports: string[] } {
+  let mtimeMs: number;
+  try {
+    ({ mtimeMs } = fs.statSync(file));
+  } catch {
+    return readModuleImports(file);
+  }
+  let cached = moduleImportsCache.get(file);
+  if (cached?.mtimeMs !== mtimeMs) {
+    cached = { mtimeMs, ...readModuleImports(file) };
+    moduleImportsCache.set(file, cached);
+  }
+  return cached;
+}
+
+// Server modules of a Next.js project, shared by every file linted in the same run. The short
+// lifetime lets editor sessions pick up new imports; walking the graph again only re-reads the
+// modules that changed.
+const serverModulesLifetime = 5000;
+const serverModulesCache = new Map<string, { modules: Set<string>; expires: number }>();
+
+function isServerModule(file: NextFile, filename: string, tsconfig?: string): boolean {
+  const key = `${file.root}|${tsconfig ?? ''}`;
+  let cached = serverModulesCache.get(key);
+  if (!cached || cached.expires < Date.now()) {
+    cached = {
+      modules: findServerModules(file.root, { tsconfig, readModule }),
+      expires: Date.now() + serverModulesLifetime,
+    };
+    serverModulesCache.set(key, cached);
+  }
+  return cached.modules.has(path.resolve(filename));
+}
+
+const rule = createRule({
   name: 'no-client-in-server',
   meta: {
     type: 'problem',
@@ -22,10 +173,37 @@ const rule = ESLintUtils.RuleCreator(
       recommended: 'recommended',
     },
     messages: {
-      clientFeatureInServer:
-        "Client-only feature '{{name}}' used in a server component. Add 'use client' or split into a client component.",
+      hookInServer:
+        "React hook '{{name}}' used in {{where}}. Server components render once and keep no state or effects. {{advice}}",
+      browserGlobalInServer:
+        "Browser global '{{name}}' used in {{where}}, which runs where there is no browser. {{advice}}",
+      eventHandlerInServer:
+        "Event handler '{{name}}' in {{where}}. Functions can't be sent to the browser from the server. {{advice}}",
+      classComponentInServer:
+        "Class component '{{name}}' in {{where}}. Server components are plain functions; state and lifecycle methods only exist on the client. {{advice}}",
+      createContextInServer:
+        "'createContext' called in {{where}}. Context can only be provided and read by client components. {{advice}}",
+      reactDomApiInServer:
+        "'{{name}}' from react-dom used in {{where}}. It works on the browser DOM, which doesn't exist during server rendering. {{advice}}",
+      clientImportInServer: '{{reason}} {{advice}}',
+      clientFeaturesInServer:
+        "Client-only features used in a server component ({{features}}). Add 'use client' or split into a client component.",
+      splitClientFeatures:
+        "Client-only features used in a server component ({{features}}). Add 'use client', or run `{{command}}` to move {{target}} into a client component.",
+      addUseClient: "Add 'use client' at the top of the file.",
+      transitiveClientFeature:
+        "Imported module '{{source}}' reaches client-only code in '{{file}}' ({{names}}) without a 'use client' boundary. Import chain: {{chain}}.",
+      nextRouteClientFeatures:
+        'Client-only features used in a route handler ({{features}}). Route handlers run only on the server.',
+      nextClientConvention:
+        "Next.js renders {{convention}} files on the client. Add 'use client' at the top of the file.",
+      nextRouteUseClient:
+        "Route handlers run only on the server. Remove 'use client' from this file.",
+      nextClientMetadata:
+        "'{{name}}' is only supported in server components. Remove 'use client' from this {{convention}} or move the client code into its own component.",
     },
     fixable: 'code',
+    hasSuggestions: true,
     schema: [
       {
         type: 'object',
@@ -38,6 +216,32 @@ const rule = ESLintUtils.RuleCreator(
             type: 'boolean',
             default: false,
           },
+          followImports: {
+            type: 'boolean',
+            default: false,
+          },
+          tsconfig: {
+            type: 'string',
+          },
+          framework: {
+            type: 'string',
+            enum: [...frameworks],
+          },
+          categories: {
+            type: 'object',
+            properties: Object.fromEntries(
+              Object.keys(categoryLabels).map((category) => [
+                category,
+                { type: 'string', enum: ['off', 'warn', 'error'] },
+              ])
+            ),
+            additionalProperties: false,
+          },
+          reportMode: {
+            type: 'string',
+            enum: ['per-feature', 'per-file'],
+            default: 'per-feature',
+          },
         },
         additionalProperties: false,
       },
@@ -47,138 +251,239 @@ const rule = ESLintUtils.RuleCreator(
     {
       autoFix: false,
       suggestSplit: false,
+      followImports: false,
+      reportMode: 'per-feature',
     },
   ],
   /* Context type is inferred from RuleCreator */
   create(context: TSESLint.RuleContext<MessageIds, Options>, [options]: Options) {
     const sourceCode = context.getSourceCode();
     const filename = context.getFilename();
-    
+    clearReportSeverities();
+
     // regex to only check {.tsx, .jsx, .ts, .js} files
     if (!/\.(tsx?|jsx?)$/.test(filename)) {
       return {};
     }
 
-    let hasUseClient = false;
-    const clientFeatures: Array<{ node: TSESTree.Node; name: string; type: 'hook' | 'browser-global' | 'event-handler' }> = [];
-
-    // some browser globals to detect automatically
-    const browserGlobals = new Set([
-      'window',
-      'document',
-      'localStorage',
-      'sessionStorage',
-      'navigator',
-      'location',
-      'history',
-      'alert',
-      'confirm',
-      'prompt',
-    ]);
-
-    // checking for 'use client' directive at the top of the file
-    const firstStatement = sourceCode.ast.body[0];
-    if (
-      firstStatement &&
-      firstStatement.type === 'ExpressionStatement' &&
-      firstStatement.expression.type === 'Literal' &&
-      firstStatement.expression.value === 'use client'
-    ) {
-      hasUseClient = true;
-    }
+    const nextFile = options.framework === 'next-app' ? classifyNextFile(filename) : null;
 
-    // If 'use client' is present -> allow everything
-    if (hasUseClient) {
+    // Pages Router files are not React Server Components
+    if (nextFile?.router === 'pages') {
       return {};
     }
 
-    function checkIdentifier(node: TSESTree.Identifier): void {
-      if (browserGlobals.has(node.name)) {
-        clientFeatures.push({
-          node,
-          name: node.name,
-          type: 'browser-global',
+    if (nextFile?.convention) {
+      const problems = checkNextFile(sourceCode.ast, nextFile);
+      for (const problem of problems) {
+        context.report({
+          node: problem.node,
+          messageId: nextProblemMessages[problem.kind],
+          data: { name: problem.name, convention: nextFile.convention },
+          fix:
+            options.autoFix && problem.kind === 'client-convention'
+              ? (fixer: RuleFixer) => addUseClient(sourceCode, fixer)
+              : undefined,
+          suggest:
+            problem.kind === 'client-convention'
+              ? [{ messageId: 'addUseClient', fix: (fixer) => addUseClient(sourceCode, fixer) }]
+              : undefined,
         });
       }
+      if (problems.length > 0) {
+        return {};
+      }
     }
 
-    function checkHookCall(node: TSESTree.CallExpression): void {
-      const callee = node.callee;
-      
-      // Check for hook calls: useState(), useEffect(), etc.??
-      if (callee.type === 'Identifier') {
-        const name = callee.name;
-        if (name.startsWith('use') && name[3] && name[3] === name[3].toUpperCase()) {
-          clientFeatures.push({
-            node,
-            name,
-            type: 'hook',
-          });
+    // If 'use client' is present -> allow everything
+    if (hasDirective(sourceCode.ast, 'use client')) {
+      return {};
+    }
+
+    // Other modules render on the server only when a special file imports them
+    // without crossing a 'use client' boundary
+    if (nextFile && !nextFile.convention && !isServerModule(nextFile, filename, options.tsconfig)) {
+      return {};
+    }
+
+    const routeHandler = isServerOnly(nextFile?.convention ?? null);
+
+    const clientFeatures: ClientFeature[] = [];
+    const config = createConfigResolver();
+    const registry = config.registryFor(filename);
+    // Resolve identifiers through ESLint's own scope analysis so shadowed names aren't reported
+    const detectionContext = sourceCode.scopeManager
+      ? createScopeContext(sourceCode.scopeManager)
+      : createDetectionContext(sourceCode.ast);
+
+    const importNodes: ImportNode[] = [];
+
+    function reportTransitiveImports(): void {
+      const currentFile = path.resolve(filename);
+      const resolver = createModuleResolver({ tsconfig: options.tsconfig });
+      const importByFile = new Map<string, ImportNode>();
+      for (const node of importNodes) {
+        const resolved = node.source && resolver.resolve(node.source.value, currentFile);
+        if (resolved && !importByFile.has(resolved)) {
+          importByFile.set(resolved, node);
         }
       }
-      
-      // Check for member expressions: React.useState, etc.
-      if (callee.type === 'MemberExpression' && callee.property.type === 'Identifier') {
-        const propName = callee.property.name;
-        if (propName.startsWith('use') && propName[3] && propName[3] === propName[3].toUpperCase()) {
-          clientFeatures.push({
-            node,
-            name: propName,
-            type: 'hook',
-          });
-        }
+      if (importByFile.size === 0) {
+        return;
       }
-    }
 
-    function checkJSXAttribute(node: TSESTree.JSXAttribute): void {
-      if (node.name.type === 'JSXIdentifier') {
-        const name = node.name.name;
-        // Event handlers: onClick, onChange, etc.?
-        if (name.startsWith('on') && name.length > 2 && name[2] === name[2].toUpperCase()) {
-          clientFeatures.push({
-            node,
-            name,
-            type: 'event-handler',
-          });
+      const display = (file: string) => path.relative(path.dirname(currentFile), file);
+      const { violations } = analyzeImportGraph(Array.from(importByFile.keys()), {
+        resolver,
+        config,
+      });
+      for (const violation of violations) {
+        const node = importByFile.get(violation.chain[0]);
+        // Features of this file itself are reported directly
+        if (!node?.source || violation.file === currentFile) {
+          continue;
         }
+        const names = Array.from(new Set(violation.features.map((feature) => feature.name)));
+        context.report({
+          node,
+          messageId: 'transitiveClientFeature',
+          data: {
+            source: node.source.value,
+            file: display(violation.file),
+            names: names.sort().join(', '),
+            chain: [path.basename(currentFile), ...violation.chain.map(display)].join(' → '),
+          },
+        });
       }
     }
 
+    /** The `rsc-guardian split` command that moves this file's client code out. */
+    function splitSuggestion(islands: IslandExtraction | { reason: string }): {
+      command: string;
+      target: string;
+    } {
+      const file = path.relative(context.getCwd(), filename) || filename;
+      return 'reason' in islands
+        ? { command: `rsc-guardian split ${file}`, target: 'the component' }
+        : {
+            command: `rsc-guardian split ${file} --strategy islands`,
+            target: 'the interactive JSX',
+          };
+    }
+
+    const visitors: TSESLint.RuleListener = {};
+    for (const nodeType of registry.nodeTypes()) {
+      visitors[nodeType] = (node: TSESTree.Node) => {
+        clientFeatures.push(...registry.check(node, detectionContext));
+      };
+    }
+
     return {
-      Identifier(node: TSESTree.Identifier) {
-        checkIdentifier(node);
-      },
-      CallExpression(node: TSESTree.CallExpression) {
-        checkHookCall(node);
-      },
-      JSXAttribute(node: TSESTree.JSXAttribute) {
-        checkJSXAttribute(node);
+      ...visitors,
+      'ImportDeclaration, ExportNamedDeclaration, ExportAllDeclaration'(node: ImportNode) {
+        const typeOnly =
+          node.type === 'ImportDeclaration'
+            ? node.importKind === 'type'
+            : node.exportKind === 'type';
+        if (options.followImports && node.source && !typeOnly) {
+          importNodes.push(node);
+        }
       },
       Program() {
         // Report all issues at the end
         return;
       },
       'Program:exit'() {
-        for (const feature of clientFeatures) {
+        const categories = options.categories ?? {};
+        const features = clientFeatures.filter((feature) => categories[feature.category] !== 'off');
+        const islands =
+          options.suggestSplit && !routeHandler && features.length > 0
+            ? findIslands(sourceCode.ast, { registry })
+            : null;
+        const split = islands && splitSuggestion(islands);
+
+        function report(
+          feature: ClientFeature,
+          messageId: MessageIds,
+          data: Record<string, unknown>,
+          severity: ReportSeverity | undefined,
+          first: boolean
+        ): void {
+          if (severity) {
+            setReportSeverity(filename, feature.node.loc.start, messageId, severity);
+          }
           context.report({
             node: feature.node,
-            messageId: 'clientFeatureInServer',
-            data: {
-              name: feature.name,
-            },
-            fix: options.autoFix
-              ? // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                (fixer: RuleFixer) => {
-                  // Insert 'use client' at the top
-                  return fixer.insertTextBefore(sourceCode.ast.body[0], "'use client';\n");
-                }
-              : undefined,
+            messageId,
+            data,
+            // Adding 'use client' would not make a route handler valid. Only the first
+            // report carries the fix: ESLint would apply identical inserts once each.
+            fix:
+              options.autoFix && !routeHandler && first
+                ? (fixer: RuleFixer) => addUseClient(sourceCode, fixer)
+                : undefined,
+            suggest: routeHandler
+              ? undefined
+              : [{ messageId: 'addUseClient', fix: (fixer) => addUseClient(sourceCode, fixer) }],
+          });
+        }
+
+        if (options.reportMode === 'per-file' && features.length > 0) {
+          const severities = features.map((feature) => categories[feature.category]);
+          let messageId: MessageIds = 'clientFeaturesInServer';
+          if (routeHandler) {
+            messageId = 'nextRouteClientFeatures';
+          } else if (split) {
+            messageId = 'splitClientFeatures';
+          }
+          // Unset categories keep the rule's severity, which may be higher than 'warn'
+          let severity: ReportSeverity | undefined;
+          if (severities.includes('error')) {
+            severity = 'error';
+          } else if (severities.every((setting) => setting === 'warn')) {
+            severity = 'warn';
+          }
+          report(
+            features[0],
+            messageId,
+            { features: describeFeatures(features), ...split },
+            severity,
+            true
+          );
+        } else {
+          // The category explains the problem; the file and the split command shape the advice
+          let where = 'a server component';
+          if (routeHandler) {
+            where = 'a route handler';
+          } else if (nextFile?.convention) {
+            where = `the Next.js ${nextFile.convention} file, a server component by default`;
+          }
+          features.forEach((feature, index) => {
+            let advice = categoryAdvice[feature.category];
+            if (routeHandler) {
+              advice =
+                'Route handlers run only on the server; move this code out of the route handler.';
+            } else if (split) {
+              advice += ` Or run \`${split.command}\` to move ${split.target} into a client component.`;
+            }
+            const messageId = categoryMessages[feature.category];
+            const severity = categories[feature.category];
+            report(
+              feature,
+              messageId,
+              { name: feature.name, reason: feature.reason, where, advice },
+              severity === 'off' ? undefined : severity,
+              index === 0
+            );
           });
         }
+
+        if (options.followImports) {
+          reportTransitiveImports();
+        }
       },
     };
   },
 });
 
 export default rule;
-
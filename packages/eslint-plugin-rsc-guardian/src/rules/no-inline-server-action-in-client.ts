@@ -0,0 +1,45 @@
+import type { TSESLint } from '@typescript-eslint/utils';
+import { hasDirective } from 'rsc-guardian-core';
+import { createRule, getFunctionName, isServerActionFunction } from '../utils';
+import type { FunctionNode } from '../utils';
+
+type MessageIds = 'inlineServerAction';
+type Options = readonly [];
+
+const rule = createRule({
+  name: 'no-inline-server-action-in-client',
+  meta: {
+    type: 'problem',
+    docs: {
+      description: "Disallow inline 'use server' functions in 'use client' modules",
+      recommended: 'recommended',
+    },
+    messages: {
+      inlineServerAction:
+        "Server Action '{{name}}' is defined inline in a 'use client' module. Client modules can't define Server Actions; move it to a 'use server' file and import it.",
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context: TSESLint.RuleContext<MessageIds, Options>) {
+    const sourceCode = context.getSourceCode();
+
+    if (!hasDirective(sourceCode.ast, 'use client')) {
+      return {};
+    }
+
+    return {
+      'FunctionDeclaration, FunctionExpression, ArrowFunctionExpression'(node: FunctionNode) {
+        if (isServerActionFunction(node) && node.body.type === 'BlockStatement') {
+          context.report({
+            node: node.body.body[0],
+            messageId: 'inlineServerAction',
+            data: { name: getFunctionName(node) },
+          });
+        }
+      },
+    };
+  },
+});
+
+export default rule;
@@ -0,0 +1,262 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TSESLint } from '@typescript-eslint/utils';
+import type { TSESTree } from '@typescript-eslint/types';
+import {
+  createModuleResolver,
+  getImportSpecifiers,
+  hasDirective,
+  matchServerOnlyModule,
+  parseModule,
+} from 'rsc-guardian-core';
+import type { ModuleResolver } from 'rsc-guardian-core';
+import { createRule } from '../utils';
+import type { FunctionNode } from '../utils';
+
+type MessageIds =
+  'serverModuleInClient' | 'markedModuleInClient' | 'privateEnvInClient' | 'asyncClientComponent';
+type Options = readonly [
+  {
+    serverModules?: string[];
+    publicEnvPrefix?: string;
+    tsconfig?: string;
+  },
+];
+
+type ImportNode =
+  | TSESTree.ImportDeclaration
+  | TSESTree.ExportNamedDeclaration
+  | TSESTree.ExportAllDeclaration
+  | TSESTree.ImportExpression;
+
+// Inlined by every bundler, so reading it on the client is fine
+const bundlerEnv = new Set(['NODE_ENV']);
+
+// Whether a project module imports 'server-only', remembered until the file changes
+const markedModules = new Map<string, { mtimeMs: number; marked: boolean }>();
+
+function importsServerOnly(file: string): boolean {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch {
+    return false;
+  }
+  const cached = markedModules.get(file);
+  if (cached?.mtimeMs === mtimeMs) {
+    return cached.marked;
+  }
+
+  let marked = false;
+  try {
+    const program = parseModule(fs.readFileSync(file, 'utf-8'), file);
+    marked = getImportSpecifiers(program).includes('server-only');
+  } catch {
+    // Unparsable modules are reported by their own lint run
+  }
+  markedModules.set(file, { mtimeMs, marked });
+  return marked;
+}
+
+function importSource(node: ImportNode): TSESTree.StringLiteral | null {
+  if (node.type === 'ImportExpression') {
+    return node.source.type === 'Literal' && typeof node.source.value === 'string'
+      ? (node.source as TSESTree.StringLiteral)
+      : null;
+  }
+  if (node.type === 'ImportDeclaration') {
+    const typeOnly =
+      node.importKind === 'type' ||
+      (node.specifiers.length > 0 &&
+        node.specifiers.every((s) => s.type === 'ImportSpecifier' && s.importKind === 'type'));
+    return typeOnly ? null : node.source;
+  }
+  return node.exportKind === 'type' ? null : node.source;
+}
+
+/** `process.env` itself, with or without `globalThis.` in front. */
+function isProcessEnv(node: TSESTree.Node): boolean {
+  if (node.type !== 'MemberExpression' || node.computed || node.property.type !== 'Identifier') {
+    return false;
+  }
+  const { object } = node;
+  return (
+    node.property.name === 'env' &&
+    ((object.type === 'Identifier' && object.name === 'process') ||
+      (object.type === 'MemberExpression' &&
+        !object.computed &&
+        object.object.type === 'Identifier' &&
+        object.object.name === 'globalThis' &&
+        object.property.type === 'Identifier' &&
+        object.property.name === 'process'))
+  );
+}
+
+/** The name of a module-level function if it is named like a component, and the node to report. */
+function componentName(node: FunctionNode): [string, TSESTree.Node] | null {
+  const { parent } = node;
+  const id =
+    node.id ??
+    (parent?.type === 'VariableDeclarator' && parent.id.type === 'Identifier' ? parent.id : null);
+  if (id) {
+    return /^[A-Z]/.test(id.name) ? [id.name, id] : null;
+  }
+  // `export default async function () {}` in a client module can only be a component
+  return parent?.type === 'ExportDefaultDeclaration' ? ['default', node] : null;
+}
+
+const rule = createRule({
+  name: 'no-server-in-client',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Disallow server-only modules, private environment variables and async components in client components',
+      recommended: 'recommended',
+    },
+    messages: {
+      serverModuleInClient:
+        "{{reason}} It can't be imported by a 'use client' module. Use it in a server component or a Server Action and pass the result down as props.",
+      markedModuleInClient:
+        "'{{source}}' imports 'server-only', so it can't be imported by a 'use client' module. Use it in a server component or a Server Action and pass the result down as props.",
+      privateEnvInClient:
+        "'{{name}}' is not a public environment variable: in a client component it is either undefined or leaks into the browser bundle. Read it on the server and pass the value down, or prefix it with '{{prefix}}' if it is meant to be public.",
+      asyncClientComponent:
+        "Client component '{{name}}' is async, but only server components can be async functions. Load the data in a server component and pass it as props, or load it in an effect.",
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          serverModules: {
+            type: 'array',
+            items: { type: 'string' },
+          },
+          publicEnvPrefix: {
+            type: 'string',
+            default: 'NEXT_PUBLIC_',
+          },
+          tsconfig: {
+            type: 'string',
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  defaultOptions: [
+    {
+      serverModules: [],
+      publicEnvPrefix: 'NEXT_PUBLIC_',
+    },
+  ],
+  create(context: TSESLint.RuleContext<MessageIds, Options>, [options]: Options) {
+    const sourceCode = context.getSourceCode();
+    const filename = context.getFilename();
+
+    if (!/\.(tsx?|jsx?)$/.test(filename) || !hasDirective(sourceCode.ast, 'use client')) {
+      return {};
+    }
+
+    const prefix = options.publicEnvPrefix ?? 'NEXT_PUBLIC_';
+    let resolver: ModuleResolver | null = null;
+
+    function checkImport(node: ImportNode): void {
+      const source = importSource(node);
+      if (!source) {
+        return;
+      }
+      const serverModule = matchServerOnlyModule(source.value, options.serverModules);
+      if (serverModule) {
+        context.report({
+          node: source,
+          messageId: 'serverModuleInClient',
+          data: { reason: serverModule.reason },
+        });
+        return;
+      }
+
+      resolver ??= createModuleResolver({ tsconfig: options.tsconfig });
+      const resolved = resolver.resolve(source.value, path.resolve(filename));
+      if (resolved && importsServerOnly(resolved)) {
+        context.report({
+          node: source,
+          messageId: 'markedModuleInClient',
+          data: { source: source.value },
+        });
+      }
+    }
+
+    function checkEnvName(node: TSESTree.Node, name: string): void {
+      if (!name.startsWith(prefix) && !bundlerEnv.has(name)) {
+        context.report({
+          node,
+          messageId: 'privateEnvInClient',
+          data: { name: `process.env.${name}`, prefix },
+        });
+      }
+    }
+
+    function checkFunction(node: FunctionNode): void {
+      if (!node.async) {
+        return;
+      }
+      // Only module-level functions, exported or not, are taken for components
+      let statement: TSESTree.Node | undefined =
+        node.parent?.type === 'VariableDeclarator' ? node.parent.parent : node;
+      if (
+        statement?.parent?.type === 'ExportNamedDeclaration' ||
+        statement?.parent?.type === 'ExportDefaultDeclaration'
+      ) {
+        statement = statement.parent;
+      }
+      const moduleLevel = statement?.parent?.type === 'Program';
+      const component = moduleLevel ? componentName(node) : null;
+      if (component) {
+        context.report({
+          node: component[1],
+          messageId: 'asyncClientComponent',
+          data: { name: component[0] },
+        });
+      }
+    }
+
+    return {
+      'ImportDeclaration, ExportNamedDeclaration, ExportAllDeclaration, ImportExpression'(
+        node: ImportNode
+      ) {
+        if (node.type === 'ImportExpression' || node.source) {
+          checkImport(node);
+        }
+      },
+      MemberExpression(node: TSESTree.MemberExpression) {
+        if (!isProcessEnv(node.object)) {
+          return;
+        }
+        if (!node.computed && node.property.type === 'Identifier') {
+          checkEnvName(node.property, node.property.name);
+        } else if (node.property.type === 'Literal' && typeof node.property.value === 'string') {
+          checkEnvName(node.property, node.property.value);
+        }
+      },
+      // const { DATABASE_URL } = process.env
+      VariableDeclarator(node: TSESTree.VariableDeclarator) {
+        if (node.id.type !== 'ObjectPattern' || !node.init || !isProcessEnv(node.init)) {
+          return;
+        }
+        for (const property of node.id.properties) {
+          if (
+            property.type === 'Property' &&
+            property.key.type === 'Identifier' &&
+            !property.computed
+          ) {
+            checkEnvName(property.key, property.key.name);
+          }
+        }
+      },
+      'FunctionDeclaration, FunctionExpression, ArrowFunctionExpression': checkFunction,
+    };
+  },
+});
+
+export default rule;
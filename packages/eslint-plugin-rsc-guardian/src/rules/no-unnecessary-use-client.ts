@@ -0,0 +1,161 @@
+import * as path from 'path';
+import { TSESLint } from '@typescript-eslint/utils';
+import type { TSESTree } from '@typescript-eslint/types';
+import {
+  classifyNextFile,
+  createConfigResolver,
+  createDetectionContext,
+  createModuleResolver,
+  createScopeContext,
+  frameworks,
+  isDirectiveStatement,
+  requiresUseClient,
+  serverSafeImports,
+} from 'rsc-guardian-core';
+import type { Framework } from 'rsc-guardian-core';
+import {
+  createRule,
+  describeValue,
+  describeVariable,
+  findVariable,
+  statementLineRange,
+} from '../utils';
+
+type MessageIds = 'unnecessaryUseClient' | 'removeUseClient';
+type Options = readonly [
+  {
+    framework?: Framework;
+  },
+];
+
+type RuleFixer = TSESLint.RuleFixer;
+type ModuleDeclaration =
+  TSESTree.ImportDeclaration | TSESTree.ExportAllDeclaration | TSESTree.ExportNamedDeclaration;
+
+/** A comment that keeps the directive, e.g. `// rsc-guardian-keep-client: rendered by <Table>`. */
+const keepClientComment = /^\s*rsc-guardian-keep-client\b/;
+
+const rule = createRule({
+  name: 'no-unnecessary-use-client',
+  meta: {
+    type: 'suggestion',
+    docs: {
+      description: "Disallow 'use client' in files that use no client-only features",
+    },
+    messages: {
+      unnecessaryUseClient:
+        "This file uses no client-only features, so 'use client' only adds its code to the client bundle. Remove it to render the file on the server, or add a `// rsc-guardian-keep-client` comment if it must stay a client module.",
+      removeUseClient: "Remove 'use client'",
+    },
+    hasSuggestions: true,
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          framework: {
+            type: 'string',
+            enum: [...frameworks],
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  defaultOptions: [{}],
+  create(context: TSESLint.RuleContext<MessageIds, Options>, [options]: Options) {
+    const sourceCode = context.getSourceCode();
+    const filename = context.getFilename();
+
+    const [directive] = sourceCode.ast.body;
+    if (!isDirectiveStatement(directive, 'use client') || !/\.(tsx?|jsx?)$/.test(filename)) {
+      return {};
+    }
+    if (sourceCode.getAllComments().some((comment) => keepClientComment.test(comment.value))) {
+      return {};
+    }
+    // Next.js renders error files on the client, with or without client-only code
+    const nextFile = options.framework === 'next-app' ? classifyNextFile(filename) : null;
+    if (requiresUseClient(nextFile?.convention ?? null)) {
+      return {};
+    }
+
+    const registry = createConfigResolver().registryFor(filename);
+    const detectionContext = sourceCode.scopeManager
+      ? createScopeContext(sourceCode.scopeManager)
+      : createDetectionContext(sourceCode.ast);
+    const resolver = createModuleResolver();
+    let needsClient = false;
+
+    /** Package components often lack 'use client' and rely on the importing file's. */
+    function isPackage(source: string): boolean {
+      // tsconfig aliases resolve to the project's own modules, packages don't
+      return (
+        !source.startsWith('.') &&
+        !serverSafeImports.has(source) &&
+        resolver.resolve(source, path.resolve(filename)) === null
+      );
+    }
+
+    function importsValues(node: ModuleDeclaration): boolean {
+      if (node.type !== 'ImportDeclaration') {
+        return node.exportKind !== 'type';
+      }
+      return (
+        node.importKind !== 'type' &&
+        node.specifiers.some(
+          (specifier) => specifier.type !== 'ImportSpecifier' || specifier.importKind !== 'type'
+        )
+      );
+    }
+
+    /** Functions and class instances can only be passed on from a client module. */
+    function passesUnserializable(node: TSESTree.Node): boolean {
+      if (node.type === 'Identifier') {
+        const variable = findVariable(sourceCode, node);
+        return variable !== null && describeVariable(variable) !== null;
+      }
+      return describeValue(node) !== null;
+    }
+
+    const visitors: TSESLint.RuleListener = {};
+    for (const nodeType of registry.nodeTypes()) {
+      visitors[nodeType] = (node: TSESTree.Node) => {
+        needsClient ||= registry.check(node, detectionContext).length > 0;
+      };
+    }
+
+    return {
+      ...visitors,
+      // `import Carousel from 'react-slick'` or `export * from 'react-slick'` marks a
+      // third-party component as client
+      'ImportDeclaration, ExportAllDeclaration, ExportNamedDeclaration'(node: ModuleDeclaration) {
+        if (node.source && importsValues(node) && isPackage(node.source.value)) {
+          needsClient = true;
+        }
+      },
+      JSXExpressionContainer(node: TSESTree.JSXExpressionContainer) {
+        needsClient ||=
+          node.expression.type !== 'JSXEmptyExpression' && passesUnserializable(node.expression);
+      },
+      'Program:exit'() {
+        if (needsClient) {
+          return;
+        }
+        context.report({
+          node: directive,
+          messageId: 'unnecessaryUseClient',
+          // Code outside this file may rely on the directive, so it's never removed on --fix
+          suggest: [
+            {
+              messageId: 'removeUseClient',
+              fix: (fixer: RuleFixer) =>
+                fixer.removeRange(statementLineRange(sourceCode.getText(), directive)),
+            },
+          ],
+        });
+      },
+    };
+  },
+});
+
+export default rule;
@@ -0,0 +1,241 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { ESLintUtils, TSESLint } from '@typescript-eslint/utils';
+import type { TSESTree } from '@typescript-eslint/types';
+import { createBoundaryResolver, hasDirective } from 'rsc-guardian-core';
+import type { BoundaryResolver } from 'rsc-guardian-core';
+import {
+  createRule,
+  describeValue,
+  describeVariable,
+  findVariable,
+  isFunctionNode,
+  isServerActionFunction,
+  serializableConstructors,
+} from '../utils';
+
+type MessageIds = 'nonSerializableProp';
+type Options = readonly [
+  {
+    tsconfig?: string;
+  },
+];
+
+interface ImportBinding {
+  source: string;
+  /** Imported name: `default`, a named export, or `*` for namespace imports. */
+  imported: string;
+}
+
+// Module summaries are cached per file until it changes, so resolvers live across lint runs
+const boundaryResolvers = new Map<string, BoundaryResolver>();
+
+function getBoundaryResolver(tsconfig?: string): BoundaryResolver {
+  const key = tsconfig ?? '';
+  let resolver = boundaryResolvers.get(key);
+  if (!resolver) {
+    resolver = createBoundaryResolver({ tsconfig });
+    boundaryResolvers.set(key, resolver);
+  }
+  return resolver;
+}
+
+/** Why a value of this type can't cross to the client, if the type says so. */
+function describeType(type: ts.Type): string | null {
+  for (const member of type.isUnion() ? type.types : [type]) {
+    if (member.flags & ts.TypeFlags.ESSymbolLike) {
+      return 'a symbol';
+    }
+    if (member.getCallSignatures().length > 0) {
+      return 'a function';
+    }
+    if (member.getConstructSignatures().length > 0) {
+      return 'a class';
+    }
+    const symbol = member.getSymbol();
+    if (
+      symbol &&
+      symbol.flags & ts.SymbolFlags.Class &&
+      !serializableConstructors.has(symbol.getName())
+    ) {
+      return 'a class instance';
+    }
+  }
+  return null;
+}
+
+const rule = createRule({
+  name: 'serializable-client-props',
+  meta: {
+    type: 'problem',
+    docs: {
+      description: 'Disallow non-serializable props from server components to client components',
+      recommended: 'recommended',
+    },
+    messages: {
+      nonSerializableProp:
+        "Prop '{{prop}}' passed to client component '{{component}}' is {{reason}}. Props passed from a server component to a client component must be serializable; Server Actions are the only functions allowed.",
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          tsconfig: {
+            type: 'string',
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  defaultOptions: [{}],
+  create(context: TSESLint.RuleContext<MessageIds, Options>, [options]: Options) {
+    const sourceCode = context.getSourceCode();
+    const filename = context.getFilename();
+
+    // Only server components render client components across the boundary
+    if (hasDirective(sourceCode.ast, 'use client') || hasDirective(sourceCode.ast, 'use server')) {
+      return {};
+    }
+
+    const currentFile = path.resolve(filename);
+    const boundaries = getBoundaryResolver(options.tsconfig);
+    const services = ESLintUtils.getParserServices(context, true);
+    const checker = services.program?.getTypeChecker();
+
+    const imports = new Map<string, ImportBinding>();
+    for (const statement of sourceCode.ast.body) {
+      if (statement.type !== 'ImportDeclaration' || statement.importKind === 'type') {
+        continue;
+      }
+      for (const specifier of statement.specifiers) {
+        imports.set(specifier.local.name, {
+          source: statement.source.value,
+          imported:
+            specifier.type === 'ImportSpecifier'
+              ? specifier.imported.name
+              : specifier.type === 'ImportDefaultSpecifier'
+                ? 'default'
+                : '*',
+        });
+      }
+    }
+
+    function isClientImport(local: string, member?: string): boolean {
+      const binding = imports.get(local);
+      if (!binding) {
+        return false;
+      }
+      // `<UI.Button />` from `import * as UI` refers to the module's `Button` export
+      const importedName = binding.imported === '*' && member ? member : binding.imported;
+      return (
+        boundaries.resolve(binding.source, importedName, currentFile)?.directive === 'use client'
+      );
+    }
+
+    function getClientComponentName(name: TSESTree.JSXTagNameExpression): string | null {
+      if (name.type === 'JSXIdentifier') {
+        return /^[A-Z]/.test(name.name) && isClientImport(name.name) ? name.name : null;
+      }
+      if (name.type === 'JSXMemberExpression' && name.object.type === 'JSXIdentifier') {
+        return isClientImport(name.object.name, name.property.name)
+          ? `${name.object.name}.${name.property.name}`
+          : null;
+      }
+      return null;
+    }
+
+    function isServerActionReference(node: TSESTree.Node): boolean {
+      if (isFunctionNode(node)) {
+        return isServerActionFunction(node);
+      }
+      // `save.bind(null, id)` is still a Server Action
+      if (
+        node.type === 'CallExpression' &&
+        node.callee.type === 'MemberExpression' &&
+        node.callee.property.type === 'Identifier' &&
+        node.callee.property.name === 'bind'
+      ) {
+        return isServerActionReference(node.callee.object);
+      }
+      if (node.type !== 'Identifier') {
+        return false;
+      }
+
+      const definition = findVariable(sourceCode, node)?.defs[0];
+      if (definition?.type === 'FunctionName') {
+        return isFunctionNode(definition.node) && isServerActionFunction(definition.node);
+      }
+      if (definition?.type === 'Variable' && definition.node.init) {
+        return isServerActionReference(definition.node.init);
+      }
+      if (definition?.type === 'ImportBinding') {
+        const binding = imports.get(node.name);
+        return (
+          !!binding &&
+          boundaries.resolve(binding.source, binding.imported, currentFile)?.directive ===
+            'use server'
+        );
+      }
+      return false;
+    }
+
+    function describeProp(value: TSESTree.Expression): string | null {
+      if (isServerActionReference(value)) {
+        return null;
+      }
+
+      let reason = describeValue(value);
+      if (!reason && value.type === 'Identifier') {
+        const variable = findVariable(sourceCode, value);
+        reason = variable ? describeVariable(variable) : null;
+      }
+      if (!reason && checker) {
+        reason = describeType(checker.getTypeAtLocation(services.esTreeNodeToTSNodeMap.get(value)));
+      }
+      return reason;
+    }
+
+    function check(value: TSESTree.Node, prop: string, component: string): void {
+      if (
+        value.type !== 'JSXExpressionContainer' ||
+        value.expression.type === 'JSXEmptyExpression'
+      ) {
+        return;
+      }
+      const reason = describeProp(value.expression);
+      if (reason) {
+        context.report({
+          node: value.expression,
+          messageId: 'nonSerializableProp',
+          data: { prop, component, reason },
+        });
+      }
+    }
+
+    return {
+      JSXElement(node: TSESTree.JSXElement) {
+        const component = getClientComponentName(node.openingElement.name);
+        if (!component) {
+          return;
+        }
+
+        for (const attribute of node.openingElement.attributes) {
+          if (
+            attribute.type === 'JSXAttribute' &&
+            attribute.value &&
+            attribute.name.name !== 'key'
+          ) {
+            check(attribute.value, String(attribute.name.name), component);
+          }
+        }
+        // Render props passed as children, e.g. `<List>{(item) => ...}</List>`
+        for (const child of node.children) {
+          check(child, 'children', component);
+        }
+      },
+    };
+  },
+});
+
+export default rule;
@@ -0,0 +1,131 @@
+import type { TSESLint } from '@typescript-eslint/utils';
+import type { TSESTree } from '@typescript-eslint/types';
+import { hasDirective } from 'rsc-guardian-core';
+import { createRule, findVariable, isFunctionNode } from '../utils';
+
+type MessageIds = 'nonAsyncExport';
+type Options = readonly [];
+
+const rule = createRule({
+  name: 'server-action-async-exports',
+  meta: {
+    type: 'problem',
+    docs: {
+      description: "Require every export of a 'use server' file to be an async function",
+      recommended: 'recommended',
+    },
+    messages: {
+      nonAsyncExport:
+        "'{{name}}' is exported from a 'use server' file but is not an async function. Every export of a 'use server' file becomes a Server Action, so only async functions can be exported.",
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context: TSESLint.RuleContext<MessageIds, Options>) {
+    const sourceCode = context.getSourceCode();
+
+    if (!hasDirective(sourceCode.ast, 'use server')) {
+      return {};
+    }
+
+    /**
+     * True when the exported value is certainly not an async function. Values
+     * that can't be known statically (calls, imports, member access) pass.
+     */
+    function isNonAsyncValue(node: TSESTree.Node, seen = new Set<TSESTree.Node>()): boolean {
+      if (seen.has(node)) {
+        return false;
+      }
+      seen.add(node);
+
+      if (isFunctionNode(node)) {
+        return !node.async;
+      }
+
+      switch (node.type) {
+        case 'ClassDeclaration':
+        case 'ClassExpression':
+        case 'Literal':
+        case 'TemplateLiteral':
+        case 'ObjectExpression':
+        case 'ArrayExpression':
+        case 'NewExpression':
+          return true;
+        case 'TSAsExpression':
+        case 'TSSatisfiesExpression':
+        case 'TSNonNullExpression':
+          return isNonAsyncValue(node.expression, seen);
+        case 'Identifier': {
+          const definition = findVariable(sourceCode, node)?.defs[0];
+          if (definition?.type === 'FunctionName' || definition?.type === 'ClassName') {
+            return isNonAsyncValue(definition.node, seen);
+          }
+          if (
+            definition?.type === 'Variable' &&
+            definition.node.id.type === 'Identifier' &&
+            definition.node.init
+          ) {
+            return isNonAsyncValue(definition.node.init, seen);
+          }
+          return false;
+        }
+        default:
+          return false;
+      }
+    }
+
+    function check(value: TSESTree.Node, name: string, reportNode: TSESTree.Node): void {
+      if (isNonAsyncValue(value)) {
+        context.report({ node: reportNode, messageId: 'nonAsyncExport', data: { name } });
+      }
+    }
+
+    return {
+      ExportNamedDeclaration(node: TSESTree.ExportNamedDeclaration) {
+        // Type exports are erased, and re-exports are checked in their own file
+        if (node.exportKind === 'type' || node.source) {
+          return;
+        }
+
+        const { declaration } = node;
+        if (!declaration) {
+          for (const specifier of node.specifiers) {
+            if (specifier.exportKind !== 'type') {
+              check(specifier.local, specifier.exported.name, specifier);
+            }
+          }
+          return;
+        }
+
+        if (declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') {
+          if (!declaration.declare) {
+            check(declaration, declaration.id?.name ?? 'default', declaration.id ?? declaration);
+          }
+        } else if (declaration.type === 'VariableDeclaration' && !declaration.declare) {
+          for (const declarator of declaration.declarations) {
+            const name = declarator.id.type === 'Identifier' ? declarator.id.name : 'binding';
+            if (!declarator.init) {
+              // `export let action;` can't be an async function at export time
+              context.report({ node: declarator, messageId: 'nonAsyncExport', data: { name } });
+            } else {
+              check(declarator.init, name, declarator.id);
+            }
+          }
+        } else if (declaration.type === 'TSEnumDeclaration' && !declaration.declare) {
+          context.report({
+            node: declaration.id,
+            messageId: 'nonAsyncExport',
+            data: { name: declaration.id.name },
+          });
+        }
+      },
+      ExportDefaultDeclaration(node: TSESTree.ExportDefaultDeclaration) {
+        if (node.declaration.type !== 'TSInterfaceDeclaration') {
+          check(node.declaration, 'default', node.declaration);
+        }
+      },
+    };
+  },
+});
+
+export default rule;
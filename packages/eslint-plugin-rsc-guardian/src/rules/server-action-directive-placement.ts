@@ -0,0 +1,83 @@
+import type { TSESLint } from '@typescript-eslint/utils';
+import type { TSESTree } from '@typescript-eslint/types';
+import { isDirectiveStatement } from 'rsc-guardian-core';
+import { createRule, isFunctionNode, statementLineRange } from '../utils';
+
+type MessageIds = 'misplacedUseServer';
+type Options = readonly [];
+
+type RuleFixer = TSESLint.RuleFixer;
+
+const rule = createRule({
+  name: 'server-action-directive-placement',
+  meta: {
+    type: 'problem',
+    docs: {
+      description: "Require 'use server' to be the first statement of a function body",
+      recommended: 'recommended',
+    },
+    messages: {
+      misplacedUseServer:
+        "'use server' only takes effect as the first statement of a function body. Here it is ignored, so no Server Action is created.",
+    },
+    fixable: 'code',
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context: TSESLint.RuleContext<MessageIds, Options>) {
+    const sourceCode = context.getSourceCode();
+    const text = sourceCode.getText();
+
+    /** The statement list the directive was meant for, if it can be moved there. */
+    function getTargetBody(node: TSESTree.ExpressionStatement): TSESTree.Node[] | null {
+      const { parent } = node;
+      if (parent?.type === 'BlockStatement' && isFunctionNode(parent.parent)) {
+        return parent.body;
+      }
+      return null;
+    }
+
+    function fix(node: TSESTree.ExpressionStatement, body: TSESTree.Node[]) {
+      const first = body[0];
+      // Moving next to a 'use client' directive would only trade one problem for another
+      if (isDirectiveStatement(first, 'use client')) {
+        return undefined;
+      }
+
+      return (fixer: RuleFixer) => {
+        const lineStart = text.lastIndexOf('\n', first.range[0] - 1) + 1;
+        const indent = text.slice(lineStart, first.range[0]);
+        const directive = `${sourceCode.getText(node.expression)};`;
+        return [
+          fixer.removeRange(statementLineRange(text, node)),
+          fixer.insertTextBefore(
+            first,
+            /^\s*$/.test(indent) ? `${directive}\n${indent}` : `${directive} `
+          ),
+        ];
+      };
+    }
+
+    return {
+      ExpressionStatement(node: TSESTree.ExpressionStatement) {
+        // Module-level directives belong to directive-placement
+        if (!isDirectiveStatement(node, 'use server') || node.parent?.type === 'Program') {
+          return;
+        }
+
+        const body = getTargetBody(node);
+        if (body?.[0] === node) {
+          return;
+        }
+
+        context.report({
+          node,
+          messageId: 'misplacedUseServer',
+          fix: body ? fix(node, body) : undefined,
+        });
+      },
+    };
+  },
+});
+
+export default rule;
@@ -0,0 +1,69 @@
+import type { TSESLint } from '@typescript-eslint/utils';
+import { hasDirective } from 'rsc-guardian-core';
+import { createRule, describeVariable, getFunctionName, isServerActionFunction } from '../utils';
+import type { FunctionNode } from '../utils';
+
+type MessageIds = 'nonSerializableClosure';
+type Options = readonly [];
+
+const rule = createRule({
+  name: 'server-action-serializable-closure',
+  meta: {
+    type: 'problem',
+    docs: {
+      description: 'Disallow inline Server Actions that close over non-serializable values',
+      recommended: 'recommended',
+    },
+    messages: {
+      nonSerializableClosure:
+        "Server Action '{{action}}' closes over '{{name}}', which is {{reason}}. Values an inline Server Action captures are sent to the client and back, so they must be serializable. Pass it differently or create it inside the action.",
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context: TSESLint.RuleContext<MessageIds, Options>) {
+    const sourceCode = context.getSourceCode();
+    const { scopeManager } = sourceCode;
+
+    // Inline actions in client modules are reported by no-inline-server-action-in-client
+    if (!scopeManager || hasDirective(sourceCode.ast, 'use client')) {
+      return {};
+    }
+
+    return {
+      'FunctionDeclaration, FunctionExpression, ArrowFunctionExpression'(node: FunctionNode) {
+        const scope = isServerActionFunction(node) ? scopeManager.acquire(node) : null;
+        if (!scope) {
+          return;
+        }
+
+        const reported = new Set<TSESLint.Scope.Variable>();
+        for (const reference of scope.through) {
+          const variable = reference.resolved;
+          // Module-level bindings are imported by the action, not captured
+          if (
+            !variable ||
+            !reference.isValueReference ||
+            reported.has(variable) ||
+            variable.scope.type === 'module' ||
+            variable.scope.type === 'global'
+          ) {
+            continue;
+          }
+
+          const reason = describeVariable(variable);
+          if (reason) {
+            reported.add(variable);
+            context.report({
+              node: reference.identifier,
+              messageId: 'nonSerializableClosure',
+              data: { action: getFunctionName(node), name: variable.name, reason },
+            });
+          }
+        }
+      },
+    };
+  },
+});
+
+export default rule;
@@ -0,0 +1,59 @@
+import * as path from 'path';
+import type { TSESLint } from '@typescript-eslint/utils';
+
+export type ReportSeverity = 'warn' | 'error';
+
+// ESLint gives every report of a rule the severity it is configured with. Rules record the
+// severity they want for a report here, by file and position, and the processor applies it.
+// ESLint lints one file at a time, so only the file being linted ever has entries.
+const pendingSeverities = new Map<string, Map<string, ReportSeverity>>();
+
+function reportKey(line: number, column: number, messageId: string | undefined): string {
+  return `${line}:${column}:${messageId ?? ''}`;
+}
+
+/**
+ * Forgets recorded severities at the start of each lint pass over a file.
+ * Without the processor nothing else removes them, so the severities of
+ * every other file go too.
+ */
+export function clearReportSeverities(): void {
+  pendingSeverities.clear();
+}
+
+/** Records the severity of a report; `loc` is the ESLint location with a 0-based column. */
+export function setReportSeverity(
+  filename: string,
+  loc: { line: number; column: number },
+  messageId: string,
+  severity: ReportSeverity
+): void {
+  const file = path.resolve(filename);
+  let severities = pendingSeverities.get(file);
+  if (!severities) {
+    severities = new Map();
+    pendingSeverities.set(file, severities);
+  }
+  severities.set(reportKey(loc.line, loc.column + 1, messageId), severity);
+}
+
+/**
+ * Processor that applies the severities recorded by the rules, e.g. the
+ * `categories` option of `no-client-in-server`. Reports without a recorded
+ * severity keep the one from the rule config.
+ */
+export const severityProcessor: TSESLint.Processor.ProcessorModule = {
+  meta: { name: 'rsc-guardian/severity' },
+  preprocess: (text) => [text],
+  postprocess(messageLists, filename) {
+    const file = path.resolve(filename);
+    const severities = pendingSeverities.get(file);
+    pendingSeverities.delete(file);
+
+    return messageLists.flat().map((message) => {
+      const severity = severities?.get(reportKey(message.line, message.column, message.messageId));
+      return severity ? { ...message, severity: severity === 'error' ? 2 : 1 } : message;
+    });
+  },
+  supportsAutofix: true,
+};
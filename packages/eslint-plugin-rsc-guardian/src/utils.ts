@@ -0,0 +1,167 @@
+import { ASTUtils, ESLintUtils, TSESLint } from '@typescript-eslint/utils';
+import type { TSESTree } from '@typescript-eslint/types';
+import { hasDirective, isDirectiveStatement } from 'rsc-guardian-core';
+
+export const createRule = ESLintUtils.RuleCreator(
+  (name: string) =>
+    `https://github.com/devchospre001/react-rsc-sentinel/blob/main/packages/eslint-plugin-rsc-guardian/docs/rules/${name}.md`
+);
+
+export type FunctionNode =
+  TSESTree.FunctionDeclaration | TSESTree.FunctionExpression | TSESTree.ArrowFunctionExpression;
+
+export function isFunctionNode(node: TSESTree.Node | null | undefined): node is FunctionNode {
+  return (
+    node?.type === 'FunctionDeclaration' ||
+    node?.type === 'FunctionExpression' ||
+    node?.type === 'ArrowFunctionExpression'
+  );
+}
+
+/** An inline Server Action: a function whose body starts with `'use server'`. */
+export function isServerActionFunction(node: FunctionNode): boolean {
+  return node.body.type === 'BlockStatement' && hasDirective(node.body, 'use server');
+}
+
+/** The name a function is known by: its own id, or the variable/property it is assigned to. */
+export function getFunctionName(node: FunctionNode): string {
+  if (node.id) {
+    return node.id.name;
+  }
+  const { parent } = node;
+  if (parent?.type === 'VariableDeclarator' && parent.id.type === 'Identifier') {
+    return parent.id.name;
+  }
+  if (parent?.type === 'Property' && parent.key.type === 'Identifier') {
+    return parent.key.name;
+  }
+  if (parent?.type === 'JSXExpressionContainer' && parent.parent?.type === 'JSXAttribute') {
+    return String(parent.parent.name.name);
+  }
+  return 'anonymous function';
+}
+
+/**
+ * The range of a statement, widened to its whole line (and line break) when
+ * nothing else is on it, so removing it leaves no blank line behind.
+ */
+export function statementLineRange(text: string, node: TSESTree.Node): TSESTree.Range {
+  let start = node.range[0];
+  while (start > 0 && (text[start - 1] === ' ' || text[start - 1] === '\t')) {
+    start--;
+  }
+  let end = node.range[1];
+  if (start === 0 || text[start - 1] === '\n') {
+    end += text.startsWith('\r\n', end) ? 2 : text[end] === '\n' ? 1 : 0;
+  } else {
+    start = node.range[0];
+  }
+  return [start, end];
+}
+
+/**
+ * Fixes that make the file a client module by putting `'use client'` first.
+ * A `'use client'` further down the directive prologue (after `'use strict'`,
+ * say) is moved up instead of duplicated, header comments stay above it and
+ * the quotes follow the existing directives.
+ */
+export function addUseClient(
+  sourceCode: Readonly<TSESLint.SourceCode>,
+  fixer: TSESLint.RuleFixer
+): TSESLint.RuleFix[] {
+  const { body } = sourceCode.ast;
+  const prologue: TSESTree.ExpressionStatement[] = [];
+  for (const statement of body) {
+    if (statement.type !== 'ExpressionStatement' || !statement.directive) {
+      break;
+    }
+    prologue.push(statement);
+  }
+
+  const quote = prologue[0] ? sourceCode.getText(prologue[0].expression)[0] : "'";
+  const existing = prologue.find((statement) => isDirectiveStatement(statement, 'use client'));
+  return [
+    ...(existing ? [fixer.removeRange(statementLineRange(sourceCode.getText(), existing))] : []),
+    fixer.insertTextBefore(body[0], `${quote}use client${quote};\n`),
+  ];
+}
+
+/**
+ * Finds the variable an identifier refers to, from the scope the identifier
+ * is in. Works with ESLint 8 and 9 alike.
+ */
+export function findVariable(
+  sourceCode: Readonly<TSESLint.SourceCode>,
+  identifier: TSESTree.Identifier
+): TSESLint.Scope.Variable | null {
+  const { globalScope } = sourceCode.scopeManager ?? {};
+  if (!globalScope) {
+    return null;
+  }
+  return ASTUtils.findVariable(ASTUtils.getInnermostScope(globalScope, identifier), identifier);
+}
+
+// Instances React can serialize, as props or as bound arguments of a Server Action
+export const serializableConstructors = new Set([
+  'Array',
+  'ArrayBuffer',
+  'BigInt64Array',
+  'BigUint64Array',
+  'DataView',
+  'Date',
+  'Float32Array',
+  'Float64Array',
+  'FormData',
+  'Int16Array',
+  'Int32Array',
+  'Int8Array',
+  'Map',
+  'Object',
+  'Promise',
+  'Set',
+  'Uint16Array',
+  'Uint32Array',
+  'Uint8Array',
+  'Uint8ClampedArray',
+]);
+
+/** Why a value can't cross to the client, or `null` if it can (or can't be told). */
+export function describeValue(node: TSESTree.Node): string | null {
+  if (isFunctionNode(node)) {
+    // Other Server Actions are passed by reference
+    return isServerActionFunction(node) ? null : 'a function';
+  }
+  switch (node.type) {
+    case 'ClassExpression':
+      return 'a class';
+    case 'NewExpression':
+      return node.callee.type === 'Identifier' && serializableConstructors.has(node.callee.name)
+        ? null
+        : 'a class instance';
+    case 'CallExpression':
+      // `Symbol.for()` symbols are registered globally and do serialize
+      return node.callee.type === 'Identifier' && node.callee.name === 'Symbol' ? 'a symbol' : null;
+    case 'TSAsExpression':
+    case 'TSSatisfiesExpression':
+    case 'TSNonNullExpression':
+      return describeValue(node.expression);
+    default:
+      return null;
+  }
+}
+
+export function describeVariable(variable: TSESLint.Scope.Variable): string | null {
+  const definition = variable.defs[0];
+  switch (definition?.type) {
+    case 'FunctionName':
+      return describeValue(definition.node);
+    case 'ClassName':
+      return 'a class';
+    case 'Variable':
+      return definition.node.id.type === 'Identifier' && definition.node.init
+        ? describeValue(definition.node.init)
+        : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,6 @@
+import { useState } from 'react';
+
+export default function Widget() {
+  const [open, setOpen] = useState(false);
+  return <button onClick={() => setOpen(!open)}>Toggle</button>;
+}
@@ -0,0 +1,5 @@
+import Widget from './Widget';
+
+export default function Page() {
+  return <Widget />;
+}
@@ -0,0 +1,7 @@
+'use client';
+
+import Toggle from './Toggle';
+
+export function Menu() {
+  return <Toggle label="Menu" />;
+}
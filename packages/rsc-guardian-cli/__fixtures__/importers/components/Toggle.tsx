@@ -0,0 +1,8 @@
+import { useState } from 'react';
+
+export type ToggleProps = { label: string };
+
+export default function Toggle({ label }: ToggleProps) {
+  const [on, setOn] = useState(false);
+  return <button onClick={() => setOn(!on)}>{on ? label : 'Off'}</button>;
+}
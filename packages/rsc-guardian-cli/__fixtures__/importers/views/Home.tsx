@@ -0,0 +1,5 @@
+import { Toggle } from '../components';
+
+export default function Home() {
+  return <Toggle label="Home" />;
+}
@@ -0,0 +1,6 @@
+import Toggle from '@/components/Toggle';
+import type { ToggleProps } from '../components/Toggle';
+
+export default function Settings(props: ToggleProps) {
+  return <Toggle {...props} />;
+}
@@ -0,0 +1,18 @@
+import { useState } from 'react';
+import { formatPrice } from './format';
+
+export default function ProductCard({ product }: { product: { name: string; price: number } }) {
+  // Quantity the user picked
+  const [quantity, setQuantity] = useState(1);
+
+  return (
+    <article>
+      <h2>{product.name}</h2>
+      <p>{formatPrice(product.price)}</p>
+      <div>
+        <button onClick={() => setQuantity(quantity + 1)}>Add one</button>
+        <span>{formatPrice(product.price * quantity)}</span>
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+// Writes a synthetic Next.js App Router project for benchmarking `analyzeFiles`:
+//   node benchmark/generate.mjs <dir> [--files 2000] [--seed 1]
+// The same arguments always produce the same tree.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    files: { type: 'string', default: '2000' },
+    seed: { type: 'string', default: '1' },
+  },
+});
+
+if (positionals.length !== 1) {
+  console.error('Usage: node benchmark/generate.mjs <dir> [--files 2000] [--seed 1]');
+  process.exit(1);
+}
+
+const root = path.resolve(positionals[0]);
+const fileCount = Number(values.files);
+const filesPerFeature = 25;
+
+// mulberry32, so trees are reproducible without a dependency
+let state = Number(values.seed) >>> 0;
+function random() {
+  state = (state + 0x6d2b79f5) >>> 0;
+  let t = state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+const pick = (items) => items[Math.floor(random() * items.length)];
+
+function markup(name, depth) {
+  const rows = Array.from(
+    { length: 4 + Math.floor(random() * 8) },
+    (_, index) =>
+      `${'  '.repeat(depth)}<li key="${index}" className="${name}-row">{format(items[${index}] ?? '${name}')}</li>`
+  );
+  return rows.join('\n');
+}
+
+const kinds = {
+  // Renders on the server and imports its siblings
+  server: (name, siblings) => `import { format } from '../../lib/format';
+${siblings.map((sibling) => `import ${sibling} from './${sibling}';`).join('\n')}
+
+type Props = { items: string[] };
+
+export default async function ${name}({ items }: Props) {
+  const total = items.length;
+  return (
+    <section>
+      <h2>${name} ({total})</h2>
+      <ul>
+${markup(name, 4)}
+      </ul>
+      ${siblings.map((sibling) => `<${sibling} items={items} />`).join('\n      ')}
+    </section>
+  );
+}
+`,
+  // A proper client component
+  client: (name) => `'use client';
+
+import { useState } from 'react';
+import { format } from '../../lib/format';
+
+export default function ${name}({ items }: { items: string[] }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div>
+      <button onClick={() => setOpen(!open)}>${name}</button>
+      {open && (
+        <ul>
+${markup(name, 5)}
+        </ul>
+      )}
+    </div>
+  );
+}
+`,
+  // Uses hooks and browser globals without 'use client': what the analysis reports
+  missing: (name) => `import { useEffect, useState } from 'react';
+import { format } from '../../lib/format';
+
+export default function ${name}({ items }: { items: string[] }) {
+  const [width, setWidth] = useState(0);
+  useEffect(() => {
+    setWidth(window.innerWidth);
+  }, []);
+  return (
+    <ul data-width={width}>
+${markup(name, 3)}
+    </ul>
+  );
+}
+`,
+};
+
+function write(file, content) {
+  fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+  fs.writeFileSync(path.join(root, file), content);
+}
+
+// Only ever replace a tree this script wrote
+const marker = path.join(root, 'package.json');
+if (fs.existsSync(root) && fs.readdirSync(root).length > 0) {
+  const name = fs.existsSync(marker) ? JSON.parse(fs.readFileSync(marker, 'utf-8')).name : null;
+  if (name !== 'rsc-guardian-benchmark') {
+    console.error(`${root} is not empty and was not generated by this script`);
+    process.exit(1);
+  }
+}
+fs.rmSync(root, { recursive: true, force: true });
+write('next.config.js', 'module.exports = {};\n');
+write('package.json', `${JSON.stringify({ name: 'rsc-guardian-benchmark', private: true })}\n`);
+write(
+  'lib/format.ts',
+  'export function format(value: string): string {\n  return value.trim();\n}\n'
+);
+
+let written = 2;
+for (let feature = 0; written < fileCount; feature++) {
+  const dir = `app/feature-${feature}`;
+  const names = [];
+  for (let index = 0; index < filesPerFeature - 1 && written < fileCount - 1; index++) {
+    const name = `Feature${feature}Part${index}`;
+    const kind = pick(['server', 'server', 'client', 'missing']);
+    // Server components import the parts before them, so each feature is an import tree
+    const siblings = kind === 'server' ? names.slice(-2) : [];
+    write(`${dir}/${name}.tsx`, kinds[kind](name, siblings));
+    names.push(name);
+    written++;
+  }
+  write(`${dir}/page.tsx`, kinds.server('Page', names.slice(-3)));
+  written++;
+}
+
+console.log(`Wrote ${written} files to ${root}`);
@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+// Compares analyzeFiles on the main thread with the worker pool on a generated tree:
+//   npm run build && node benchmark/run.mjs <dir> [--jobs <n>] [--framework next-app]
+
+import { createRequire } from 'module';
+import * as os from 'os';
+import { parseArgs } from 'util';
+
+const require = createRequire(import.meta.url);
+const { analyzeFiles } = require('../dist/index.js');
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    jobs: { type: 'string' },
+    framework: { type: 'string' },
+  },
+});
+
+if (positionals.length !== 1) {
+  console.error('Usage: node benchmark/run.mjs <dir> [--jobs <n>] [--framework next-app]');
+  process.exit(1);
+}
+
+const jobs = values.jobs ? Number(values.jobs) : (os.availableParallelism?.() ?? os.cpus().length);
+const options = { cwd: positionals[0], framework: values.framework, cache: false };
+
+async function measure(label, runJobs) {
+  const start = process.hrtime.bigint();
+  const results = await analyzeFiles(['.'], { ...options, jobs: runJobs });
+  const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+  const rate = Math.round(results.length / seconds);
+  console.log(
+    `${label.padEnd(24)}${seconds.toFixed(2).padStart(8)} s${String(rate).padStart(8)} files/s`
+  );
+  return results;
+}
+
+const sequential = await measure('main thread', 1);
+const parallel = await measure(`${jobs} worker threads`, jobs);
+
+if (JSON.stringify(sequential) !== JSON.stringify(parallel)) {
+  console.error('Results differ between the main thread and the worker threads');
+  process.exit(1);
+}
+console.log(`${sequential.length} files, identical results`);
@@ -1,8 +1,15 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
 import { fileURLToPath } from 'url';
-import { analyze } from '../analyze';
+import {
+  analyzeFile,
+  analyzeFiles,
+  analyzeSource,
+  isMissingUseClient,
+  summarize,
+} from '../analyze';
 
 // Get __dirname equivalent for ESM
 const __filename = fileURLToPath(import.meta.url);
@@ -12,27 +19,188 @@ describe('analyze', () => {
   // Use path relative to test file location
   const fixturesDir = path.resolve(__dirname, '../../__fixtures__');
 
-  it('should detect hooks in component', async () => {
+  it('should detect hooks in component', () => {
     const filePath = path.join(fixturesDir, 'with-hooks.tsx');
     expect(fs.existsSync(filePath)).toBe(true);
-    
-    // This test verifies the function doesn't throw
-    // In a real scenario, you'd capture stdout or return the result
-    await expect(analyze(filePath)).resolves.not.toThrow();
+
+    const result = analyzeFile(filePath);
+
+    expect(result.hasUseClient).toBe(false);
+    expect(result.hooks).toEqual(['useEffect', 'useState']);
+    expect(result.eventHandlers).toEqual(['onClick']);
+    expect(result.features[0]).toEqual({
+      category: 'hook',
+      name: 'useState',
+      reason: expect.stringContaining('React hook'),
+      line: 4,
+      column: 29,
+      endLine: 4,
+      endColumn: 40,
+    });
   });
 
-  it('should detect browser globals', async () => {
+  it('should detect browser globals', () => {
     const filePath = path.join(fixturesDir, 'with-browser-globals.tsx');
     expect(fs.existsSync(filePath)).toBe(true);
-    
-    await expect(analyze(filePath)).resolves.not.toThrow();
+
+    const result = analyzeFile(filePath);
+
+    expect(result.browserGlobals).toEqual(['document', 'localStorage', 'window']);
   });
 
-  it('should handle pure server components', async () => {
+  it('should handle pure server components', () => {
     const filePath = path.join(fixturesDir, 'pure-server.tsx');
     expect(fs.existsSync(filePath)).toBe(true);
-    
-    await expect(analyze(filePath)).resolves.not.toThrow();
+
+    const result = analyzeFile(filePath);
+
+    expect(result.features).toEqual([]);
+    expect(result.error).toBeUndefined();
+  });
+
+  it('should analyze source code without a file on disk', () => {
+    const result = analyzeSource("'use client';\nexport const x = window.innerWidth;");
+
+    expect(result.hasUseClient).toBe(true);
+    expect(result.browserGlobals).toEqual(['window']);
+  });
+
+  it('should return parse errors instead of throwing', () => {
+    const result = analyzeSource('export default function (', 'broken.tsx');
+
+    expect(result.error).toBeDefined();
+    expect(result.features).toEqual([]);
+  });
+
+  it('should analyze a whole directory', async () => {
+    const results = await analyzeFiles([fixturesDir], { exclude: ['graph/**', 'importers/**', 'islands/**'] });
+
+    expect(results.map((r) => path.basename(r.filePath))).toEqual([
+      'pure-server.tsx',
+      'with-browser-globals.tsx',
+      'with-hooks.tsx',
+    ]);
+    expect(summarize(results)).toMatchObject({ filesScanned: 3, filesMissingUseClient: 2 });
+  });
+
+  it('should reject patterns that match no files', async () => {
+    await expect(analyzeFiles(path.join(fixturesDir, '*.vue'))).rejects.toThrow(/No files matched/);
+  });
+
+  it('should reject missing files', () => {
+    expect(() => analyzeFile(path.join(fixturesDir, 'missing.tsx'))).toThrow(/File not found/);
   });
 });
 
+describe('analyze with framework next-app', () => {
+  let root: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  };
+  const useState =
+    "import { useState } from 'react';\nexport default function C() { const [c] = useState(0); return c; }\n";
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rsc-guardian-next-'));
+    write('next.config.js', 'module.exports = {};\n');
+    write(
+      'app/page.tsx',
+      "import Shell from './Shell';\nimport Nav from '../components/Nav';\nexport default function Page() { return <Shell><Nav /></Shell>; }\n"
+    );
+    write(
+      'app/Shell.tsx',
+      "'use client';\nimport Counter from '../components/Counter';\nexport default function Shell({ children }) { return <Counter>{children}</Counter>; }\n"
+    );
+    write('app/error.tsx', 'export default function Error() { return null; }\n');
+    write('app/api/route.ts', 'export function GET() { return Response.json(window.name); }\n');
+    write('components/Nav.tsx', useState);
+    write('components/Counter.tsx', useState);
+    write('pages/legacy.tsx', useState);
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should judge each file by its Next.js role', async () => {
+    const results = await analyzeFiles(['.'], { cwd: root, framework: 'next-app' });
+    const byFile = new Map(results.map((r) => [path.relative(root, r.filePath), r]));
+
+    expect(
+      Array.from(byFile)
+        .filter(([, result]) => isMissingUseClient(result))
+        .map(([file]) => file)
+    ).toEqual(['app/error.tsx', 'components/Nav.tsx']);
+    expect(byFile.get('components/Counter.tsx')?.next).toMatchObject({ server: false, issues: [] });
+    expect(byFile.get('pages/legacy.tsx')?.next).toMatchObject({ router: 'pages', server: false });
+    expect(byFile.get('app/api/route.ts')?.next?.issues).toEqual([
+      {
+        kind: 'server-only',
+        message: expect.stringContaining("'window' used in a route handler"),
+        line: 1,
+        column: 46,
+      },
+    ]);
+  });
+
+  it('should leave results unchanged without a framework', () => {
+    const result = analyzeFile(path.join(root, 'components/Counter.tsx'));
+
+    expect(result.next).toBeUndefined();
+    expect(isMissingUseClient(result)).toBe(true);
+  });
+});
+
+describe('analyze with rsc-guardian.config', () => {
+  let root: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  };
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rsc-guardian-config-'));
+    write(
+      'rsc-guardian.config.json',
+      JSON.stringify({
+        clientGlobals: ['requestAnimationFrame'],
+        clientPackages: ['@acme/charts'],
+        overrides: [{ files: 'ui/', serverHooks: ['useId'] }],
+      })
+    );
+    write(
+      'Chart.tsx',
+      "import { LineChart } from '@acme/charts';\nexport default function Chart() { requestAnimationFrame(() => {}); return <LineChart id={useId()} />; }\n"
+    );
+    write('ui/Field.tsx', 'export default function Field() { return <input id={useId()} />; }\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should detect with the nearest config and its overrides', async () => {
+    const results = await analyzeFiles(['.'], { cwd: root });
+    const byFile = new Map(results.map((r) => [path.relative(root, r.filePath), r]));
+
+    expect(byFile.get('Chart.tsx')).toMatchObject({
+      hooks: ['useId'],
+      browserGlobals: ['requestAnimationFrame'],
+      clientImports: ['@acme/charts'],
+    });
+    expect(byFile.get('ui/Field.tsx')?.features).toEqual([]);
+    expect(summarize(results).categories['client-import']).toEqual({ occurrences: 1, files: 1 });
+  });
+
+  it('should use an explicit config file instead', () => {
+    const configPath = path.join(root, 'empty.config.json');
+    fs.writeFileSync(configPath, '{}');
+
+    const result = analyzeFile(path.join(root, 'Chart.tsx'), { config: configPath });
+
+    expect(result.features.map((f) => f.name)).toEqual(['useId']);
+  });
+});
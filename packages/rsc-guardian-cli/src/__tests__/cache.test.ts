@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { analyzeFiles, isMissingUseClient } from '../analyze';
+import type { AnalyzeOptions } from '../analyze';
+
+describe('analysis cache', () => {
+  let root: string;
+  let options: AnalyzeOptions;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  };
+  const packageVersion = (file: string) => JSON.parse(fs.readFileSync(file, 'utf-8')).version;
+  const readCache = () => JSON.parse(fs.readFileSync(path.join(root, 'cache.json'), 'utf-8'));
+  // Marks what the cache holds, so results read from it can be told apart from parsed ones
+  const tamper = (file: string) => {
+    const cache = readCache();
+    cache.files[path.join(root, file)].facts.features[0].name = 'fromCache';
+    fs.writeFileSync(path.join(root, 'cache.json'), JSON.stringify(cache));
+  };
+  const analyze = async (extra: AnalyzeOptions = {}) => {
+    const results = await analyzeFiles(['.'], { ...options, ...extra });
+    return new Map(results.map((result) => [path.relative(root, result.filePath), result]));
+  };
+
+  const useState =
+    "import { useState } from 'react';\nexport default function Counter() { const [c] = useState(0); return c; }\n";
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rsc-guardian-cache-'));
+    options = { cwd: root, cache: true, cacheLocation: path.join(root, 'cache.json') };
+    write('Counter.tsx', useState);
+    write('Title.tsx', 'export default function Title() { return <h1>Hello</h1>; }\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should store facts and import specifiers per file', async () => {
+    await analyze();
+
+    const cache = readCache();
+    expect(cache).toMatchObject({
+      revision: expect.any(Number),
+      version: packageVersion(path.join(__dirname, '../../package.json')),
+      core: packageVersion(path.join(__dirname, '../../../rsc-guardian-core/package.json')),
+    });
+    expect(cache.files[path.join(root, 'Counter.tsx')]).toMatchObject({
+      hash: expect.any(String),
+      settings: expect.any(String),
+      facts: {
+        hasUseClient: false,
+        features: [expect.objectContaining({ name: 'useState' })],
+        imports: ['react'],
+      },
+    });
+  });
+
+  it('should not parse unchanged files again', async () => {
+    await analyze();
+    tamper('Counter.tsx');
+
+    const results = await analyze();
+    expect(results.get('Counter.tsx')?.hooks).toEqual(['fromCache']);
+  });
+
+  it('should parse files again when their content changes', async () => {
+    await analyze();
+    tamper('Counter.tsx');
+    write('Counter.tsx', useState.replace('useState(0)', 'useState(1)'));
+
+    const results = await analyze();
+    expect(results.get('Counter.tsx')?.hooks).toEqual(['useState']);
+  });
+
+  it('should parse files again when their settings change', async () => {
+    await analyze();
+    tamper('Counter.tsx');
+    write('rsc-guardian.config.json', JSON.stringify({ clientGlobals: ['analytics'] }));
+
+    const results = await analyze();
+    expect(results.get('Counter.tsx')?.hooks).toEqual(['useState']);
+  });
+
+  it('should ignore caches written by another version', async () => {
+    await analyze();
+    tamper('Counter.tsx');
+    fs.writeFileSync(
+      path.join(root, 'cache.json'),
+      JSON.stringify({ ...readCache(), version: '0.0.0' })
+    );
+
+    const results = await analyze();
+    expect(results.get('Counter.tsx')?.hooks).toEqual(['useState']);
+  });
+
+  it('should ignore caches written with another rsc-guardian-core or cache format', async () => {
+    for (const stale of [{ core: '0.0.0' }, { revision: 0 }]) {
+      await analyze();
+      tamper('Counter.tsx');
+      fs.writeFileSync(path.join(root, 'cache.json'), JSON.stringify({ ...readCache(), ...stale }));
+
+      const results = await analyze();
+      expect(results.get('Counter.tsx')?.hooks).toEqual(['useState']);
+    }
+  });
+
+  it('should neither read nor write the cache when disabled', async () => {
+    await analyze();
+    tamper('Counter.tsx');
+
+    const results = await analyze({ cache: false });
+    expect(results.get('Counter.tsx')?.hooks).toEqual(['useState']);
+
+    fs.rmSync(path.join(root, 'cache.json'));
+    await analyze({ cache: false });
+    expect(fs.existsSync(path.join(root, 'cache.json'))).toBe(false);
+  });
+
+  it('should follow client status changes of cached dependencies', async () => {
+    options = { ...options, framework: 'next-app' };
+    write('next.config.js', 'module.exports = {};\n');
+    write(
+      'app/page.tsx',
+      "import Panel from '../components/Panel';\nexport default function Page() { return <Panel />; }\n"
+    );
+    write(
+      'components/Panel.tsx',
+      "import Counter from '../Counter';\nexport default function Panel() { return <Counter />; }\n"
+    );
+
+    const before = await analyze();
+    expect(before.get('Counter.tsx')?.next?.server).toBe(true);
+    expect(isMissingUseClient(before.get('Counter.tsx')!)).toBe(true);
+
+    // Only Panel changes: Counter's cached facts stay valid, its server status doesn't
+    write(
+      'components/Panel.tsx',
+      "'use client';\nimport Counter from '../Counter';\nexport default function Panel() { return <Counter />; }\n"
+    );
+    tamper('Counter.tsx');
+    const after = await analyze();
+    expect(after.get('Counter.tsx')?.hooks).toEqual(['fromCache']);
+    expect(after.get('Counter.tsx')?.next?.server).toBe(false);
+    expect(isMissingUseClient(after.get('Counter.tsx')!)).toBe(false);
+  });
+});
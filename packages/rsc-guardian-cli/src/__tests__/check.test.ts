@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { checkExitCode, checkFiles, exitCodes, readBaseline } from '../check';
+import { formatCheck } from '../formatters';
+
+describe('check', () => {
+  let root: string;
+  let baseline: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rsc-guardian-check-'));
+    baseline = path.join(root, 'rsc-guardian-baseline.json');
+    write('Title.tsx', 'export default function Title() { return <h1>Hello</h1>; }\n');
+    write(
+      'Counter.tsx',
+      "import { useState } from 'react';\nexport default function Counter() {\n  const [count] = useState(0);\n  return <p>{count}</p>;\n}\n"
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should fail on violations', async () => {
+    const result = await checkFiles(root, { cwd: root });
+
+    expect(result.violations).toHaveLength(1);
+    expect(result.violations[0]).toMatchObject({
+      ruleId: 'client-feature/hook',
+      severity: 'error',
+      line: 3,
+    });
+    expect(checkExitCode(result)).toBe(exitCodes.violations);
+    expect(formatCheck(result, 'text', root)).toContain('✗ 1 problem (1 error, 0 warnings)');
+  });
+
+  it('should pass without violations', async () => {
+    const result = await checkFiles(path.join(root, 'Title.tsx'), { cwd: root });
+
+    expect(checkExitCode(result)).toBe(exitCodes.ok);
+    expect(formatCheck(result, 'text', root)).toContain('No new boundary violations');
+  });
+
+  it('should exit with 2 when files cannot be parsed', async () => {
+    write('Broken.tsx', 'export default function Broken( {\n');
+    const result = await checkFiles(root, { cwd: root });
+
+    expect(result.errors).toHaveLength(1);
+    expect(checkExitCode(result)).toBe(exitCodes.error);
+  });
+
+  it('should report warned categories as warnings up to --max-warnings', async () => {
+    const result = await checkFiles(root, { cwd: root, warn: ['hook'] });
+
+    expect(result.violations[0].severity).toBe('warning');
+    expect(checkExitCode(result)).toBe(exitCodes.ok);
+    expect(checkExitCode(result, 1)).toBe(exitCodes.ok);
+    expect(checkExitCode(result, 0)).toBe(exitCodes.violations);
+  });
+
+  it('should only report violations missing from the baseline', async () => {
+    const recorded = await checkFiles(root, { baseline, updateBaseline: true });
+    expect(recorded.baselined).toBe(1);
+    expect(readBaseline(baseline)?.violations).toEqual([
+      { fingerprint: expect.any(String), file: 'Counter.tsx', ruleId: 'client-feature/hook' },
+    ]);
+
+    const unchanged = await checkFiles(root, { baseline });
+    expect(unchanged).toMatchObject({ violations: [], baselined: 1, fixed: 0 });
+    expect(checkExitCode(unchanged)).toBe(exitCodes.ok);
+
+    write(
+      'Clock.tsx',
+      "import { useEffect } from 'react';\nexport default function Clock() {\n  useEffect(() => {}, []);\n  return null;\n}\n"
+    );
+    const added = await checkFiles(root, { baseline });
+    expect(added.violations.map((violation) => violation.ruleId)).toEqual(['client-feature/hook']);
+    expect(added.violations[0].filePath).toBe(path.join(root, 'Clock.tsx'));
+    expect(checkExitCode(added)).toBe(exitCodes.violations);
+  });
+
+  it('should keep matching the baseline when lines move', async () => {
+    await checkFiles(root, { baseline, updateBaseline: true });
+    write(
+      'Counter.tsx',
+      "import { useState } from 'react';\n\n// Counts clicks\nexport default function Counter() {\n  const [count] = useState(0);\n  return <p>{count}</p>;\n}\n"
+    );
+
+    const result = await checkFiles(root, { baseline });
+    expect(result).toMatchObject({ violations: [], baselined: 1 });
+  });
+
+  it('should count baseline entries that were fixed', async () => {
+    await checkFiles(root, { baseline, updateBaseline: true });
+    write('Counter.tsx', "'use client';\n" + fs.readFileSync(path.join(root, 'Counter.tsx')));
+
+    const result = await checkFiles(root, { baseline });
+    expect(result).toMatchObject({ violations: [], baselined: 0, fixed: 1 });
+    expect(formatCheck(result, 'text', root)).toContain('--update-baseline');
+  });
+
+  it('should reject a file that is not a baseline', () => {
+    write('rsc-guardian-baseline.json', '{"version": 1}');
+    expect(() => readBaseline(baseline)).toThrow('is not an rsc-guardian baseline');
+  });
+});
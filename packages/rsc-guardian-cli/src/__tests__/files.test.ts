@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { collectFiles } from '../files';
+
+describe('collectFiles', () => {
+  let root: string;
+
+  const write = (file: string, content = 'export {};\n') => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  };
+  const relative = (files: string[]) => files.map((file) => path.relative(root, file));
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rsc-guardian-files-'));
+    fs.mkdirSync(path.join(root, '.git'));
+    write('.gitignore', 'generated/\n');
+    write('app/page.tsx');
+    write('app/layout.tsx');
+    write('app/page.test.tsx');
+    write('app/types.d.ts');
+    write('app/styles.css', '');
+    write('app/generated/schema.ts');
+    write('app/legacy/.gitignore', 'old.tsx\n');
+    write('app/legacy/old.tsx');
+    write('app/legacy/new.tsx');
+    write('node_modules/pkg/index.js');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should expand directories and respect nested .gitignore files', async () => {
+    const files = await collectFiles(['.'], { cwd: root });
+
+    expect(relative(files)).toEqual([
+      'app/layout.tsx',
+      'app/legacy/new.tsx',
+      'app/page.test.tsx',
+      'app/page.tsx',
+    ]);
+  });
+
+  it('should apply include and exclude patterns', async () => {
+    const files = await collectFiles(['app'], {
+      cwd: root,
+      include: ['**/*.tsx'],
+      exclude: ['**/*.test.tsx', '**/legacy/**'],
+    });
+
+    expect(relative(files)).toEqual(['app/layout.tsx', 'app/page.tsx']);
+  });
+
+  it('should combine files and globs without duplicates', async () => {
+    const files = await collectFiles(['app/page.tsx', 'app/*.tsx'], { cwd: root });
+
+    expect(relative(files)).toEqual(['app/layout.tsx', 'app/page.test.tsx', 'app/page.tsx']);
+  });
+
+  it('should include gitignored files when asked to', async () => {
+    const files = await collectFiles(['app/generated'], { cwd: root, gitignore: false });
+
+    expect(relative(files)).toEqual(['app/generated/schema.ts']);
+  });
+
+  it('should throw for paths that do not exist', async () => {
+    await expect(collectFiles(['missing.tsx'], { cwd: root })).rejects.toThrow(/File not found/);
+  });
+});
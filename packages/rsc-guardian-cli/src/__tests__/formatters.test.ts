@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { analyzeFile, analyzeSource } from '../analyze';
+import { analyzeImportGraph } from 'rsc-guardian-core';
+import { formatGraph, formatJson, formatSarif, formatSplitPatch, formatText } from '../formatters';
+import { planSplit } from '../split';
+
+// Get __dirname equivalent for ESM
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('formatters', () => {
+  const fixturesDir = path.resolve(__dirname, '../../__fixtures__');
+  const results = ['with-hooks.tsx', 'pure-server.tsx'].map((file) =>
+    analyzeFile(path.join(fixturesDir, file))
+  );
+
+  it('should include 1-based locations and a summary in JSON output', () => {
+    const output = JSON.parse(formatJson(results, fixturesDir));
+
+    expect(output.files[0]).toMatchObject({
+      filePath: 'with-hooks.tsx',
+      hasUseClient: false,
+      missingUseClient: true,
+      hooks: ['useEffect', 'useState'],
+    });
+    expect(output.files[0].features[0]).toMatchObject({
+      category: 'hook',
+      name: 'useState',
+      line: 4,
+      column: 29,
+    });
+    expect(output.summary).toMatchObject({
+      filesScanned: 2,
+      filesMissingUseClient: 1,
+      categories: { hook: { occurrences: 2, files: 1 } },
+    });
+  });
+
+  it('should produce a SARIF 2.1.0 log with one result per violation', () => {
+    const log = JSON.parse(formatSarif(results, fixturesDir));
+    const run = log.runs[0];
+
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual([
+      'client-feature/hook',
+      'client-feature/browser-global',
+      'client-feature/event-handler',
+      'client-feature/class-component',
+      'client-feature/create-context',
+      'client-feature/react-dom-api',
+      'client-feature/client-import',
+    ]);
+    expect(run.results).toHaveLength(3);
+    expect(run.results[0]).toMatchObject({
+      ruleId: 'client-feature/hook',
+      ruleIndex: 0,
+      level: 'error',
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'with-hooks.tsx', uriBaseId: '%SRCROOT%' },
+            region: { startLine: 4, startColumn: 29 },
+          },
+        },
+      ],
+    });
+    expect(run.originalUriBaseIds['%SRCROOT%'].uri).toMatch(/^file:\/\/.*\/__fixtures__\/$/);
+  });
+
+  it('should print a summary only when several files were analyzed', () => {
+    expect(formatText(results, fixturesDir)).toContain("Files missing 'use client'");
+    expect(formatText(results.slice(0, 1), fixturesDir)).not.toContain('Summary');
+  });
+
+  it('should list React APIs and client-only imports only when found', () => {
+    const modal = analyzeSource(
+      "import { motion } from 'framer-motion';\nimport { createPortal } from 'react-dom';\nexport default function Modal({ children }) { return createPortal(<motion.div>{children}</motion.div>, document.body); }",
+      path.join(fixturesDir, 'Modal.tsx')
+    );
+
+    const text = formatText([modal], fixturesDir);
+
+    expect(text).toContain('Detected react-dom APIs (1):\n  - createPortal');
+    expect(text).toContain('Detected Client-only Imports (1):\n  - framer-motion');
+    expect(text).not.toContain('Detected Class Components');
+    expect(formatText(results.slice(0, 1), fixturesDir)).not.toContain('Client-only Imports');
+  });
+
+  it('should print import chains for graph violations', () => {
+    const entry = path.join(fixturesDir, 'graph/page.tsx');
+    const output = formatGraph([entry], analyzeImportGraph([entry]), fixturesDir);
+
+    expect(output).toContain('✗ graph/Widget.tsx');
+    expect(output).toContain('via:  graph/page.tsx → graph/Widget.tsx');
+  });
+
+  it('should format a split as a patch with git headers and hunks against the disk', () => {
+    const root = path.join(fixturesDir, 'importers');
+    const patch = formatSplitPatch(
+      planSplit(path.join(root, 'components/Toggle.tsx'), { root }),
+      root
+    );
+
+    expect(patch).toContain(
+      [
+        'diff --git a/components/Toggle.server.tsx b/components/Toggle.server.tsx',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/components/Toggle.server.tsx',
+        '@@ -0,0 +1,8 @@',
+        "+import type { ToggleProps } from './Toggle.client';",
+      ].join('\n')
+    );
+    expect(patch).toContain(
+      [
+        'diff --git a/components/Toggle.tsx b/components/Toggle.tsx',
+        'deleted file mode 100644',
+        '--- a/components/Toggle.tsx',
+        '+++ /dev/null',
+        '@@ -1,8 +0,0 @@',
+      ].join('\n')
+    );
+    expect(patch).toContain(
+      [
+        '--- a/components/index.ts',
+        '+++ b/components/index.ts',
+        '@@ -1,2 +1,2 @@',
+        "-export { default as Toggle } from './Toggle';",
+        "-export type { ToggleProps } from './Toggle';",
+        "+export { default as Toggle } from './Toggle.server';",
+        "+export type { ToggleProps } from './Toggle.server';",
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { availableJobs, runInWorkers } from '../pool';
+
+// Answers each number with its square, after a delay that makes later tasks finish first
+const squareWorker = `
+const { parentPort, workerData } = require('worker_threads');
+parentPort.on('message', (value) => {
+  if (value === workerData.failOn) {
+    throw new Error('Cannot square ' + value);
+  }
+  setTimeout(() => parentPort.postMessage(value * value), (10 - value) * 5);
+});
+`;
+
+describe('runInWorkers', () => {
+  it('should return results in task order', async () => {
+    const tasks = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+    const results = await runInWorkers<number, number>(tasks, {
+      script: squareWorker,
+      eval: true,
+      size: 3,
+      workerData: {},
+    });
+
+    expect(results).toEqual([1, 4, 9, 16, 25, 36, 49, 64, 81]);
+  });
+
+  it('should start no workers without tasks', async () => {
+    const results = await runInWorkers([], { script: 'throw new Error()', eval: true, size: 2 });
+    expect(results).toEqual([]);
+  });
+
+  it('should reject when a worker fails', async () => {
+    await expect(
+      runInWorkers([1, 2, 3], {
+        script: squareWorker,
+        eval: true,
+        size: 2,
+        workerData: { failOn: 2 },
+      })
+    ).rejects.toThrow('Cannot square 2');
+  });
+
+  it('should count the available CPUs', () => {
+    expect(availableJobs()).toBeGreaterThanOrEqual(1);
+  });
+});
@@ -0,0 +1,367 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { fileURLToPath } from 'url';
+import { applySplit, planSplit, planSplitSource } from '../split';
+
+// Get __dirname equivalent for ESM
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('planSplit', () => {
+  const fixturesDir = path.resolve(__dirname, '../../__fixtures__');
+
+  it('should propose server and client files without writing them', () => {
+    const filePath = path.join(fixturesDir, 'with-hooks.tsx');
+    const plan = planSplit(filePath);
+
+    expect(plan.needsSplit).toBe(true);
+    expect(plan.edits.map((edit) => [path.basename(edit.filePath), edit.kind])).toEqual([
+      ['with-hooks.server.tsx', 'create'],
+      ['with-hooks.client.tsx', 'create'],
+      ['with-hooks.tsx', 'delete'],
+    ]);
+    expect(plan.edits[1].content.startsWith("'use client';")).toBe(true);
+    expect(fs.existsSync(plan.edits[0].filePath)).toBe(false);
+    expect(fs.existsSync(plan.edits[1].filePath)).toBe(false);
+  });
+
+  it('should not propose edits for pure server components', () => {
+    const plan = planSplit(path.join(fixturesDir, 'pure-server.tsx'));
+
+    expect(plan.needsSplit).toBe(false);
+    expect(plan.edits).toEqual([]);
+  });
+
+  it('should report the features that make a split necessary', () => {
+    const plan = planSplitSource(
+      'export default function Link() { return <a onClick={() => history.back()}>Back</a>; }',
+      'Link.tsx'
+    );
+
+    expect(plan.features.map((f) => f.name)).toEqual(['onClick', 'history']);
+  });
+
+  it('should move only the interactive JSX into client components with the islands strategy', () => {
+    const plan = planSplit(path.join(fixturesDir, 'islands/ProductCard.tsx'), {
+      strategy: 'islands',
+    });
+    const [server, client] = plan.edits;
+
+    expect(plan.strategy).toBe('islands');
+    expect(plan.edits.map((edit) => [path.basename(edit.filePath), edit.kind])).toEqual([
+      ['ProductCard.tsx', 'update'],
+      ['ProductCard.client.tsx', 'create'],
+    ]);
+    expect(server.content).toBe(
+      [
+        "import { formatPrice } from './format';",
+        "import { ProductCardDiv } from './ProductCard.client';",
+        '',
+        'export default function ProductCard({ product }: { product: { name: string; price: number } }) {',
+        '  return (',
+        '    <article>',
+        '      <h2>{product.name}</h2>',
+        '      <p>{formatPrice(product.price)}</p>',
+        '      <ProductCardDiv product={product} />',
+        '    </article>',
+        '  );',
+        '}',
+        '',
+      ].join('\n')
+    );
+    expect(client.content).toBe(
+      [
+        "'use client';",
+        '',
+        "import { useState } from 'react';",
+        "import { formatPrice } from './format';",
+        '',
+        'interface ProductCardDivProps {',
+        '  product: { name: string; price: number };',
+        '}',
+        '',
+        'export function ProductCardDiv({ product }: ProductCardDivProps) {',
+        '  // Quantity the user picked',
+        '  const [quantity, setQuantity] = useState(1);',
+        '',
+        '  return (',
+        '    <div>',
+        '      <button onClick={() => setQuantity(quantity + 1)}>Add one</button>',
+        '      <span>{formatPrice(product.price * quantity)}</span>',
+        '    </div>',
+        '  );',
+        '}',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should type island props from the component annotations, or as unknown', () => {
+    const source = [
+      "import { useState } from 'react';",
+      "import type { User } from './types';",
+      'interface Props {',
+      '  title?: string;',
+      '  user: User;',
+      '  tags: string[];',
+      '}',
+      'export default async function Page({ title, user, tags }: Props) {',
+      '  const total = await count();',
+      '  const [open, setOpen] = useState(false);',
+      '  return (',
+      '    <div onClick={() => setOpen(!open)}>',
+      '      {title} {user.name} {tags.join()} {total}',
+      '    </div>',
+      '  );',
+      '}',
+    ].join('\n');
+
+    const [, client] = planSplitSource(source, 'Page.tsx', { strategy: 'islands' }).edits;
+    expect(client.content).toContain(
+      [
+        'interface PageDivProps {',
+        '  title: string | undefined;',
+        '  user: User;',
+        '  tags: string[];',
+        '  total: unknown;',
+        '}',
+        '',
+        'export function PageDiv({ title, user, tags, total }: PageDivProps) {',
+      ].join('\n')
+    );
+
+    expect(client.content).toContain("import type { User } from './types';");
+
+    const untyped = source
+      .replace(/import type .*\n/, '')
+      .replace(/interface Props \{[^}]*\}\n/, '')
+      .replace(': Props', '');
+    const [, jsx] = planSplitSource(untyped, 'Page.jsx', { strategy: 'islands' }).edits;
+    expect(jsx.content).toContain('export function PageDiv({ title, user, tags, total }) {');
+    expect(jsx.content).not.toContain('Props');
+  });
+
+  it('should share the types of island props with the client module', () => {
+    const source = [
+      "import { useState } from 'react';",
+      "import Price, { type Discount as Sale } from './price';",
+      '',
+      'const defaults = { currency: "EUR" };',
+      '',
+      '// A product in the catalog',
+      'interface Product {',
+      '  name: string;',
+      '  price: number;',
+      '}',
+      '',
+      'export default function Item({ product, sale, options }: { product: Product; sale: Sale; options: typeof defaults }) {',
+      '  const [count, setCount] = useState(0);',
+      '  return (',
+      '    <li>',
+      '      <Price value={product.price} />',
+      '      <button onClick={() => setCount(count + 1)}>',
+      '        {product.name} {sale.percent} {options.currency}',
+      '      </button>',
+      '    </li>',
+      '  );',
+      '}',
+    ].join('\n');
+
+    const [server, client] = planSplitSource(source, 'Item.tsx', { strategy: 'islands' }).edits;
+    expect(server.content).toContain('// A product in the catalog\nexport interface Product {');
+    expect(client.content).toContain(
+      [
+        "import { useState } from 'react';",
+        "import type { Discount as Sale } from './price';",
+        "import type { Product } from './Item';",
+        '',
+        'interface ItemButtonProps {',
+        '  product: Product;',
+        '  sale: Sale;',
+        '  options: unknown;',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('should explain when a component cannot be split into islands', () => {
+    expect(() =>
+      planSplitSource(
+        'const width = window.innerWidth;\nexport default function W() { return <p>{width}</p>; }',
+        'W.tsx',
+        { strategy: 'islands' }
+      )
+    ).toThrow("Cannot extract islands from W.tsx: 'window' is used outside of the component");
+  });
+
+  it('should carry the props type over to the server wrapper', () => {
+    const plan = planSplitSource(
+      [
+        "import { useState, type FC } from 'react';",
+        'type Props = { initial: number };',
+        'const Counter: FC<Props> = ({ initial }) => {',
+        '  const [count] = useState(initial);',
+        '  return <p>{count}</p>;',
+        '};',
+        'export default Counter;',
+      ].join('\n'),
+      'Counter.tsx'
+    );
+
+    expect(plan.edits[0].content).toBe(
+      [
+        "import type { Props } from './Counter.client';",
+        "import CounterClient from './Counter.client';",
+        '',
+        'export default function Counter(props: Props) {',
+        '  return <CounterClient {...props} />;',
+        '}',
+        '',
+      ].join('\n')
+    );
+    expect(plan.edits[1].content).toContain('export type Props = { initial: number };');
+  });
+
+  it('should keep named exports and leave server-only exports on the server', () => {
+    const plan = planSplitSource(
+      [
+        "import { useState } from 'react';",
+        "import type { Metadata } from 'next';",
+        'export interface PageProps { title: string }',
+        "export const metadata: Metadata = { title: 'Page' };",
+        'export function useToggle() { return useState(false); }',
+        'export function slugify(value: string) { return value.toLowerCase(); }',
+        'export default function Page({ title }: PageProps) {',
+        '  const [open, setOpen] = useToggle();',
+        '  return <h1 onClick={() => setOpen(!open)}>{title}</h1>;',
+        '}',
+      ].join('\n'),
+      'Page.tsx'
+    );
+    const [server, client] = plan.edits.map((edit) => edit.content);
+
+    expect(server).toBe(
+      [
+        "import type { Metadata } from 'next';",
+        "import type { PageProps } from './Page.client';",
+        "import PageClient from './Page.client';",
+        '',
+        "export const metadata: Metadata = { title: 'Page' };",
+        '',
+        'export function slugify(value: string) { return value.toLowerCase(); }',
+        '',
+        "export type { PageProps } from './Page.client';",
+        "export { useToggle } from './Page.client';",
+        '',
+        'export default function Page(props: PageProps) {',
+        '  return <PageClient {...props} />;',
+        '}',
+        '',
+      ].join('\n')
+    );
+    expect(client.startsWith("'use client';\n\nimport { useState } from 'react';\n")).toBe(true);
+    expect(client).not.toContain('metadata');
+    expect(client).not.toContain('slugify');
+    expect(client).toContain('export function useToggle()');
+  });
+
+  it('should point importers at the split files, through aliases and barrels', () => {
+    const root = path.join(fixturesDir, 'importers');
+    const plan = planSplit(path.join(root, 'components/Toggle.tsx'), { root });
+    const importers = plan.edits.slice(3);
+
+    expect(plan.edits[2]).toMatchObject({ kind: 'delete' });
+    expect(importers.map((edit) => [path.relative(root, edit.filePath), edit.kind])).toEqual([
+      [path.join('components', 'Menu.tsx'), 'update'],
+      [path.join('components', 'index.ts'), 'update'],
+      [path.join('views', 'Settings.tsx'), 'update'],
+    ]);
+    expect(importers[0].content).toContain("import Toggle from './Toggle.client';");
+    expect(importers[1].content).toBe(
+      [
+        "export { default as Toggle } from './Toggle.server';",
+        "export type { ToggleProps } from './Toggle.server';",
+        '',
+      ].join('\n')
+    );
+    expect(importers[2].content).toContain("import Toggle from '@/components/Toggle.server';");
+    expect(importers[2].content).toContain(
+      "import type { ToggleProps } from '../components/Toggle.server';"
+    );
+  });
+
+  it('should keep the original module as a facade when asked to', () => {
+    const root = path.join(fixturesDir, 'importers');
+    const plan = planSplit(path.join(root, 'components/Toggle.tsx'), {
+      root,
+      importers: 'facade',
+    });
+
+    expect(plan.edits).toHaveLength(3);
+    expect(plan.edits[2]).toMatchObject({
+      filePath: path.join(root, 'components/Toggle.tsx'),
+      kind: 'update',
+      content: "export * from './Toggle.server';\nexport { default } from './Toggle.server';\n",
+    });
+  });
+
+  it('should lay out the split files from the naming templates', () => {
+    const plan = planSplitSource(
+      [
+        "import { useState } from 'react';",
+        "import { label } from './labels';",
+        'export default function Like() {',
+        '  const [liked, setLiked] = useState(false);',
+        '  return <button onClick={() => setLiked(!liked)}>{label(liked)}</button>;',
+        '}',
+      ].join('\n'),
+      '/app/components/Like.tsx',
+      {
+        serverFile: '{name}{ext}',
+        clientFile: '_client/{Name}Button{ext}',
+        clientName: 'Interactive{Name}',
+      }
+    );
+    const [server, client] = plan.edits;
+
+    expect(server).toMatchObject({
+      filePath: path.resolve('/app/components/Like.tsx'),
+      kind: 'update',
+    });
+    expect(server.content).toBe(
+      [
+        "import InteractiveLike from './_client/LikeButton';",
+        '',
+        'export default function Like() {',
+        '  return <InteractiveLike />;',
+        '}',
+        '',
+      ].join('\n')
+    );
+    expect(client.filePath).toBe(path.resolve('/app/components/_client/LikeButton.tsx'));
+    expect(client.content).toContain("import { label } from '../labels';");
+  });
+
+  it('should refuse to overwrite existing split files unless forced', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'rsc-guardian-split-'));
+    const clientPath = path.join(root, 'Widget.client.tsx');
+    fs.copyFileSync(path.join(fixturesDir, 'graph/Widget.tsx'), path.join(root, 'Widget.tsx'));
+    fs.writeFileSync(clientPath, "'use client';\n");
+
+    try {
+      const plan = planSplit(path.join(root, 'Widget.tsx'), { root });
+
+      expect(plan.conflicts).toEqual([clientPath]);
+      expect(plan.edits[1].original).toBe("'use client';\n");
+      expect(() => applySplit(plan)).toThrow(`Refusing to overwrite existing files: ${clientPath}`);
+      expect(fs.existsSync(path.join(root, 'Widget.tsx'))).toBe(true);
+
+      applySplit(plan, { force: true });
+      expect(fs.readdirSync(root).sort()).toEqual(['Widget.client.tsx', 'Widget.server.tsx']);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
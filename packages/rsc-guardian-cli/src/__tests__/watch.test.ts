@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { createWatchSession, watchFiles } from '../watch';
+import type { WatchOptions, WatchUpdate } from '../watch';
+import { formatWatchUpdate } from '../formatters';
+
+describe('watch', () => {
+  let root: string;
+
+  const file = (name: string) => path.join(root, name);
+  const write = (name: string, content: string) => {
+    fs.mkdirSync(path.dirname(file(name)), { recursive: true });
+    fs.writeFileSync(file(name), content);
+  };
+
+  const counter =
+    "import { useState } from 'react';\nexport function useCounter() {\n  return useState(0);\n}\n";
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rsc-guardian-watch-'));
+    write('Title.tsx', 'export default function Title() { return <h1>Hello</h1>; }\n');
+    write('counter.ts', 'export function useCounter() {\n  return 0;\n}\n');
+    write(
+      'Page.tsx',
+      "import { useCounter } from './counter';\nexport default function Page() {\n  return <p>{useCounter()}</p>;\n}\n"
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should analyze only changed files and their importers', async () => {
+    const session = await createWatchSession(root, { cwd: root });
+    expect(session.results()).toHaveLength(3);
+
+    write('counter.ts', counter);
+    const update = await session.update([file('counter.ts')]);
+
+    expect(update.changed).toEqual([file('counter.ts')]);
+    expect(update.analyzed).toEqual([file('Page.tsx'), file('counter.ts')]);
+    expect(update.added).toEqual([
+      expect.objectContaining({
+        filePath: file('counter.ts'),
+        ruleId: 'client-feature/hook',
+        line: 3,
+      }),
+    ]);
+    expect(update.resolved).toEqual([]);
+  });
+
+  it('should report resolved violations', async () => {
+    write('counter.ts', counter);
+    const session = await createWatchSession(root, { cwd: root });
+
+    write('counter.ts', "'use client';\n" + counter);
+    const update = await session.update([file('counter.ts')]);
+
+    expect(update.added).toEqual([]);
+    expect(update.resolved.map((violation) => violation.ruleId)).toEqual(['client-feature/hook']);
+    expect(formatWatchUpdate(update, root)).toContain(
+      "  - counter.ts:3:10  'useState' is a React hook"
+    );
+  });
+
+  it('should not report violations that only moved', async () => {
+    write('counter.ts', counter);
+    const session = await createWatchSession(root, { cwd: root });
+
+    write('counter.ts', '// Shared state\n\n' + counter);
+    const update = await session.update([file('counter.ts')]);
+
+    expect(update).toMatchObject({ added: [], resolved: [] });
+    expect(formatWatchUpdate(update, root)).toContain('No new or resolved boundary violations');
+  });
+
+  it('should pick up added and removed files', async () => {
+    const session = await createWatchSession(root, { cwd: root });
+
+    write(
+      'Clock.tsx',
+      'export default function Clock() {\n  return <p>{window.innerWidth}</p>;\n}\n'
+    );
+    const added = await session.update([file('Clock.tsx')]);
+    expect(added.analyzed).toEqual([file('Clock.tsx')]);
+    expect(added.added.map((violation) => violation.ruleId)).toEqual([
+      'client-feature/browser-global',
+    ]);
+
+    fs.rmSync(file('Clock.tsx'));
+    const removed = await session.update([file('Clock.tsx')]);
+    expect(removed.changed).toEqual([file('Clock.tsx')]);
+    expect(removed.resolved.map((violation) => violation.ruleId)).toEqual([
+      'client-feature/browser-global',
+    ]);
+    expect(session.results()).toHaveLength(3);
+  });
+
+  it('should re-analyze importers when an imported file is added', async () => {
+    fs.rmSync(file('counter.ts'));
+    const session = await createWatchSession(root, { cwd: root });
+
+    write('counter.ts', counter);
+    const update = await session.update([file('counter.ts')]);
+
+    expect(update.analyzed).toEqual([file('Page.tsx'), file('counter.ts')]);
+  });
+
+  it('should report parse errors', async () => {
+    const session = await createWatchSession(root, { cwd: root });
+
+    write('Title.tsx', 'export default function Title( {\n');
+    const update = await session.update([file('Title.tsx')]);
+
+    expect(update.errors).toEqual([{ filePath: file('Title.tsx'), message: expect.any(String) }]);
+  });
+
+  it('should analyze changes reported by the file system watcher', async () => {
+    const callbacks: Pick<WatchOptions, 'onUpdate' | 'onError'> = {
+      onUpdate: () => {},
+      onError: () => {},
+    };
+    const received = new Promise<WatchUpdate>((resolve, reject) => {
+      callbacks.onUpdate = resolve;
+      callbacks.onError = reject;
+    });
+    const watcher = await watchFiles(root, {
+      cwd: root,
+      debounce: 20,
+      onUpdate: (update) => callbacks.onUpdate(update),
+      onError: (error) => callbacks.onError(error),
+    });
+
+    try {
+      write('counter.ts', counter);
+      const update = await received;
+      expect(update.added.map((violation) => violation.filePath)).toEqual([file('counter.ts')]);
+    } finally {
+      watcher.close();
+    }
+  });
+});
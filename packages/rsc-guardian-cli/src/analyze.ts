@@ -1,157 +1,565 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { parse } from '@typescript-eslint/typescript-estree';
-import type { TSESTree } from '@typescript-eslint/types';
+import {
+  checkNextFile,
+  classifyNextFile,
+  createConfigResolver,
+  detectClientFeatures,
+  findServerModules,
+  getImportSpecifiers,
+  hasDirective,
+  isServerOnly,
+  parseModule,
+} from 'rsc-guardian-core';
+import type {
+  ClientFeature,
+  ConfigResolver,
+  FeatureCategory,
+  Framework,
+  NextConvention,
+  NextProblemKind,
+} from 'rsc-guardian-core';
+import { defaultCacheLocation, hashText, openCache } from './cache';
+import type { AnalysisCache } from './cache';
+import { collectFiles } from './files';
+import type { FileSelection } from './files';
+import { availableJobs, runInWorkers } from './pool';
 
-interface AnalysisResult {
+/**
+ * A client-only feature with its source location. Lines and columns are
+ * 1-based, as printed by editors and ESLint.
+ */
+export interface Finding {
+  category: FeatureCategory;
+  name: string;
+  reason: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface NextIssue {
+  /** A core Next.js problem, or `'server-only'` for client-only code in a route handler. */
+  kind: NextProblemKind | 'server-only';
+  message: string;
+  line: number;
+  column: number;
+}
+
+/** How Next.js treats a file, when analyzed with `framework: 'next-app'`. */
+export interface NextAnalysis {
+  router: 'app' | 'pages' | null;
+  convention: NextConvention | null;
+  /**
+   * Whether the module renders on the server: a special App Router file, or
+   * a module one of them imports before any `'use client'` boundary.
+   */
+  server: boolean;
+  issues: NextIssue[];
+}
+
+export interface AnalysisResult {
+  filePath: string;
   hasUseClient: boolean;
   hooks: string[];
   browserGlobals: string[];
   eventHandlers: string[];
+  /** Imports of the `clientPackages` in `rsc-guardian.config.*`. */
+  clientImports: string[];
+  features: Finding[];
+  next?: NextAnalysis;
+  /** Set when the file could not be parsed. */
+  error?: string;
+}
+
+export interface AnalysisSummary {
+  filesScanned: number;
+  filesWithUseClient: number;
+  filesMissingUseClient: number;
+  filesWithErrors: number;
+  categories: Record<FeatureCategory, { occurrences: number; files: number }>;
+}
+
+export interface SourceOptions {
+  /** Apply a framework's file conventions, e.g. `'next-app'` for the Next.js App Router. */
+  framework?: Framework;
+  /** Config file to use for every file instead of the nearest `rsc-guardian.config.*`. */
+  config?: string;
+  /** Reuse what was read from unchanged files in earlier runs (default: false). */
+  cache?: boolean;
+  /** Cache file (default: `node_modules/.cache/rsc-guardian/analysis.json`). */
+  cacheLocation?: string;
+  /**
+   * Worker threads `analyzeFiles` parses files in (default: one per CPU).
+   * `1` parses every file on the main thread.
+   */
+  jobs?: number;
+}
+
+export type AnalyzeOptions = FileSelection & SourceOptions;
+
+/**
+ * What analysis reads from a file's content, cached between runs. Whether
+ * the file renders on the server depends on other files, so it is derived
+ * from the facts of every file on each run instead.
+ */
+export interface FileFacts {
+  hasUseClient: boolean;
+  features: Finding[];
+  /** Import specifiers, resolved on every run since files come and go. */
+  imports: string[];
+  /** Problems of Next.js special files, with `framework: 'next-app'`. */
+  nextProblems?: Array<{ kind: NextProblemKind; name?: string; line: number; column: number }>;
+  /** Set when the file could not be read or parsed. */
+  error?: string;
 }
 
-const browserGlobals = new Set([
-  'window',
-  'document',
-  'localStorage',
-  'sessionStorage',
-  'navigator',
-  'location',
-  'history',
-  'alert',
-  'confirm',
-  'prompt',
-]);
+export interface FileAnalyzer {
+  analyze(filePath: string): AnalysisResult;
+  /** The import specifiers of a file, from the same parse as its analysis. */
+  imports(filePath: string): string[];
+  /** The files among `files` that still need parsing: neither analyzed yet nor cached. */
+  unread(files: string[]): string[];
+  /** Takes facts parsed elsewhere, e.g. in a worker, from content with the given hash. */
+  store(filePath: string, facts: FileFacts, hash: string | null): void;
+  /** Writes the cache, when enabled. */
+  save(): void;
+}
+
+// Server modules per Next.js project root, computed at most once per analysis run
+type ServerModuleLookup = (root: string) => Set<string>;
 
-function isHook(name: string): boolean {
-  return name.startsWith('use') && name.length > 3 && name[3] === name[3].toUpperCase();
+function createServerModuleLookup(readFacts: (filePath: string) => FileFacts): ServerModuleLookup {
+  const byRoot = new Map<string, Set<string>>();
+  return (root) => {
+    let modules = byRoot.get(root);
+    if (!modules) {
+      modules = findServerModules(root, { readModule: readFacts });
+      byRoot.set(root, modules);
+    }
+    return modules;
+  };
 }
 
-function isEventHandler(name: string): boolean {
-  return name.startsWith('on') && name.length > 2 && name[2] === name[2].toUpperCase();
+// Project-wide state shared by every file of an analysis run
+interface AnalysisLookups {
+  serverModules: ServerModuleLookup;
+  config: ConfigResolver;
+  /** The facts of a file on disk, read at most once per run. */
+  facts(filePath: string): FileFacts;
+  /** The files among `files` that are neither read in this run nor cached. */
+  unread(files: string[]): string[];
+  /** Takes facts read elsewhere, e.g. in a worker, from content with the given hash. */
+  store(filePath: string, facts: FileFacts, hash: string | null): void;
+  cache: AnalysisCache | null;
 }
 
-function analyzeAST(ast: TSESTree.Program): AnalysisResult {
-  const result: AnalysisResult = {
+function errorFacts(error: unknown): FileFacts {
+  return {
     hasUseClient: false,
-    hooks: [],
-    browserGlobals: [],
-    eventHandlers: [],
+    features: [],
+    imports: [],
+    error: error instanceof Error ? error.message : String(error),
   };
+}
 
-  const hooksSet = new Set<string>();
-  const browserGlobalsSet = new Set<string>();
-  const eventHandlersSet = new Set<string>();
+export function readFacts(
+  code: string,
+  filePath: string,
+  options: SourceOptions,
+  config: ConfigResolver
+): FileFacts {
+  try {
+    const ast = parseModule(code, filePath);
+    const registry = config.registryFor(filePath);
+    const nextFile = options.framework === 'next-app' ? classifyNextFile(filePath) : null;
+    return {
+      hasUseClient: hasDirective(ast, 'use client'),
+      features: detectClientFeatures(ast, { registry }).map(toFinding),
+      imports: getImportSpecifiers(ast),
+      ...(nextFile
+        ? {
+            nextProblems: checkNextFile(ast, nextFile).map((problem) => ({
+              kind: problem.kind,
+              name: problem.name,
+              line: problem.node.loc.start.line,
+              column: problem.node.loc.start.column + 1,
+            })),
+          }
+        : {}),
+    };
+  } catch (error) {
+    return errorFacts(error);
+  }
+}
+
+/** Reads and parses a file, with the hash of the content its facts were read from. */
+export function readFileFacts(
+  filePath: string,
+  options: SourceOptions,
+  config: ConfigResolver
+): { hash: string | null; facts: FileFacts } {
+  let code: string;
+  try {
+    code = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    return { hash: null, facts: errorFacts(error) };
+  }
+  return { hash: hashText(code), facts: readFacts(code, filePath, options, config) };
+}
 
-  // Check for 'use client' directive
-  if (ast.body[0]?.type === 'ExpressionStatement') {
-    const expr = ast.body[0].expression;
-    if (expr.type === 'Literal' && expr.value === 'use client') {
-      result.hasUseClient = true;
+/** Everything besides the content that facts depend on. */
+function settingsKey(filePath: string, options: SourceOptions, config: ConfigResolver): string {
+  const nextFile = options.framework === 'next-app' ? classifyNextFile(filePath) : null;
+  return hashText(
+    JSON.stringify([
+      options.framework ?? null,
+      config.settingsFor(filePath),
+      nextFile && [nextFile.router, nextFile.convention, nextFile.root],
+    ])
+  );
+}
+
+function createLookups(options: SourceOptions): AnalysisLookups {
+  const config = createConfigResolver({ config: options.config });
+  const cache = options.cache ? openCache(options.cacheLocation ?? defaultCacheLocation) : null;
+  const factsByFile = new Map<string, FileFacts>();
+
+  // Null for an invalid config file, which readFacts reports for every file it applies to
+  function settingsOf(filePath: string): string | null {
+    try {
+      return settingsKey(filePath, options, config);
+    } catch {
+      return null;
     }
   }
 
-  function traverse(node: TSESTree.Node): void {
-    // Check for hooks in call expressions
-    if (node.type === 'CallExpression') {
-      const callee = node.callee;
-      if (callee.type === 'Identifier' && isHook(callee.name)) {
-        hooksSet.add(callee.name);
-      } else if (
-        callee.type === 'MemberExpression' &&
-        callee.property.type === 'Identifier' &&
-        isHook(callee.property.name)
-      ) {
-        hooksSet.add(callee.property.name);
-      }
+  function cached(filePath: string, hash: string): FileFacts | undefined {
+    const settings = cache ? settingsOf(filePath) : null;
+    return settings ? cache?.get(filePath, hash, settings) : undefined;
+  }
+
+  function store(filePath: string, facts: FileFacts, hash: string | null): FileFacts {
+    const settings = cache && hash ? settingsOf(filePath) : null;
+    if (cache && hash && settings) {
+      cache.set(filePath, hash, settings, facts);
     }
+    factsByFile.set(filePath, facts);
+    return facts;
+  }
 
-    // Check for browser globals
-    if (node.type === 'Identifier' && browserGlobals.has(node.name)) {
-      browserGlobalsSet.add(node.name);
+  function load(filePath: string): FileFacts {
+    let code: string;
+    try {
+      code = fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      return errorFacts(error);
     }
+    if (!cache) {
+      return readFacts(code, filePath, options, config);
+    }
+    const hash = hashText(code);
+    return (
+      cached(filePath, hash) ?? store(filePath, readFacts(code, filePath, options, config), hash)
+    );
+  }
 
-    // Check for event handlers in JSX
-    if (node.type === 'JSXAttribute' && node.name.type === 'JSXIdentifier') {
-      const name = node.name.name;
-      if (isEventHandler(name)) {
-        eventHandlersSet.add(name);
-      }
+  function facts(filePath: string): FileFacts {
+    let result = factsByFile.get(filePath);
+    if (!result) {
+      result = load(filePath);
+      factsByFile.set(filePath, result);
     }
+    return result;
+  }
 
-    // Recursively traverse children
-    for (const key in node) {
-      const value = (node as any)[key];
-      if (value && typeof value === 'object') {
-        if (Array.isArray(value)) {
-          value.forEach((item) => {
-            if (item && typeof item === 'object' && item.type) {
-              traverse(item);
-            }
-          });
-        } else if (value.type) {
-          traverse(value);
+  return {
+    serverModules: createServerModuleLookup(facts),
+    config,
+    facts,
+    unread(files) {
+      return files.filter((filePath) => {
+        if (factsByFile.has(filePath)) {
+          return false;
+        }
+        if (!cache) {
+          return true;
+        }
+        let hit: FileFacts | undefined;
+        try {
+          hit = cached(filePath, hashText(fs.readFileSync(filePath, 'utf-8')));
+        } catch {
+          // Left to the parser, which reports why the file can't be read
+        }
+        if (hit) {
+          factsByFile.set(filePath, hit);
         }
-      }
+        return !hit;
+      });
+    },
+    store,
+    cache,
+  };
+}
+
+const nextMessages: Record<NextProblemKind, (convention: string, name?: string) => string> = {
+  'client-convention': (convention) =>
+    `Next.js renders ${convention} files on the client. Add 'use client' at the top of the file.`,
+  'route-use-client': () => "Route handlers run only on the server. Remove 'use client'.",
+  'client-metadata': (convention, name) =>
+    `'${name}' is only supported in server components. Remove 'use client' from this ${convention} or move the client code into its own component.`,
+};
+
+export const categoryOrder: FeatureCategory[] = [
+  'hook',
+  'browser-global',
+  'event-handler',
+  'class-component',
+  'create-context',
+  'react-dom-api',
+  'client-import',
+];
+
+export function toFinding(feature: ClientFeature): Finding {
+  return {
+    category: feature.category,
+    name: feature.name,
+    reason: feature.reason,
+    line: feature.loc.start.line,
+    column: feature.loc.start.column + 1,
+    endLine: feature.loc.end.line,
+    endColumn: feature.loc.end.column + 1,
+  };
+}
+
+function analyzeNext(
+  filePath: string,
+  facts: FileFacts,
+  serverModules: ServerModuleLookup
+): NextAnalysis | undefined {
+  const file = classifyNextFile(filePath);
+  if (!file) {
+    return undefined;
+  }
+
+  const { router, convention } = file;
+  const problems = facts.nextProblems ?? [];
+  let server = false;
+  if (router !== 'pages' && !facts.hasUseClient) {
+    // Special files render on the server unless Next.js requires them on the client
+    server = convention
+      ? problems.length === 0
+      : serverModules(file.root).has(path.resolve(filePath));
+  }
+
+  const issues: NextIssue[] = problems.map((problem) => ({
+    kind: problem.kind,
+    message: nextMessages[problem.kind](convention ?? 'file', problem.name),
+    line: problem.line,
+    column: problem.column,
+  }));
+  if (server && isServerOnly(convention)) {
+    for (const feature of facts.features) {
+      issues.push({
+        kind: 'server-only',
+        message: `Client-only feature '${feature.name}' used in a route handler. Route handlers run only on the server.`,
+        line: feature.line,
+        column: feature.column,
+      });
     }
   }
 
-  traverse(ast);
+  return { router, convention, server, issues };
+}
+
+function errorResult(filePath: string, error: unknown): AnalysisResult {
+  return {
+    filePath,
+    hasUseClient: false,
+    hooks: [],
+    browserGlobals: [],
+    eventHandlers: [],
+    clientImports: [],
+    features: [],
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
 
-  result.hooks = Array.from(hooksSet).sort();
-  result.browserGlobals = Array.from(browserGlobalsSet).sort();
-  result.eventHandlers = Array.from(eventHandlersSet).sort();
+function analyzeFacts(
+  facts: FileFacts,
+  filePath: string,
+  options: SourceOptions,
+  lookups: AnalysisLookups
+): AnalysisResult {
+  if (facts.error) {
+    return errorResult(filePath, facts.error);
+  }
+  const { features } = facts;
+  const namesFor = (category: FeatureCategory) =>
+    Array.from(new Set(features.filter((f) => f.category === category).map((f) => f.name))).sort();
 
-  return result;
+  try {
+    return {
+      filePath,
+      hasUseClient: facts.hasUseClient,
+      hooks: namesFor('hook'),
+      browserGlobals: namesFor('browser-global'),
+      eventHandlers: namesFor('event-handler'),
+      clientImports: namesFor('client-import'),
+      features,
+      ...(options.framework === 'next-app'
+        ? { next: analyzeNext(filePath, facts, lookups.serverModules) }
+        : {}),
+    };
+  } catch (error) {
+    return errorResult(filePath, error);
+  }
 }
 
-export async function analyze(filePath: string): Promise<void> {
+function analyzeFileWith(
+  filePath: string,
+  options: SourceOptions,
+  lookups: AnalysisLookups
+): AnalysisResult {
   const absolutePath = path.resolve(filePath);
-  
+
   if (!fs.existsSync(absolutePath)) {
     throw new Error(`File not found: ${absolutePath}`);
   }
 
-  const content = fs.readFileSync(absolutePath, 'utf-8');
-  const ast = parse(content, {
-    jsx: true,
-    loc: true,
-  });
+  return analyzeFacts(lookups.facts(absolutePath), absolutePath, options, lookups);
+}
 
-  const result = analyzeAST(ast);
+/**
+ * Analyzes source code that is not (or not yet) on disk. `filePath` picks
+ * the parser mode (`.ts` vs `.tsx`) and is echoed in the result. Parse
+ * errors are returned in `error` rather than thrown.
+ */
+export function analyzeSource(
+  code: string,
+  filePath = 'component.tsx',
+  options: SourceOptions = {}
+): AnalysisResult {
+  const lookups = createLookups({ ...options, cache: false });
+  const facts = readFacts(code, filePath, options, lookups.config);
+  return analyzeFacts(facts, filePath, options, lookups);
+}
 
-  console.log(`\nAnalysis for: ${filePath}\n`);
-  console.log('─'.repeat(50));
-  console.log(`'use client' directive: ${result.hasUseClient ? '✓ Present' : '✗ Missing'}`);
-  console.log(`\nDetected Hooks (${result.hooks.length}):`);
-  
-  if (result.hooks.length > 0) {
-    result.hooks.forEach((hook) => console.log(`  - ${hook}`));
-  } else {
-    console.log('  (none)');
+/**
+ * Returns an analyzer that shares lookups and the cache between files, so
+ * the Next.js import graph is computed once. Create a new one once files
+ * have changed, e.g. for each batch of changes in watch mode.
+ */
+export function createFileAnalyzer(options: SourceOptions = {}): FileAnalyzer {
+  const lookups = createLookups(options);
+  return {
+    analyze: (filePath) => analyzeFileWith(filePath, options, lookups),
+    imports: (filePath) => lookups.facts(path.resolve(filePath)).imports,
+    unread: (files) => lookups.unread(files),
+    store: (filePath, facts, hash) => lookups.store(filePath, facts, hash),
+    save: () => lookups.cache?.save(),
+  };
+}
+
+export function analyzeFile(filePath: string, options: SourceOptions = {}): AnalysisResult {
+  const analyzer = createFileAnalyzer(options);
+  const result = analyzer.analyze(filePath);
+  analyzer.save();
+  return result;
+}
+
+// Each worker loads its own TypeScript parser, which only pays off for enough files
+const minFilesPerWorker = 50;
+
+// Compiled next to this file; missing when running from sources, e.g. in tests
+const workerScript = path.join(__dirname, 'worker.js');
+
+/**
+ * Parses the files the analyzer hasn't read yet on a pool of worker
+ * threads. The results are handed to the analyzer, which then assembles
+ * them on the main thread in path order.
+ */
+async function parseInWorkers(
+  files: string[],
+  analyzer: FileAnalyzer,
+  options: SourceOptions
+): Promise<void> {
+  const jobs = options.jobs ?? availableJobs();
+  if (jobs < 2 || files.length < 2 * minFilesPerWorker || !fs.existsSync(workerScript)) {
+    return;
   }
-  
-  console.log(`\nDetected Browser Globals (${result.browserGlobals.length}):`);
-  
-  if (result.browserGlobals.length > 0) {
-    result.browserGlobals.forEach((global) => console.log(`  - ${global}`));
-  } else {
-    console.log('  (none)');
+  const unread = analyzer.unread(files);
+  const size = Math.min(jobs, Math.floor(unread.length / minFilesPerWorker));
+  if (size < 2) {
+    return;
   }
-  
-  console.log(`\nDetected Event Handlers (${result.eventHandlers.length}):`);
-  
-  if (result.eventHandlers.length > 0) {
-    result.eventHandlers.forEach((handler) => console.log(`  - ${handler}`));
-  } else {
-    console.log('  (none)');
+
+  const parsed = await runInWorkers<string, { hash: string | null; facts: FileFacts }>(unread, {
+    script: workerScript,
+    size,
+    workerData: { framework: options.framework, config: options.config },
+  });
+  unread.forEach((file, index) => analyzer.store(file, parsed[index].facts, parsed[index].hash));
+}
+
+/**
+ * Expands files, directories and globs (see `collectFiles`) and analyzes
+ * every match, in path order. With `cache`, files whose content and
+ * settings are unchanged since the last run are not parsed again. Large
+ * projects are parsed on `jobs` worker threads.
+ */
+export async function analyzeFiles(
+  inputs: string | string[],
+  options: AnalyzeOptions = {}
+): Promise<AnalysisResult[]> {
+  const patterns = Array.isArray(inputs) ? inputs : [inputs];
+  const files = await collectFiles(patterns, options);
+
+  if (files.length === 0) {
+    throw new Error(`No files matched: ${patterns.join(', ')}`);
   }
-  
-  console.log('─'.repeat(50));
 
-  if (!result.hasUseClient && (result.hooks.length > 0 || result.browserGlobals.length > 0 || result.eventHandlers.length > 0)) {
-    console.log('\n⚠️  This file uses client-only features but is missing "use client" directive.');
-    console.log('   Consider running: rsc-guardian split <file> --dry-run\n');
+  const analyzer = createFileAnalyzer(options);
+  await parseInWorkers(files, analyzer, options);
+  const results = files.map((file) => analyzer.analyze(file));
+  analyzer.save();
+  return results;
+}
+
+/**
+ * True when the file renders on the server but uses client-only features,
+ * or is a Next.js special file that must be a client component.
+ */
+export function isMissingUseClient(result: AnalysisResult): boolean {
+  if (result.next) {
+    if (result.next.issues.some((issue) => issue.kind === 'client-convention')) {
+      return true;
+    }
+    if (!result.next.server || isServerOnly(result.next.convention)) {
+      return false;
+    }
   }
+  return !result.hasUseClient && result.features.length > 0;
 }
 
+export function summarize(results: AnalysisResult[]): AnalysisSummary {
+  const categories = {} as AnalysisSummary['categories'];
+  for (const category of categoryOrder) {
+    categories[category] = {
+      occurrences: results.reduce(
+        (count, r) => count + r.features.filter((f) => f.category === category).length,
+        0
+      ),
+      files: results.filter((r) => r.features.some((f) => f.category === category)).length,
+    };
+  }
+
+  return {
+    filesScanned: results.length,
+    filesWithUseClient: results.filter((r) => r.hasUseClient).length,
+    filesMissingUseClient: results.filter(isMissingUseClient).length,
+    filesWithErrors: results.filter((r) => r.error).length,
+    categories,
+  };
+}
@@ -0,0 +1,89 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FileFacts } from './analyze';
+import { coreVersion, version } from './version';
+
+export const defaultCacheLocation = 'node_modules/.cache/rsc-guardian/analysis.json';
+
+/** Bump when `FileFacts` or the file layout change, so older caches are dropped. */
+const cacheRevision = 1;
+
+interface CacheEntry {
+  /** Hash of the file's content. */
+  hash: string;
+  /** Hash of the settings the file was analyzed with. */
+  settings: string;
+  facts: FileFacts;
+}
+
+export interface AnalysisCache {
+  /** The facts of a file, if they were stored for the same content and settings. */
+  get(filePath: string, hash: string, settings: string): FileFacts | undefined;
+  set(filePath: string, hash: string, settings: string, facts: FileFacts): void;
+  /** Writes the cache if entries were added, dropping files that no longer exist. */
+  save(): void;
+}
+
+export function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Opens the cache file at `location`. A missing or unreadable cache, or one
+ * written by another version of the CLI or rsc-guardian-core or in another
+ * format, starts out empty and is replaced on save.
+ */
+export function openCache(location: string): AnalysisCache {
+  const cachePath = path.resolve(location);
+  let entries = new Map<string, CacheEntry>();
+  try {
+    const data = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+    if (
+      data?.revision === cacheRevision &&
+      data.version === version &&
+      data.core === coreVersion &&
+      typeof data.files === 'object' &&
+      data.files !== null
+    ) {
+      entries = new Map(Object.entries(data.files));
+    }
+  } catch {
+    // Rebuilt from scratch
+  }
+  let changed = false;
+
+  return {
+    get(filePath, hash, settings) {
+      const entry = entries.get(filePath);
+      return entry?.hash === hash && entry.settings === settings ? entry.facts : undefined;
+    },
+
+    set(filePath, hash, settings, facts) {
+      entries.set(filePath, { hash, settings, facts });
+      changed = true;
+    },
+
+    save() {
+      if (!changed) {
+        return;
+      }
+      for (const filePath of entries.keys()) {
+        if (!fs.existsSync(filePath)) {
+          entries.delete(filePath);
+        }
+      }
+      fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+      fs.writeFileSync(
+        cachePath,
+        JSON.stringify({
+          revision: cacheRevision,
+          version,
+          core: coreVersion,
+          files: Object.fromEntries(entries),
+        })
+      );
+      changed = false;
+    },
+  };
+}
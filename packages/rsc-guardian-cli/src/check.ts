@@ -0,0 +1,251 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FeatureCategory } from 'rsc-guardian-core';
+import { analyzeFiles, isMissingUseClient } from './analyze';
+import type { AnalysisResult, AnalyzeOptions } from './analyze';
+
+export type Severity = 'error' | 'warning';
+
+/** A boundary violation that `check` reports. Lines and columns are 1-based. */
+export interface Violation {
+  filePath: string;
+  /** `client-feature/<category>` or `next/<kind>`, as in the SARIF output. */
+  ruleId: string;
+  severity: Severity;
+  message: string;
+  line: number;
+  column: number;
+  /**
+   * Identifies the violation across unrelated edits: it is derived from the
+   * file, rule, name and the text of the line, not from line numbers.
+   */
+  fingerprint: string;
+}
+
+export interface BaselineEntry {
+  fingerprint: string;
+  /** Informational, so the baseline can be reviewed; matching only uses the fingerprint. */
+  file: string;
+  ruleId: string;
+}
+
+export interface Baseline {
+  version: 1;
+  violations: BaselineEntry[];
+}
+
+export interface CheckOptions extends AnalyzeOptions {
+  /** Categories reported as warnings instead of errors. */
+  warn?: FeatureCategory[];
+  /** Baseline file whose violations are not reported. Ignored when it doesn't exist. */
+  baseline?: string;
+  /** Record every current violation in `baseline` instead of reading it. */
+  updateBaseline?: boolean;
+}
+
+export interface CheckResult {
+  /** Violations that are not in the baseline. */
+  violations: Violation[];
+  /** Files that could not be parsed. */
+  errors: Array<{ filePath: string; message: string }>;
+  /** Violations matched by the baseline. */
+  baselined: number;
+  /** Baseline entries that no longer match a violation, e.g. after a fix. */
+  fixed: number;
+}
+
+export const defaultBaseline = 'rsc-guardian-baseline.json';
+
+/** Exit codes of `rsc-guardian check`. */
+export const exitCodes = {
+  ok: 0,
+  violations: 1,
+  error: 2,
+} as const;
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+function fingerprint(parts: string[]): string {
+  return createHash('sha256').update(parts.join('\0')).digest('hex').slice(0, 16);
+}
+
+/**
+ * The violations of analyzed files: client-only features in files that
+ * render on the server without `'use client'`, and Next.js file convention
+ * problems. Fingerprints use paths relative to `root`.
+ */
+export function collectViolations(
+  results: AnalysisResult[],
+  options: { warn?: FeatureCategory[]; root: string }
+): Violation[] {
+  const warn = new Set(options.warn ?? []);
+  const violations: Violation[] = [];
+
+  for (const result of results) {
+    if (result.error) {
+      continue;
+    }
+    const file = toPosix(path.relative(options.root, result.filePath));
+    let lines: string[] = [];
+    try {
+      lines = fs.readFileSync(result.filePath, 'utf-8').split(/\r?\n/);
+    } catch {
+      // Results of `analyzeSource` have no file; fingerprints then use the location alone
+    }
+    // Identical lines in a file get the same fingerprint, counted apart by their order
+    const seen = new Map<string, number>();
+    const add = (violation: Omit<Violation, 'fingerprint'>, name: string) => {
+      const key = fingerprint([
+        file,
+        violation.ruleId,
+        name,
+        (lines[violation.line - 1] ?? '').trim(),
+      ]);
+      const occurrence = seen.get(key) ?? 0;
+      seen.set(key, occurrence + 1);
+      violations.push({ ...violation, fingerprint: fingerprint([key, String(occurrence)]) });
+    };
+
+    // Next.js reports a missing 'use client' in error files as a convention problem
+    const clientConvention = result.next?.issues.some(
+      (issue) => issue.kind === 'client-convention'
+    );
+    if (isMissingUseClient(result) && !clientConvention) {
+      for (const feature of result.features) {
+        add(
+          {
+            filePath: result.filePath,
+            ruleId: `client-feature/${feature.category}`,
+            severity: warn.has(feature.category) ? 'warning' : 'error',
+            message: `${feature.reason} Add 'use client' or split into a client component.`,
+            line: feature.line,
+            column: feature.column,
+          },
+          feature.name
+        );
+      }
+    }
+    for (const issue of result.next?.issues ?? []) {
+      add(
+        {
+          filePath: result.filePath,
+          ruleId: `next/${issue.kind}`,
+          severity: 'error',
+          message: issue.message,
+          line: issue.line,
+          column: issue.column,
+        },
+        issue.message
+      );
+    }
+  }
+
+  return violations;
+}
+
+export function readBaseline(baselinePath: string): Baseline | null {
+  if (!fs.existsSync(baselinePath)) {
+    return null;
+  }
+  let baseline: unknown;
+  try {
+    baseline = JSON.parse(fs.readFileSync(baselinePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Could not read baseline ${baselinePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  if (
+    typeof baseline !== 'object' ||
+    baseline === null ||
+    !('violations' in baseline) ||
+    !Array.isArray(baseline.violations)
+  ) {
+    throw new Error(`${baselinePath} is not an rsc-guardian baseline`);
+  }
+  return baseline as Baseline;
+}
+
+/** Records `violations` so later runs only report new ones. Paths are relative to the baseline. */
+export function writeBaseline(baselinePath: string, violations: Violation[]): Baseline {
+  const root = path.dirname(path.resolve(baselinePath));
+  const baseline: Baseline = {
+    version: 1,
+    violations: violations
+      .map((violation) => ({
+        fingerprint: violation.fingerprint,
+        file: toPosix(path.relative(root, violation.filePath)),
+        ruleId: violation.ruleId,
+      }))
+      .sort((a, b) => a.file.localeCompare(b.file) || a.fingerprint.localeCompare(b.fingerprint)),
+  };
+  fs.writeFileSync(baselinePath, `${JSON.stringify(baseline, null, 2)}\n`, 'utf-8');
+  return baseline;
+}
+
+/** Splits violations into new ones and ones the baseline already records. */
+export function applyBaseline(
+  violations: Violation[],
+  baseline: Baseline | null
+): Pick<CheckResult, 'violations' | 'baselined' | 'fixed'> {
+  const known = new Set(baseline?.violations.map((entry) => entry.fingerprint));
+  const remaining = violations.filter((violation) => !known.has(violation.fingerprint));
+  const matched = new Set(violations.map((violation) => violation.fingerprint));
+  return {
+    violations: remaining,
+    baselined: violations.length - remaining.length,
+    fixed: (baseline?.violations ?? []).filter((entry) => !matched.has(entry.fingerprint)).length,
+  };
+}
+
+/**
+ * Analyzes files and returns the violations that are not in the baseline.
+ * Fingerprints are relative to the baseline's directory, or the working
+ * directory without one.
+ */
+export async function checkFiles(
+  inputs: string | string[],
+  options: CheckOptions = {}
+): Promise<CheckResult> {
+  const results = await analyzeFiles(inputs, options);
+  const root = options.baseline
+    ? path.dirname(path.resolve(options.baseline))
+    : path.resolve(options.cwd ?? process.cwd());
+  const violations = collectViolations(results, { warn: options.warn, root });
+  const errors = results
+    .filter((result) => result.error)
+    .map((result) => ({ filePath: result.filePath, message: result.error ?? '' }));
+
+  if (options.updateBaseline) {
+    if (!options.baseline) {
+      throw new Error('A baseline file is required to update the baseline');
+    }
+    writeBaseline(options.baseline, violations);
+    return { violations: [], errors, baselined: violations.length, fixed: 0 };
+  }
+  return {
+    ...applyBaseline(violations, options.baseline ? readBaseline(options.baseline) : null),
+    errors,
+  };
+}
+
+/**
+ * `error` when files could not be analyzed, `violations` for new errors or
+ * more warnings than `maxWarnings` (unlimited when negative), `ok` otherwise.
+ */
+export function checkExitCode(result: CheckResult, maxWarnings = -1): number {
+  if (result.errors.length > 0) {
+    return exitCodes.error;
+  }
+  const warnings = result.violations.filter((violation) => violation.severity === 'warning');
+  if (
+    warnings.length < result.violations.length ||
+    (maxWarnings >= 0 && warnings.length > maxWarnings)
+  ) {
+    return exitCodes.violations;
+  }
+  return exitCodes.ok;
+}
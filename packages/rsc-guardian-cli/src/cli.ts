@@ -0,0 +1,253 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Command, InvalidArgumentError, Option } from 'commander';
+import { analyzeImportGraph, createConfigResolver, frameworks } from 'rsc-guardian-core';
+import { analyzeFiles, categoryOrder } from './analyze';
+import type { AnalyzeOptions } from './analyze';
+import { defaultCacheLocation } from './cache';
+import { checkExitCode, checkFiles, defaultBaseline, exitCodes } from './check';
+import type { CheckOptions } from './check';
+import {
+  formatCheck,
+  formatGraph,
+  formatResults,
+  formatSplitDiff,
+  formatSplitPatch,
+  formatWatchUpdate,
+} from './formatters';
+import type { OutputFormat } from './formatters';
+import { applySplit, importerModes, planSplit, splitStrategies } from './split';
+import type { SplitOptions } from './split';
+import { version } from './version';
+import { watchFiles } from './watch';
+
+type SplitCommandOptions = SplitOptions & {
+  apply?: boolean;
+  dryRun?: boolean;
+  patch?: string;
+  force?: boolean;
+};
+
+type AnalyzeCommandOptions = AnalyzeOptions & {
+  format: OutputFormat;
+  watch?: boolean;
+};
+
+type CheckCommandOptions = CheckOptions & {
+  format: 'text' | 'json';
+  maxWarnings: number;
+};
+
+function parseInteger(value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number)) {
+    throw new InvalidArgumentError('Not an integer.');
+  }
+  return number;
+}
+
+const program = new Command();
+
+program
+  .name('rsc-guardian')
+  .description('Analyze and split React Server Components')
+  .version(version);
+
+program
+  .command('analyze')
+  .description('Analyze files for client-only features')
+  .argument('<paths...>', 'Files, directories or glob patterns to analyze')
+  .option('--include <patterns...>', 'Globs used to expand directories (default: all JS/TS sources)')
+  .option('--exclude <patterns...>', 'Globs to skip')
+  .option('--no-gitignore', 'Also analyze files ignored by .gitignore')
+  .addOption(
+    new Option('--format <format>', 'Output format').choices(['text', 'json', 'sarif']).default('text')
+  )
+  .addOption(
+    new Option('--framework <name>', 'Apply framework file conventions').choices([...frameworks])
+  )
+  .option('--config <path>', 'Config file to use (default: nearest rsc-guardian.config.*)')
+  .option('--no-cache', 'Parse every file instead of reusing results of earlier runs')
+  .option('--cache-location <path>', `Cache file (default: ${defaultCacheLocation})`)
+  .option(
+    '--jobs <number>',
+    'Worker threads to parse files in (default: one per CPU)',
+    parseInteger
+  )
+  .option('--watch', 'Re-analyze changed files and print new and resolved violations')
+  .action(async (paths: string[], options: AnalyzeCommandOptions) => {
+    try {
+      if (options.watch) {
+        if (options.format !== 'text') {
+          throw new Error('--watch only supports --format text');
+        }
+        const cwd = process.cwd();
+        const { session } = await watchFiles(paths, {
+          ...options,
+          onUpdate: (update) => console.log(formatWatchUpdate(update, cwd)),
+          onError: (error) =>
+            console.error('Error:', error instanceof Error ? error.message : String(error)),
+        });
+        console.log(formatResults(session.results(), 'text', cwd));
+        console.log('\nWatching for changes. Press Ctrl+C to stop.');
+        return;
+      }
+      const results = await analyzeFiles(paths, options);
+      console.log(formatResults(results, options.format, process.cwd()));
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('check')
+  .description('Check files for boundary violations and exit non-zero for CI')
+  .argument('[paths...]', 'Files, directories or glob patterns to check', ['.'])
+  .option(
+    '--include <patterns...>',
+    'Globs used to expand directories (default: all JS/TS sources)'
+  )
+  .option('--exclude <patterns...>', 'Globs to skip')
+  .option('--no-gitignore', 'Also check files ignored by .gitignore')
+  .addOption(
+    new Option('--framework <name>', 'Apply framework file conventions').choices([...frameworks])
+  )
+  .option('--config <path>', 'Config file to use (default: nearest rsc-guardian.config.*)')
+  .addOption(
+    new Option('--warn <categories...>', 'Report these categories as warnings').choices(
+      categoryOrder
+    )
+  )
+  .option('--no-cache', 'Parse every file instead of reusing results of earlier runs')
+  .option('--cache-location <path>', `Cache file (default: ${defaultCacheLocation})`)
+  .option(
+    '--jobs <number>',
+    'Worker threads to parse files in (default: one per CPU)',
+    parseInteger
+  )
+  .option('--max-warnings <number>', 'Fail when there are more warnings', parseInteger, -1)
+  .option(
+    '--baseline <file>',
+    'Violations to ignore, recorded by --update-baseline',
+    defaultBaseline
+  )
+  .option('--update-baseline', 'Record the current violations in the baseline and exit')
+  .addOption(
+    new Option('--format <format>', 'Output format').choices(['text', 'json']).default('text')
+  )
+  // Usage errors are errors too, not violations
+  .exitOverride((error) => process.exit(error.exitCode === 0 ? 0 : exitCodes.error))
+  .action(async (paths: string[], options: CheckCommandOptions) => {
+    try {
+      const result = await checkFiles(paths, options);
+      if (options.updateBaseline) {
+        const count = result.baselined;
+        console.log(
+          `✓ Recorded ${count} violation${count === 1 ? '' : 's'} in ${options.baseline}`
+        );
+        process.exitCode = result.errors.length > 0 ? exitCodes.error : exitCodes.ok;
+        return;
+      }
+      console.log(formatCheck(result, options.format, process.cwd()));
+      process.exitCode = checkExitCode(result, options.maxWarnings);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(exitCodes.error);
+    }
+  });
+
+program
+  .command('graph')
+  .description('Follow imports from entry files and find server-reachable client-only code')
+  .argument('<entries...>', 'Entry files (server components) to start from')
+  .option('--tsconfig <path>', 'tsconfig.json to read path aliases from (default: nearest)')
+  .option('--config <path>', 'Config file to use (default: nearest rsc-guardian.config.*)')
+  .action(async (entries: string[], options: { tsconfig?: string; config?: string }) => {
+    try {
+      for (const entry of entries) {
+        if (!fs.existsSync(path.resolve(entry))) {
+          throw new Error(`File not found: ${path.resolve(entry)}`);
+        }
+      }
+      const result = analyzeImportGraph(entries, {
+        tsconfig: options.tsconfig,
+        config: createConfigResolver({ config: options.config }),
+      });
+      console.log(formatGraph(entries, result, process.cwd()));
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('split')
+  .description('Split a component into server and client files')
+  .argument('<file>', 'File path to split')
+  .option('--apply', 'Apply the changes (write files)')
+  .option('--dry-run', 'Show diff without applying changes', true)
+  .addOption(
+    new Option('--strategy <name>', 'Move the whole component, or only its interactive JSX')
+      .choices([...splitStrategies])
+      .default('component')
+  )
+  .addOption(
+    new Option('--importers <mode>', 'Rewrite importers, or keep a re-export facade')
+      .choices([...importerModes])
+      .default('rewrite')
+  )
+  .option('--server-file <template>', 'Server file path template (default: {name}.server{ext})')
+  .option('--client-file <template>', 'Client file path template (default: {name}.client{ext})')
+  .option('--client-name <template>', 'Client component name (default: {Name}Client)')
+  .option('--root <dir>', 'Directory to search for importers (default: nearest package.json)')
+  .option('--tsconfig <path>', 'tsconfig.json to read path aliases from (default: nearest)')
+  .option('--config <path>', 'Config file to use (default: nearest rsc-guardian.config.*)')
+  .option('--patch <file>', 'Write the changes as a patch for git apply instead of printing them')
+  .option('--force', 'Overwrite existing .server/.client files')
+  .action(async (file: string, options: SplitCommandOptions) => {
+    try {
+      const plan = planSplit(file, {
+        strategy: options.strategy,
+        importers: options.importers,
+        serverFile: options.serverFile,
+        clientFile: options.clientFile,
+        clientName: options.clientName,
+        root: options.root,
+        tsconfig: options.tsconfig,
+        config: options.config,
+      });
+
+      if (!plan.needsSplit) {
+        console.log('No client-only features detected. No split needed.');
+        return;
+      }
+      if (plan.conflicts.length > 0 && !options.force && (options.apply || options.patch)) {
+        throw new Error(
+          `Refusing to overwrite existing files: ${plan.conflicts.join(', ')}. Use --force to overwrite them.`
+        );
+      }
+
+      if (options.patch) {
+        fs.writeFileSync(options.patch, formatSplitPatch(plan, process.cwd()), 'utf-8');
+        console.log(`✓ Wrote patch to ${options.patch}`);
+      }
+      if (options.apply) {
+        applySplit(plan, { force: options.force });
+        for (const edit of plan.edits) {
+          const action = { create: 'Created', update: 'Updated', delete: 'Deleted' }[edit.kind];
+          console.log(`✓ ${action} ${edit.filePath}`);
+        }
+      } else if (!options.patch) {
+        console.log(formatSplitDiff(plan, process.cwd()));
+      }
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program.parse();
+
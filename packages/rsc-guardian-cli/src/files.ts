@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import fg from 'fast-glob';
+import ignore from 'ignore';
+import type { Ignore } from 'ignore';
+
+export interface FileSelection {
+  /** Globs used to expand directory arguments. */
+  include?: string[];
+  /** Globs removed from every match, including explicitly named files. */
+  exclude?: string[];
+  /** Skip files matched by `.gitignore` files (default: true). */
+  gitignore?: boolean;
+  cwd?: string;
+}
+
+export const defaultInclude = ['**/*.{ts,tsx,js,jsx,mjs,cjs}'];
+
+const alwaysExclude = ['**/node_modules/**', '**/*.d.ts'];
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+/**
+ * Checks files against every `.gitignore` between the file and the
+ * repository root (the nearest directory containing `.git`).
+ */
+function createGitignoreFilter(): (file: string) => boolean {
+  const ignoreByDir = new Map<string, Ignore | null>();
+
+  function load(dir: string): Ignore | null {
+    if (!ignoreByDir.has(dir)) {
+      const gitignorePath = path.join(dir, '.gitignore');
+      ignoreByDir.set(
+        dir,
+        fs.existsSync(gitignorePath) ? ignore().add(fs.readFileSync(gitignorePath, 'utf-8')) : null
+      );
+    }
+    return ignoreByDir.get(dir) ?? null;
+  }
+
+  return (file) => {
+    let dir = path.dirname(file);
+    for (;;) {
+      const rules = load(dir);
+      if (rules && rules.ignores(toPosix(path.relative(dir, file)))) {
+        return true;
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir || fs.existsSync(path.join(dir, '.git'))) {
+        return false;
+      }
+      dir = parent;
+    }
+  };
+}
+
+/**
+ * Expands files, directories and glob patterns into a sorted, de-duplicated
+ * list of absolute source file paths.
+ */
+export async function collectFiles(
+  inputs: string[],
+  selection: FileSelection = {}
+): Promise<string[]> {
+  const cwd = selection.cwd ?? process.cwd();
+  const include = selection.include?.length ? selection.include : defaultInclude;
+  const exclude = [...alwaysExclude, ...(selection.exclude ?? [])];
+  const files = new Set<string>();
+
+  for (const input of inputs) {
+    const absolutePath = path.resolve(cwd, input);
+    const stat = fs.existsSync(absolutePath) ? fs.statSync(absolutePath) : null;
+
+    let matches: string[];
+    if (stat?.isFile()) {
+      // Globbing the escaped path keeps explicit files subject to the exclude patterns
+      const pattern = fg.escapePath(toPosix(path.relative(cwd, absolutePath)));
+      matches = await fg(pattern, { cwd, absolute: true, dot: true, ignore: exclude });
+    } else if (stat?.isDirectory()) {
+      matches = await fg(include, { cwd: absolutePath, absolute: true, ignore: exclude });
+    } else if (fg.isDynamicPattern(input)) {
+      matches = await fg(toPosix(input), { cwd, absolute: true, ignore: exclude });
+    } else {
+      throw new Error(`File not found: ${absolutePath}`);
+    }
+
+    for (const match of matches) {
+      files.add(path.normalize(match));
+    }
+  }
+
+  let result = Array.from(files);
+
+  if (selection.gitignore !== false) {
+    const isIgnored = createGitignoreFilter();
+    result = result.filter((file) => !isIgnored(file));
+  }
+
+  return result.sort();
+}
+
+/**
+ * Every source file under `root` that `.gitignore` doesn't exclude, read
+ * synchronously. Used to find the modules that import a file.
+ */
+export function listSourceFiles(root: string): string[] {
+  const isIgnored = createGitignoreFilter();
+  return fg
+    .sync(defaultInclude, { cwd: root, absolute: true, ignore: alwaysExclude })
+    .map((match) => path.normalize(match))
+    .filter((file) => !isIgnored(file))
+    .sort();
+}
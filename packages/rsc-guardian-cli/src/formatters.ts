@@ -0,0 +1,510 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { structuredPatch } from 'diff';
+import type { FeatureCategory, ImportGraphResult } from 'rsc-guardian-core';
+import { categoryOrder, isMissingUseClient, summarize } from './analyze';
+import type { AnalysisResult, NextAnalysis, NextIssue } from './analyze';
+import type { CheckResult } from './check';
+import type { FileEdit, SplitPlan } from './split';
+import type { WatchUpdate } from './watch';
+import { version } from './version';
+
+export type OutputFormat = 'text' | 'json' | 'sarif';
+
+const informationUri = 'https://github.com/devchospre001/react-rsc-sentinel';
+
+const ruleDescriptions: Record<FeatureCategory, string> = {
+  hook: 'React hook used in a server component',
+  'browser-global': 'Browser global used in a server component',
+  'event-handler': 'JSX event handler used in a server component',
+  'class-component': 'Class component in a server component module',
+  'create-context': 'React context created in a server component module',
+  'react-dom-api': 'react-dom API used in a server component',
+  'client-import': 'Client-only package imported by a server component',
+};
+
+// Listed in the text output only when found, unlike hooks, globals and handlers
+const optionalLists: Array<[FeatureCategory, string]> = [
+  ['class-component', 'Detected Class Components'],
+  ['create-context', 'Detected Module-level Contexts'],
+  ['react-dom-api', 'Detected react-dom APIs'],
+  ['client-import', 'Detected Client-only Imports'],
+];
+
+const nextRuleDescriptions: Record<NextIssue['kind'], string> = {
+  'client-convention': 'Next.js special file that must be a client component',
+  'route-use-client': "'use client' in a Next.js route handler",
+  'client-metadata': 'Metadata export from a client page or layout',
+  'server-only': 'Client-only feature used in a Next.js route handler',
+};
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+function displayPath(filePath: string, cwd: string): string {
+  return path.relative(cwd, filePath) || filePath;
+}
+
+function describeNext(next: NextAnalysis, hasUseClient: boolean): string {
+  if (next.router === 'pages') {
+    return 'Pages Router file (not a server component)';
+  }
+  if (next.convention === 'route') {
+    return 'route handler (server only)';
+  }
+  if (next.convention) {
+    return `${next.convention} (${next.server ? 'server' : 'client'} component)`;
+  }
+  if (next.server) {
+    return 'imported by server components';
+  }
+  return hasUseClient ? 'client module' : 'not imported by server components';
+}
+
+function formatFileResult(result: AnalysisResult, cwd: string): string[] {
+  const lines = [`\nAnalysis for: ${displayPath(result.filePath, cwd)}\n`, '─'.repeat(50)];
+
+  if (result.error) {
+    lines.push(`⚠️  Could not parse file: ${result.error}`, '─'.repeat(50));
+    return lines;
+  }
+
+  const list = (title: string, names: string[]) => [
+    `\n${title} (${names.length}):`,
+    ...(names.length > 0 ? names.map((name) => `  - ${name}`) : ['  (none)']),
+  ];
+
+  lines.push(
+    `'use client' directive: ${result.hasUseClient ? '✓ Present' : '✗ Missing'}`,
+    ...(result.next ? [`Next.js: ${describeNext(result.next, result.hasUseClient)}`] : []),
+    ...list('Detected Hooks', result.hooks),
+    ...list('Detected Browser Globals', result.browserGlobals),
+    ...list('Detected Event Handlers', result.eventHandlers)
+  );
+  for (const [category, title] of optionalLists) {
+    const names = new Set(
+      result.features.filter((f) => f.category === category).map((f) => f.name)
+    );
+    if (names.size > 0) {
+      lines.push(...list(title, Array.from(names).sort()));
+    }
+  }
+
+  if (result.next && result.next.issues.length > 0) {
+    lines.push(
+      `\nNext.js Issues (${result.next.issues.length}):`,
+      ...result.next.issues.map((issue) => `  - ${issue.line}:${issue.column} ${issue.message}`)
+    );
+  }
+  lines.push('─'.repeat(50));
+
+  if (isMissingUseClient(result)) {
+    lines.push(
+      '\n⚠️  This file uses client-only features but is missing "use client" directive.',
+      '   Consider running: rsc-guardian split <file> --dry-run\n'
+    );
+  }
+
+  return lines;
+}
+
+function formatSummary(results: AnalysisResult[]): string[] {
+  const summary = summarize(results);
+  const pad = (label: string, value: number) => `${label.padEnd(30)}${String(value).padStart(8)}`;
+  const row = (category: string, occurrences: string, files: string) =>
+    `${category.padEnd(22)}${occurrences.padStart(12)}${files.padStart(8)}`;
+
+  const lines = [
+    '\nSummary',
+    '─'.repeat(50),
+    pad('Files scanned', summary.filesScanned),
+    pad("Files with 'use client'", summary.filesWithUseClient),
+    pad("Files missing 'use client'", summary.filesMissingUseClient),
+  ];
+
+  if (summary.filesWithErrors > 0) {
+    lines.push(pad('Files that failed to parse', summary.filesWithErrors));
+  }
+
+  lines.push('─'.repeat(50), row('Category', 'Occurrences', 'Files'));
+  for (const category of categoryOrder) {
+    const { occurrences, files } = summary.categories[category];
+    lines.push(row(category, String(occurrences), String(files)));
+  }
+  lines.push('─'.repeat(50));
+
+  return lines;
+}
+
+/**
+ * Human-readable report: one block per file and, when more than one file
+ * was analyzed, a project summary.
+ */
+export function formatText(results: AnalysisResult[], cwd: string): string {
+  const lines = results.flatMap((result) => formatFileResult(result, cwd));
+  if (results.length > 1) {
+    lines.push(...formatSummary(results));
+  }
+  return lines.join('\n');
+}
+
+export function formatJson(results: AnalysisResult[], cwd: string): string {
+  const files = results.map((result) => ({
+    filePath: toPosix(path.relative(cwd, result.filePath)),
+    hasUseClient: result.hasUseClient,
+    missingUseClient: isMissingUseClient(result),
+    hooks: result.hooks,
+    browserGlobals: result.browserGlobals,
+    eventHandlers: result.eventHandlers,
+    clientImports: result.clientImports,
+    features: result.features,
+    ...(result.next ? { next: result.next } : {}),
+    ...(result.error ? { error: result.error } : {}),
+  }));
+
+  return JSON.stringify({ files, summary: summarize(results) }, null, 2);
+}
+
+/**
+ * SARIF 2.1.0 log for code-scanning viewers. Only files that use client-only
+ * features without `'use client'` produce results; parse failures are reported
+ * as tool execution notifications.
+ */
+export function formatSarif(results: AnalysisResult[], cwd: string): string {
+  const ruleId = (category: FeatureCategory) => `client-feature/${category}`;
+  const nextRuleId = (kind: NextIssue['kind']) => `next/${kind}`;
+  const location = (result: AnalysisResult) => ({
+    uri: toPosix(path.relative(cwd, result.filePath)),
+    uriBaseId: '%SRCROOT%',
+  });
+
+  const rules = categoryOrder.map((category) => ({
+    id: ruleId(category),
+    name: category as string,
+    shortDescription: { text: ruleDescriptions[category] },
+    helpUri: informationUri,
+    defaultConfiguration: { level: 'error' },
+  }));
+  // Next.js rules are only listed for runs with framework conventions
+  if (results.some((result) => result.next)) {
+    for (const [kind, description] of Object.entries(nextRuleDescriptions)) {
+      rules.push({
+        id: nextRuleId(kind as NextIssue['kind']),
+        name: kind,
+        shortDescription: { text: description },
+        helpUri: informationUri,
+        defaultConfiguration: { level: 'error' },
+      });
+    }
+  }
+  const ruleIndex = (id: string) => rules.findIndex((rule) => rule.id === id);
+
+  const nextResults = results.flatMap((result) =>
+    (result.next?.issues ?? []).map((issue) => ({
+      ruleId: nextRuleId(issue.kind),
+      ruleIndex: ruleIndex(nextRuleId(issue.kind)),
+      level: 'error',
+      message: { text: issue.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: location(result),
+            region: { startLine: issue.line, startColumn: issue.column },
+          },
+        },
+      ],
+    }))
+  );
+
+  const sarifResults = results.filter(isMissingUseClient).flatMap((result) =>
+    result.features.map((feature) => {
+      const { line, column, endLine, endColumn } = feature;
+      return {
+        ruleId: ruleId(feature.category),
+        ruleIndex: ruleIndex(ruleId(feature.category)),
+        level: 'error',
+        message: {
+          text: `${feature.reason} Add 'use client' or split into a client component.`,
+        },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: location(result),
+              region: { startLine: line, startColumn: column, endLine, endColumn },
+            },
+          },
+        ],
+      };
+    })
+  );
+
+  const notifications = results
+    .filter((result) => result.error)
+    .map((result) => ({
+      level: 'error',
+      message: { text: `Could not parse file: ${result.error}` },
+      locations: [{ physicalLocation: { artifactLocation: location(result) } }],
+    }));
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'rsc-guardian',
+            version,
+            informationUri,
+            rules,
+          },
+        },
+        originalUriBaseIds: {
+          '%SRCROOT%': { uri: pathToFileURL(cwd).href.replace(/\/?$/, '/') },
+        },
+        invocations: [
+          {
+            executionSuccessful: notifications.length === 0,
+            toolExecutionNotifications: notifications,
+          },
+        ],
+        results: [...sarifResults, ...nextResults],
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
+
+export function formatResults(results: AnalysisResult[], format: OutputFormat, cwd: string): string {
+  if (format === 'json') {
+    return formatJson(results, cwd);
+  }
+  if (format === 'sarif') {
+    return formatSarif(results, cwd);
+  }
+  return formatText(results, cwd);
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * `check` report: new violations grouped by file, like ESLint's stylish
+ * output, and the baseline status.
+ */
+export function formatCheck(result: CheckResult, format: 'text' | 'json', cwd: string): string {
+  if (format === 'json') {
+    return JSON.stringify(
+      {
+        ...result,
+        violations: result.violations.map((violation) => ({
+          ...violation,
+          filePath: toPosix(path.relative(cwd, violation.filePath)),
+        })),
+        errors: result.errors.map((error) => ({
+          ...error,
+          filePath: toPosix(path.relative(cwd, error.filePath)),
+        })),
+      },
+      null,
+      2
+    );
+  }
+
+  const lines: string[] = [];
+  const byFile = new Map<string, CheckResult['violations']>();
+  for (const violation of result.violations) {
+    byFile.set(violation.filePath, [...(byFile.get(violation.filePath) ?? []), violation]);
+  }
+  for (const [filePath, violations] of byFile) {
+    lines.push(`\n${displayPath(filePath, cwd)}`);
+    for (const violation of violations) {
+      const location = `${violation.line}:${violation.column}`;
+      lines.push(
+        `  ${location.padEnd(8)}${violation.severity.padEnd(9)}${violation.message}  ${violation.ruleId}`
+      );
+    }
+  }
+  for (const error of result.errors) {
+    lines.push(`\n⚠️  Could not parse ${displayPath(error.filePath, cwd)}: ${error.message}`);
+  }
+
+  const errors = result.violations.filter((violation) => violation.severity === 'error').length;
+  const warnings = result.violations.length - errors;
+  lines.push(
+    '',
+    result.violations.length > 0
+      ? `✗ ${plural(result.violations.length, 'problem')} (${plural(errors, 'error')}, ${plural(warnings, 'warning')})`
+      : '✓ No new boundary violations.'
+  );
+  if (result.baselined > 0) {
+    lines.push(`  ${plural(result.baselined, 'known violation')} in the baseline`);
+  }
+  if (result.fixed > 0) {
+    lines.push(
+      `  ${result.fixed} baseline ${result.fixed === 1 ? 'entry' : 'entries'} no longer found. Run with --update-baseline to remove them.`
+    );
+  }
+  return lines.join('\n');
+}
+
+export function formatWatchUpdate(update: WatchUpdate, cwd: string): string {
+  const changed = update.changed.map((file) => displayPath(file, cwd));
+  const more = changed.length > 3 ? ` and ${changed.length - 3} more` : '';
+  const lines = [
+    `\n${changed.slice(0, 3).join(', ')}${more} changed, ${plural(update.analyzed.length, 'file')} analyzed`,
+  ];
+  for (const [sign, violations] of [
+    ['+', update.added],
+    ['-', update.resolved],
+  ] as const) {
+    for (const violation of violations) {
+      const location = `${displayPath(violation.filePath, cwd)}:${violation.line}:${violation.column}`;
+      lines.push(`  ${sign} ${location}  ${violation.message}  ${violation.ruleId}`);
+    }
+  }
+  for (const error of update.errors) {
+    lines.push(`  ⚠️  Could not parse ${displayPath(error.filePath, cwd)}: ${error.message}`);
+  }
+  lines.push(
+    update.added.length > 0 || update.resolved.length > 0
+      ? `  ${plural(update.added.length, 'new violation')}, ${update.resolved.length} resolved`
+      : '  ✓ No new or resolved boundary violations.'
+  );
+  return lines.join('\n');
+}
+
+export function formatGraph(entries: string[], result: ImportGraphResult, cwd: string): string {
+  const modules = Array.from(result.modules.values());
+  const boundaries = modules.filter((module) => module.hasUseClient).length;
+  const display = (file: string) => displayPath(file, cwd);
+
+  const lines = [
+    `\nImport graph for: ${entries.join(', ')}\n`,
+    '─'.repeat(50),
+    `Modules reached: ${modules.length} ('use client' boundaries: ${boundaries})`,
+  ];
+
+  for (const module of modules) {
+    if (module.error) {
+      lines.push(`\n⚠️  Could not parse ${display(module.file)}: ${module.error}`);
+    }
+  }
+
+  if (result.violations.length === 0) {
+    lines.push('\n✓ No server-reachable module uses client-only features.', '─'.repeat(50));
+    return lines.join('\n');
+  }
+
+  lines.push(
+    `\nServer-reachable modules using client-only features (${result.violations.length}):`
+  );
+  for (const violation of result.violations) {
+    const names = Array.from(new Set(violation.features.map((feature) => feature.name))).sort();
+    lines.push(
+      `\n  ✗ ${display(violation.file)}`,
+      `    uses: ${names.join(', ')}`,
+      `    via:  ${violation.chain.map(display).join(' → ')}`
+    );
+  }
+
+  lines.push(
+    '─'.repeat(50),
+    '\n⚠️  Add "use client" to these modules or to a component between them and the entry.\n'
+  );
+  return lines.join('\n');
+}
+
+// Empty ranges start at the line before, as in `@@ -0,0 +1,3 @@`
+function hunkRange(start: number, lines: number): string {
+  return `${lines === 0 ? start - 1 : start},${lines}`;
+}
+
+function removalHunk(content: string): string[] {
+  if (!content) {
+    return [];
+  }
+  const trailingNewline = content.endsWith('\n');
+  const removed = (trailingNewline ? content.slice(0, -1) : content)
+    .split('\n')
+    .map((line) => `-${line}`);
+  return [
+    `@@ -${hunkRange(1, removed.length)} +0,0 @@`,
+    ...removed,
+    ...(trailingNewline ? [] : ['\\ No newline at end of file']),
+  ];
+}
+
+/**
+ * Unified diff of one edit against `edit.original`, with the headers
+ * `git apply` expects. Empty when the edit doesn't change the file.
+ */
+function formatEditPatch(edit: FileEdit, cwd: string): string[] {
+  const file = toPosix(displayPath(edit.filePath, cwd));
+  const before = edit.original;
+  const after = edit.kind === 'delete' ? undefined : edit.content;
+
+  const hunks =
+    after === undefined
+      ? removalHunk(before ?? '')
+      : structuredPatch(file, file, before ?? '', after, '', '', { context: 3 }).hunks.flatMap(
+          (hunk) => [
+            `@@ -${hunkRange(hunk.oldStart, hunk.oldLines)} +${hunkRange(hunk.newStart, hunk.newLines)} @@`,
+            ...hunk.lines,
+          ]
+        );
+  if (hunks.length === 0 && before !== undefined && after !== undefined) {
+    return [];
+  }
+
+  return [
+    `diff --git a/${file} b/${file}`,
+    ...(before === undefined ? ['new file mode 100644'] : []),
+    ...(after === undefined ? ['deleted file mode 100644'] : []),
+    before === undefined ? '--- /dev/null' : `--- a/${file}`,
+    after === undefined ? '+++ /dev/null' : `+++ b/${file}`,
+    ...hunks,
+  ];
+}
+
+/**
+ * The whole split as one patch, with paths relative to `cwd`, that
+ * `git apply` (or `patch -p1`) can apply from that directory.
+ */
+export function formatSplitPatch(plan: SplitPlan, cwd: string): string {
+  const lines = plan.edits.flatMap((edit) => formatEditPatch(edit, cwd));
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Dry-run preview of a split: a unified diff of every file it creates,
+ * rewrites (such as importers) or deletes, and a warning for existing files
+ * it would overwrite.
+ */
+export function formatSplitDiff(plan: SplitPlan, cwd: string): string {
+  const lines = ['\n--- Proposed Changes ---'];
+
+  for (const edit of plan.edits) {
+    const patch = formatEditPatch(edit, cwd);
+    if (patch.length > 0) {
+      lines.push('', ...patch);
+    }
+  }
+
+  if (plan.conflicts.length > 0) {
+    lines.push(
+      '\n⚠️  These files already exist and would be overwritten:',
+      ...plan.conflicts.map((file) => `  - ${displayPath(file, cwd)}`),
+      '   Run with --force to overwrite them.'
+    );
+  }
+
+  lines.push(
+    '\n--- End of diff ---',
+    '\nRun with --apply to write these files, or --patch <file> to save them as a patch.\n'
+  );
+  return lines.join('\n');
+}
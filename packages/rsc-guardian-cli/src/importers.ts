@@ -0,0 +1,186 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TSESTree } from '@typescript-eslint/types';
+import {
+  createModuleResolver,
+  hasDirective,
+  parseModule,
+  sourceExtensions,
+  walk,
+} from 'rsc-guardian-core';
+import { listSourceFiles } from './files';
+import type { FileEdit } from './split';
+
+export interface ImporterOptions {
+  /** Directory searched for importers (default: the nearest one with a `package.json`). */
+  root?: string;
+  /** tsconfig.json to read path aliases from (default: the nearest one to each importer). */
+  tsconfig?: string;
+}
+
+interface ImportSource {
+  value: string;
+  range: TSESTree.Range;
+}
+
+function findProjectRoot(filePath: string): string {
+  for (let dir = path.dirname(filePath); ; dir = path.dirname(dir)) {
+    if (fs.existsSync(path.join(dir, 'package.json'))) {
+      return dir;
+    }
+    if (path.dirname(dir) === dir) {
+      return path.dirname(filePath);
+    }
+  }
+}
+
+// Type-only imports are included: they break just the same when the file moves
+function importSources(program: TSESTree.Program): ImportSource[] {
+  const sources: ImportSource[] = [];
+
+  walk(program, (node) => {
+    if (
+      (node.type === 'ImportDeclaration' ||
+        node.type === 'ExportNamedDeclaration' ||
+        node.type === 'ExportAllDeclaration') &&
+      node.source
+    ) {
+      sources.push({ value: node.source.value, range: node.source.range });
+    } else if (
+      node.type === 'ImportExpression' &&
+      node.source.type === 'Literal' &&
+      typeof node.source.value === 'string'
+    ) {
+      sources.push({ value: node.source.value, range: node.source.range });
+    }
+  });
+
+  return sources;
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+// Replaces specifiers between their quotes, from the end so earlier ranges stay valid
+function replaceSources(
+  code: string,
+  sources: ImportSource[],
+  specifier: (source: ImportSource) => string
+): string {
+  let content = code;
+  for (const source of [...sources].sort((a, b) => b.range[0] - a.range[0])) {
+    content =
+      content.slice(0, source.range[0] + 1) +
+      specifier(source) +
+      content.slice(source.range[1] - 1);
+  }
+  return content;
+}
+
+/**
+ * Points a specifier that resolved to `from` at `to`, keeping its style:
+ * alias or relative path, and the extension if it had one. `./Foo` for
+ * `Foo/index.tsx` becomes `./Foo/index.server`.
+ */
+function retarget(specifier: string, from: string, to: string): string {
+  const fromBase = path.basename(from, path.extname(from));
+  const specifierExt = path.posix.extname(specifier);
+  const ext = sourceExtensions.includes(specifierExt) ? specifierExt : '';
+  const bare = specifier.slice(0, specifier.length - ext.length);
+
+  // The part of the specifier that stands for the directory of `from`
+  const dir = path.posix.basename(bare) === fromBase ? path.posix.dirname(bare) : bare;
+  const relative = toPosix(
+    path.relative(
+      path.dirname(from),
+      path.join(path.dirname(to), path.basename(to, path.extname(to)))
+    )
+  );
+  const joined = path.posix.join(dir, relative);
+  return `${dir.startsWith('.') && !joined.startsWith('.') ? './' : ''}${joined}${ext}`;
+}
+
+/** The relative specifier `fromFile` imports `toFile` with, without extension. */
+export function relativeSpecifier(fromFile: string, toFile: string): string {
+  const target = path.join(path.dirname(toFile), path.basename(toFile, path.extname(toFile)));
+  const relative = toPosix(path.relative(path.dirname(fromFile), target));
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+/**
+ * Rewrites the relative imports of code written for `fromDir` so they
+ * still point at the same modules when the code moves to `toDir`. The
+ * specifiers in `keep` are already relative to `toDir`.
+ */
+export function relocateImports(
+  code: string,
+  filePath: string,
+  fromDir: string,
+  toDir: string,
+  keep: string[] = []
+): string {
+  if (path.resolve(fromDir) === path.resolve(toDir)) {
+    return code;
+  }
+  const sources = importSources(parseModule(code, filePath)).filter(
+    (source) => source.value.startsWith('.') && !keep.includes(source.value)
+  );
+  return replaceSources(code, sources, (source) => {
+    const relative = toPosix(path.relative(toDir, path.resolve(fromDir, source.value)));
+    return relative.startsWith('.') ? relative : `./${relative}`;
+  });
+}
+
+/**
+ * Finds the modules under the project root that import `target`, through
+ * relative paths or tsconfig aliases, and points those imports at the split
+ * files: modules with `'use client'` at `client`, everything else at
+ * `server`. Barrel files that re-export `target` are importers too, so
+ * modules that import through a barrel need no changes.
+ */
+export function rewriteImporters(
+  target: string,
+  split: { server: string; client: string },
+  options: ImporterOptions = {}
+): FileEdit[] {
+  const root = path.resolve(options.root ?? findProjectRoot(target));
+  const resolver = createModuleResolver({ tsconfig: options.tsconfig });
+  const base = path.basename(target, path.extname(target));
+  const edits: FileEdit[] = [];
+
+  for (const file of listSourceFiles(root)) {
+    if (file === target || file === split.server || file === split.client) {
+      continue;
+    }
+    const code = fs.readFileSync(file, 'utf-8');
+    // Any specifier of the file names it, except `.` and `..` for index files
+    if (base !== 'index' && !code.includes(base)) {
+      continue;
+    }
+
+    let program: TSESTree.Program;
+    try {
+      program = parseModule(code, file);
+    } catch {
+      continue;
+    }
+
+    const sources = importSources(program).filter(
+      (source) => resolver.resolve(source.value, file) === target
+    );
+    if (sources.length === 0) {
+      continue;
+    }
+
+    const to = hasDirective(program, 'use client') ? split.client : split.server;
+    edits.push({
+      filePath: file,
+      kind: 'update',
+      content: replaceSources(code, sources, (source) => retarget(source.value, target, to)),
+      original: code,
+    });
+  }
+
+  return edits;
+}
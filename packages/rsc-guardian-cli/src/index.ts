@@ -1,44 +1,64 @@
-#!/usr/bin/env node
-
-import { Command } from 'commander';
-import { analyze } from './analyze';
-import { split } from './split';
-
-const program = new Command();
-
-program
-  .name('rsc-guardian')
-  .description('Analyze and split React Server Components')
-  .version('1.0.0');
-
-program
-  .command('analyze')
-  .description('Analyze a file for client-only features')
-  .argument('<file>', 'File path to analyze')
-  .action(async (file: string) => {
-    try {
-      await analyze(file);
-    } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : String(error));
-      process.exit(1);
-    }
-  });
-
-program
-  .command('split')
-  .description('Split a component into server and client files')
-  .argument('<file>', 'File path to split')
-  .option('--apply', 'Apply the changes (write files)')
-  .option('--dry-run', 'Show diff without applying changes', true)
-  .action(async (file: string, options: { apply?: boolean; dryRun?: boolean }) => {
-    try {
-      const apply = options.apply || false;
-      await split(file, { apply });
-    } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : String(error));
-      process.exit(1);
-    }
-  });
-
-program.parse();
-
+export {
+  analyzeFile,
+  analyzeFiles,
+  analyzeSource,
+  categoryOrder,
+  isMissingUseClient,
+  summarize,
+} from './analyze';
+export type {
+  AnalysisResult,
+  AnalysisSummary,
+  AnalyzeOptions,
+  Finding,
+  NextAnalysis,
+  NextIssue,
+  SourceOptions,
+} from './analyze';
+export {
+  applyBaseline,
+  checkExitCode,
+  checkFiles,
+  collectViolations,
+  defaultBaseline,
+  exitCodes,
+  readBaseline,
+  writeBaseline,
+} from './check';
+export type {
+  Baseline,
+  BaselineEntry,
+  CheckOptions,
+  CheckResult,
+  Severity,
+  Violation,
+} from './check';
+export { applySplit, importerModes, planSplit, planSplitSource, splitStrategies } from './split';
+export type {
+  ApplyOptions,
+  FileEdit,
+  ImporterMode,
+  SplitOptions,
+  SplitPlan,
+  SplitStrategy,
+} from './split';
+export type { ImporterOptions } from './importers';
+export { collectFiles, defaultInclude } from './files';
+export type { FileSelection } from './files';
+export {
+  formatCheck,
+  formatGraph,
+  formatJson,
+  formatResults,
+  formatSarif,
+  formatSplitDiff,
+  formatSplitPatch,
+  formatText,
+  formatWatchUpdate,
+} from './formatters';
+export type { OutputFormat } from './formatters';
+export { createWatchSession, watchFiles } from './watch';
+export type { WatchOptions, WatchSession, WatchUpdate, Watcher } from './watch';
+export { analyzeImportGraph } from 'rsc-guardian-core';
+export type { Framework, GraphViolation, ImportGraphResult } from 'rsc-guardian-core';
+export { version } from './version';
@@ -0,0 +1,87 @@
+import * as os from 'os';
+import { Worker } from 'worker_threads';
+
+export interface WorkerPoolOptions {
+  /** The worker's script, or its source code with `eval`. */
+  script: string;
+  eval?: boolean;
+  /** Number of worker threads. */
+  size: number;
+  workerData?: unknown;
+}
+
+/** The number of threads the machine can run in parallel. */
+export function availableJobs(): number {
+  return typeof os.availableParallelism === 'function'
+    ? os.availableParallelism()
+    : os.cpus().length;
+}
+
+/**
+ * Runs each task on a pool of worker threads and returns the results in
+ * task order, however the workers finish. A worker answers every task
+ * message with one result message and is handed the next task as soon as
+ * it does, so slow tasks don't hold up the others.
+ */
+export function runInWorkers<Task, Result>(
+  tasks: Task[],
+  options: WorkerPoolOptions
+): Promise<Result[]> {
+  if (tasks.length === 0) {
+    return Promise.resolve([]);
+  }
+
+  return new Promise((resolve, reject) => {
+    const results = new Array<Result>(tasks.length);
+    const workers: Worker[] = [];
+    let next = 0;
+    let done = 0;
+    let settled = false;
+
+    const finish = (error?: unknown) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      for (const worker of workers) {
+        void worker.terminate();
+      }
+      if (error) {
+        reject(error);
+      } else {
+        resolve(results);
+      }
+    };
+
+    for (let index = 0; index < Math.min(options.size, tasks.length); index++) {
+      const worker = new Worker(options.script, {
+        eval: options.eval,
+        workerData: options.workerData,
+      });
+      workers.push(worker);
+
+      let current = -1;
+      const dispatch = () => {
+        if (next < tasks.length) {
+          current = next++;
+          worker.postMessage(tasks[current]);
+        }
+      };
+
+      worker.on('message', (result: Result) => {
+        results[current] = result;
+        done++;
+        if (done === tasks.length) {
+          finish();
+        } else {
+          dispatch();
+        }
+      });
+      worker.on('error', finish);
+      worker.on('exit', (code) => {
+        finish(new Error(`Worker thread stopped with exit code ${code}`));
+      });
+      dispatch();
+    }
+  });
+}
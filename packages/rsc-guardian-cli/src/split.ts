@@ -1,281 +1,1214 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { analyze } from '@typescript-eslint/scope-manager';
+import type { Reference } from '@typescript-eslint/scope-manager';
 import { parse } from '@typescript-eslint/typescript-estree';
 import type { TSESTree } from '@typescript-eslint/types';
-import { diffLines } from 'diff';
-
-const browserGlobals = new Set([
-  'window',
-  'document',
-  'localStorage',
-  'sessionStorage',
-  'navigator',
-  'location',
-  'history',
-  'alert',
-  'confirm',
-  'prompt',
-]);
-
-function isHook(name: string): boolean {
-  return name.startsWith('use') && name.length > 3 && name[3] === name[3].toUpperCase();
-}
-
-function isEventHandler(name: string): boolean {
-  return name.startsWith('on') && name.length > 2 && name[2] === name[2].toUpperCase();
-}
-
-interface SplitContext {
-  hasClientFeatures: boolean;
-  clientNodes: Set<TSESTree.Node>;
-  imports: TSESTree.ImportDeclaration[];
-  otherStatements: TSESTree.Statement[];
-  defaultExport?: TSESTree.ExportDefaultDeclaration;
-}
-
-function analyzeNodeForClientFeatures(node: TSESTree.Node, context: SplitContext): boolean {
-  let hasClient = false;
-
-  if (node.type === 'CallExpression') {
-    const callee = node.callee;
-    if (callee.type === 'Identifier' && isHook(callee.name)) {
-      hasClient = true;
-    } else if (
-      callee.type === 'MemberExpression' &&
-      callee.property.type === 'Identifier' &&
-      isHook(callee.property.name)
+import {
+  classifyNextFile,
+  createConfigResolver,
+  detectClientFeatures,
+  findDefaultComponent,
+  findIslands,
+  nextServerExports,
+  walk,
+} from 'rsc-guardian-core';
+import type {
+  ClientFeature,
+  ComponentFunction,
+  DetectorRegistry,
+  Island,
+  IslandExtraction,
+} from 'rsc-guardian-core';
+import { toFinding } from './analyze';
+import type { Finding } from './analyze';
+import { relativeSpecifier, relocateImports, rewriteImporters } from './importers';
+import type { ImporterOptions } from './importers';
+
+type TextEdit = { start: number; end: number; text: string };
+
+const typeScriptExtensions = ['.ts', '.tsx', '.mts', '.cts'];
+
+const defaultServerFile = '{name}.server{ext}';
+const defaultClientFile = '{name}.client{ext}';
+const defaultClientName = '{Name}Client';
+
+interface SplitPaths {
+  server: string;
+  client: string;
+}
+
+function contains(outer: TSESTree.Range, inner: TSESTree.Range): boolean {
+  return outer[0] <= inner[0] && inner[1] <= outer[1];
+}
+
+function pascalCase(name: string): string {
+  return name.replace(/(?:^|[^A-Za-z0-9]+)([A-Za-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+function expandTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+/** Where the split files go, from the layout templates in the options. */
+function splitPaths(filePath: string, options: SplitOptions): SplitPaths {
+  const ext = path.extname(filePath);
+  const name = path.basename(filePath, ext);
+  const values = { name, Name: pascalCase(name), ext };
+  const dir = path.dirname(filePath);
+  const server = path.resolve(dir, expandTemplate(options.serverFile ?? defaultServerFile, values));
+  const client = path.resolve(dir, expandTemplate(options.clientFile ?? defaultClientFile, values));
+
+  if (client === server || client === filePath) {
+    throw new Error(
+      `The client file can't replace ${path.basename(filePath)} or the server file: ${client}`
+    );
+  }
+  return { server, client };
+}
+
+function applyEdits(code: string, edits: TextEdit[]): string {
+  // Insertions sort before removals starting at the same offset
+  const sorted = [...edits].sort((a, b) => a.start - b.start || a.end - b.end);
+  let output = '';
+  let cursor = 0;
+  for (const edit of sorted) {
+    output += code.slice(cursor, Math.max(cursor, edit.start)) + edit.text;
+    cursor = Math.max(cursor, edit.end);
+  }
+  return output + code.slice(cursor);
+}
+
+/** Extends `start` over the comments directly above a statement. */
+function withLeadingComments(code: string, ast: TSESTree.Program, start: number): number {
+  for (const comment of [...(ast.comments ?? [])].reverse()) {
+    const lineStart = code.lastIndexOf('\n', comment.range[0] - 1) + 1;
+    if (
+      comment.range[1] <= start &&
+      !code.slice(comment.range[1], start).trim() &&
+      !code.slice(lineStart, comment.range[0]).trim()
     ) {
-      hasClient = true;
+      start = comment.range[0];
     }
   }
+  return start;
+}
 
-  if (node.type === 'Identifier' && browserGlobals.has(node.name)) {
-    hasClient = true;
+/**
+ * The span to delete for a statement: whole lines when it sits on its own,
+ * plus the blank lines it would otherwise leave doubled up.
+ */
+function lineSpan(code: string, start: number, end: number): [number, number] {
+  const lineStart = code.lastIndexOf('\n', start - 1) + 1;
+  if (!code.slice(lineStart, start).trim()) {
+    start = lineStart;
+  }
+  const lineEnd = code.indexOf('\n', end);
+  if (lineEnd !== -1 && !code.slice(end, lineEnd).trim()) {
+    end = lineEnd + 1;
+    const before = code.slice(0, start).replace(/[ \t]*$/, '');
+    if (before === '' || before.endsWith('\n\n') || before.endsWith('{\n')) {
+      for (let next = code.indexOf('\n', end); next !== -1 && !code.slice(end, next).trim();) {
+        end = next + 1;
+        next = code.indexOf('\n', end);
+      }
+    }
   }
+  return [start, end];
+}
+
+/**
+ * Re-indents a snippet whose first line started at `column` in the original
+ * file, so its least indented line starts at `indent`.
+ */
+function reindent(text: string, column: number, indent: string): string {
+  const lines = (' '.repeat(column) + text).split('\n');
+  const width = Math.min(
+    ...lines.filter((line) => line.trim()).map((line) => line.length - line.trimStart().length)
+  );
+  return lines.map((line) => (line.trim() ? indent + line.slice(width) : '')).join('\n');
+}
+
+function columnOf(code: string, offset: number): number {
+  return offset - (code.lastIndexOf('\n', offset - 1) + 1);
+}
+
+function importText(
+  code: string,
+  declaration: TSESTree.ImportDeclaration,
+  specifiers: TSESTree.ImportClause[]
+): string {
+  const text = (node: TSESTree.Node) => code.slice(node.range[0], node.range[1]);
+  const named = specifiers.filter((specifier) => specifier.type === 'ImportSpecifier');
+  const clause = [
+    ...specifiers.filter((specifier) => specifier.type !== 'ImportSpecifier').map(text),
+    ...(named.length > 0 ? [`{ ${named.map(text).join(', ')} }`] : []),
+  ].join(', ');
+  const kind = declaration.importKind === 'type' ? 'type ' : '';
+  return `import ${kind}${clause} from ${text(declaration.source)};`;
+}
 
-  if (node.type === 'JSXAttribute' && node.name.type === 'JSXIdentifier') {
-    const name = node.name.name;
-    if (isEventHandler(name)) {
-      hasClient = true;
+/**
+ * `import type` statements for specifiers the client module only needs in
+ * types. A type-only import can't have both a default and named bindings.
+ */
+function typeImportTexts(
+  code: string,
+  declaration: TSESTree.ImportDeclaration,
+  specifiers: TSESTree.ImportClause[]
+): string[] {
+  const text = (node: TSESTree.Node) => code.slice(node.range[0], node.range[1]);
+  const source = text(declaration.source);
+  const named = specifiers.flatMap((specifier) => {
+    if (specifier.type !== 'ImportSpecifier') {
+      return [];
     }
+    const imported = text(specifier.imported);
+    return [
+      imported === specifier.local.name ? imported : `${imported} as ${specifier.local.name}`,
+    ];
+  });
+  return [
+    ...specifiers.flatMap((specifier) =>
+      specifier.type === 'ImportDefaultSpecifier'
+        ? [`import type ${specifier.local.name} from ${source};`]
+        : specifier.type === 'ImportNamespaceSpecifier'
+          ? [`import type * as ${specifier.local.name} from ${source};`]
+          : []
+    ),
+    ...(named.length > 0 ? [`import type { ${named.join(', ')} } from ${source};`] : []),
+  ];
+}
+
+/** A name based on `base` that the module doesn't use yet. */
+function uniqueName(code: string, base: string, taken: string[] = []): string {
+  let name = base;
+  for (let n = 2; taken.includes(name) || new RegExp(`\\b${name}\\b`).test(code); n++) {
+    name = `${base}${n}`;
+  }
+  return name;
+}
+
+function islandSuffix(node: TSESTree.Node | null): string {
+  if (!node) {
+    return 'Effects';
   }
+  if (node.type !== 'JSXElement') {
+    return 'Island';
+  }
+  const { name } = node.openingElement;
+  if (name.type === 'JSXIdentifier') {
+    return pascalCase(name.name);
+  }
+  return pascalCase(name.type === 'JSXMemberExpression' ? name.property.name : name.name.name);
+}
 
-  if (hasClient) {
-    context.clientNodes.add(node);
+function keyAttribute(node: TSESTree.Node | null): TSESTree.JSXAttribute | undefined {
+  if (node?.type !== 'JSXElement') {
+    return undefined;
   }
+  return node.openingElement.attributes.find(
+    (attribute): attribute is TSESTree.JSXAttribute =>
+      attribute.type === 'JSXAttribute' && attribute.name.name === 'key'
+  );
+}
+
+/** An import or type declaration of the module that a prop type refers to. */
+type TypeSource = TSESTree.ImportClause | TSESTree.ProgramStatement;
 
-  // Recursively check children
-  for (const key in node) {
-    const value = (node as any)[key];
-    if (value && typeof value === 'object') {
-      if (Array.isArray(value)) {
-        value.forEach((item) => {
-          if (item && typeof item === 'object' && item.type) {
-            if (analyzeNodeForClientFeatures(item, context)) {
-              hasClient = true;
-            }
-          }
+/**
+ * Where a name used in a type comes from: an import or an interface or type
+ * alias of the module, `null` for other declarations of the module, which
+ * the client module can't share, or `undefined` for globals.
+ */
+function typeSource(ast: TSESTree.Program, name: string): TypeSource | null | undefined {
+  for (const statement of ast.body) {
+    if (statement.type === 'ImportDeclaration') {
+      const specifier = statement.specifiers.find((specifier) => specifier.local.name === name);
+      if (specifier) {
+        return specifier;
+      }
+      continue;
+    }
+    const node =
+      statement.type === 'ExportNamedDeclaration' || statement.type === 'ExportDefaultDeclaration'
+        ? statement.declaration
+        : statement;
+    let declares = false;
+    if (node?.type === 'VariableDeclaration') {
+      for (const declarator of node.declarations) {
+        walk(declarator.id, (child) => {
+          declares ||= child.type === 'Identifier' && child.name === name;
         });
-      } else if (value.type) {
-        if (analyzeNodeForClientFeatures(value, context)) {
-          hasClient = true;
-        }
+      }
+    } else if (node && 'id' in node && node.id?.type === 'Identifier') {
+      declares = node.id.name === name;
+    }
+    if (declares) {
+      return isTypeStatement(statement) ? statement : null;
+    }
+  }
+  return undefined;
+}
+
+/** The names a type refers to: `Product` in `Product[]`, `api` in `typeof api.user`. */
+function typeReferences(type: TSESTree.TypeNode): string[] {
+  const names: string[] = [];
+  const leftmost = (name: TSESTree.Node): void => {
+    if (name.type === 'Identifier') {
+      names.push(name.name);
+    } else if (name.type === 'TSQualifiedName' || name.type === 'MemberExpression') {
+      leftmost(name.type === 'TSQualifiedName' ? name.left : name.object);
+    }
+  };
+  walk(type, (node) => {
+    if (node.type === 'TSTypeReference') {
+      leftmost(node.typeName);
+    } else if (node.type === 'TSTypeQuery') {
+      leftmost(node.exprName);
+    }
+  });
+  return names;
+}
+
+/** The type declared for a member of a type literal, interface or type alias of the module. */
+function memberType(
+  ast: TSESTree.Program,
+  type: TSESTree.TypeNode,
+  key: string
+): { node: TSESTree.TypeNode; optional: boolean } | null {
+  let members: TSESTree.TypeElement[] | null = type.type === 'TSTypeLiteral' ? type.members : null;
+  if (type.type === 'TSTypeReference' && type.typeName.type === 'Identifier') {
+    const { name } = type.typeName;
+    for (const statement of ast.body) {
+      const node = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+      if (node?.type === 'TSInterfaceDeclaration' && node.id.name === name) {
+        members = node.body.body;
+      } else if (
+        node?.type === 'TSTypeAliasDeclaration' &&
+        node.id.name === name &&
+        node.typeAnnotation.type === 'TSTypeLiteral'
+      ) {
+        members = node.typeAnnotation.members;
+      }
+    }
+  }
+  const member = members?.find(
+    (element): element is TSESTree.TSPropertySignature =>
+      element.type === 'TSPropertySignature' &&
+      ((element.key.type === 'Identifier' && element.key.name === key) ||
+        (element.key.type === 'Literal' && element.key.value === key))
+  );
+  return member?.typeAnnotation
+    ? { node: member.typeAnnotation.typeAnnotation, optional: Boolean(member.optional) }
+    : null;
+}
+
+/**
+ * The type of a variable an island receives as a prop, copied from the
+ * component's props annotation or the variable's own. The imports and type
+ * declarations it refers to are added to `sources` for the client module;
+ * types that refer to other names of the module become `unknown`.
+ */
+function propType(
+  code: string,
+  ast: TSESTree.Program,
+  component: ComponentFunction,
+  prop: string,
+  sources: Set<TypeSource>
+): string {
+  let found: { node: TSESTree.TypeNode; optional: boolean } | null = null;
+  const [param] = component.params;
+  const target = param?.type === 'AssignmentPattern' ? param.left : param;
+  const annotation =
+    target && 'typeAnnotation' in target ? target.typeAnnotation?.typeAnnotation : undefined;
+  if (annotation && target?.type === 'Identifier' && target.name === prop) {
+    found = { node: annotation, optional: false };
+  } else if (annotation && target?.type === 'ObjectPattern') {
+    for (const property of target.properties) {
+      const value = property.type === 'Property' ? property.value : null;
+      const local = value?.type === 'AssignmentPattern' ? value.left : value;
+      if (
+        property.type === 'Property' &&
+        !property.computed &&
+        property.key.type === 'Identifier' &&
+        local?.type === 'Identifier' &&
+        local.name === prop
+      ) {
+        const member = memberType(ast, annotation, property.key.name);
+        // A default value fills in optional props
+        found = member && { ...member, optional: member.optional && value === local };
       }
     }
   }
+  walk(component.body, (node) => {
+    if (
+      node.type === 'VariableDeclarator' &&
+      node.id.type === 'Identifier' &&
+      node.id.name === prop &&
+      node.id.typeAnnotation
+    ) {
+      found = { node: node.id.typeAnnotation.typeAnnotation, optional: false };
+    }
+  });
+  if (!found) {
+    return 'unknown';
+  }
 
-  return hasClient;
+  const { node, optional } = found as { node: TSESTree.TypeNode; optional: boolean };
+  const referenced = typeReferences(node).map((name) => typeSource(ast, name));
+  if (referenced.includes(null)) {
+    return 'unknown';
+  }
+  for (const source of referenced) {
+    if (source) {
+      sources.add(source);
+    }
+  }
+  // Lines after the first keep their indentation relative to the first
+  const lineStart = code.lastIndexOf('\n', node.range[0] - 1) + 1;
+  const indent = /^[ \t]*/.exec(code.slice(lineStart))?.[0] ?? '';
+  const text = code
+    .slice(node.range[0], node.range[1])
+    .split('\n')
+    .map((line, index) =>
+      index === 0 ? line : `  ${line.startsWith(indent) ? line.slice(indent.length) : line.trim()}`
+    )
+    .join('\n');
+  return optional ? `${text} | undefined` : text;
 }
 
-function generateServerComponent(
-  originalContent: string,
-  originalPath: string,
-  context: SplitContext
+function generateIsland(
+  code: string,
+  ast: TSESTree.Program,
+  component: ComponentFunction,
+  island: Island,
+  name: string,
+  typeSources: Set<TypeSource> | null
 ): string {
-  const baseName = path.basename(originalPath, path.extname(originalPath));
-  const ext = path.extname(originalPath);
-  const clientComponentName = `${baseName}.client${ext}`;
-  const clientImportName = baseName.charAt(0).toUpperCase() + baseName.slice(1) + 'Client';
+  let params = '';
+  const declarations: string[] = [];
+  if (island.props.length > 0) {
+    params = `{ ${island.props.join(', ')} }`;
+    if (typeSources) {
+      declarations.push(
+        `interface ${name}Props {`,
+        ...island.props.map(
+          (prop) => `  ${prop}: ${propType(code, ast, component, prop, typeSources)};`
+        ),
+        '}',
+        ''
+      );
+      params += `: ${name}Props`;
+    }
+  }
 
-  let output = '';
+  let rendered = 'null';
+  const { node } = island;
+  if (node) {
+    const [start, end] =
+      node.type === 'JSXExpressionContainer' ? node.expression.range : node.range;
+    let text = code.slice(start, end);
+    // The key moves to the element that replaces the island
+    const key = keyAttribute(node);
+    if (key) {
+      const keyStart = code.slice(0, key.range[0]).trimEnd().length;
+      text = code.slice(start, keyStart) + code.slice(key.range[1], end);
+    }
+    rendered = text.includes('\n')
+      ? `(\n${reindent(text, columnOf(code, start), '    ')}\n  )`
+      : text;
+  }
+
+  // Statements keep the blank lines that separated them
+  const body: string[] = [];
+  let previousEnd: number | null = null;
+  for (const statement of island.statements) {
+    const start = withLeadingComments(code, ast, statement.range[0]);
+    if (previousEnd !== null && /\n[ \t]*\n/.test(code.slice(previousEnd, start))) {
+      body.push('');
+    }
+    body.push(reindent(code.slice(start, statement.range[1]), columnOf(code, start), '  '));
+    previousEnd = statement.range[1];
+  }
+  return [
+    ...declarations,
+    `export function ${name}(${params}) {`,
+    ...body,
+    ...(body.length > 0 ? [''] : []),
+    `  return ${rendered};`,
+    '}',
+  ].join('\n');
+}
 
-  // Add imports (excluding React if we're importing the client component)
-  const reactImport = context.imports.find(
-    (imp) => imp.source.value === 'react' || imp.source.value === 'react/jsx-runtime'
+function isTypeStatement(statement: TSESTree.ProgramStatement): boolean {
+  const node = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+  return (
+    (statement.type === 'ExportNamedDeclaration' && statement.exportKind === 'type') ||
+    node?.type === 'TSTypeAliasDeclaration' ||
+    node?.type === 'TSInterfaceDeclaration'
   );
-  const otherImports = context.imports.filter(
-    (imp) => imp.source.value !== 'react' && imp.source.value !== 'react/jsx-runtime'
+}
+
+/** Names a top-level statement exports. */
+function exportedNames(statement: TSESTree.ProgramStatement): string[] {
+  if (statement.type !== 'ExportNamedDeclaration') {
+    return [];
+  }
+  const { declaration } = statement;
+  if (!declaration) {
+    return statement.specifiers.map((specifier) => specifier.exported.name);
+  }
+  if (declaration.type === 'VariableDeclaration') {
+    return declaration.declarations.flatMap((declarator) =>
+      declarator.id.type === 'Identifier' ? [declarator.id.name] : []
+    );
+  }
+  return 'id' in declaration && declaration.id?.type === 'Identifier' ? [declaration.id.name] : [];
+}
+
+/** Metadata, route segment config and re-exports from other modules stay on the server. */
+function isServerExport(statement: TSESTree.ProgramStatement): boolean {
+  if (statement.type === 'ExportAllDeclaration') {
+    return true;
+  }
+  if (statement.type !== 'ExportNamedDeclaration' || statement.exportKind === 'type') {
+    return false;
+  }
+  const names = exportedNames(statement);
+  return (
+    statement.source !== null ||
+    (!!statement.declaration &&
+      names.length > 0 &&
+      names.every((name) => nextServerExports.includes(name)))
   );
+}
 
-  if (reactImport) {
-    const sourceCode = originalContent.slice(reactImport.range[0], reactImport.range[1]);
-    output += sourceCode + '\n';
-  } else {
-    output += "import React from 'react';\n";
+/**
+ * The props type of the component as written in the source: the annotation
+ * of its first parameter, or `P` in `const Component: FC<P> = ...`.
+ */
+function propsTypeNode(
+  component: ReturnType<typeof findDefaultComponent>,
+  ast: TSESTree.Program
+): TSESTree.TypeNode | null {
+  if (!component) {
+    return null;
+  }
+  const [param] = component.component.params;
+  const target = param?.type === 'AssignmentPattern' ? param.left : param;
+  if (target && 'typeAnnotation' in target && target.typeAnnotation) {
+    return target.typeAnnotation.typeAnnotation;
   }
 
-  // Add client component import
-  output += `import ${clientImportName} from './${clientComponentName}';\n`;
+  let declarator: TSESTree.VariableDeclarator | undefined;
+  walk(ast, (node) => {
+    if (node.type === 'VariableDeclarator' && node.init === component.component) {
+      declarator = node;
+    }
+  });
+  const annotation = declarator?.id.typeAnnotation?.typeAnnotation;
+  if (annotation?.type === 'TSTypeReference') {
+    return annotation.typeArguments?.params[0] ?? null;
+  }
+  return null;
+}
 
-  // Add other imports
-  for (const imp of otherImports) {
-    const sourceCode = originalContent.slice(imp.range[0], imp.range[1]);
-    output += sourceCode + '\n';
+/**
+ * Moves the component into a `'use client'` module and leaves a typed
+ * server wrapper behind. Named exports are kept: server-only exports such as
+ * `metadata` and exports the client module doesn't need stay in the server
+ * module, everything else is re-exported from the client module.
+ */
+function planComponent(
+  code: string,
+  filePath: string,
+  ast: TSESTree.Program,
+  features: ClientFeature[],
+  paths: SplitPaths,
+  clientNameTemplate: string
+): FileEdit[] {
+  const ext = path.extname(filePath);
+  const baseName = path.basename(filePath, ext);
+  const dir = path.dirname(filePath);
+  const clientModule = relativeSpecifier(paths.server, paths.client);
+  const typed = typeScriptExtensions.includes(ext);
+  const text = (node: TSESTree.Node) => code.slice(node.range[0], node.range[1]);
+
+  const scopeManager = analyze(ast, { sourceType: 'module' });
+  const references = scopeManager.scopes.flatMap((scope) => scope.references);
+  const statements = ast.body.filter((statement) => statement.type !== 'ImportDeclaration');
+  const imports = ast.body.filter(
+    (statement): statement is TSESTree.ImportDeclaration => statement.type === 'ImportDeclaration'
+  );
+  const reactImports: TSESTree.ImportClause[] = imports.flatMap((declaration) =>
+    declaration.source.value === 'react'
+      ? declaration.specifiers.filter((specifier) => specifier.type !== 'ImportSpecifier')
+      : []
+  );
+
+  const referencesIn = (ranges: TSESTree.Range[]): Reference[] =>
+    references.filter((reference) =>
+      ranges.some((range) => contains(range, reference.identifier.range))
+    );
+  // Top-level statements the ranges use, directly or through other statements
+  const uses = (ranges: TSESTree.Range[]) => {
+    const used = new Set<TSESTree.ProgramStatement>();
+    for (const pending = [...ranges]; pending.length > 0;) {
+      for (const reference of referencesIn([pending.pop() as TSESTree.Range])) {
+        const declaring = statements.find((statement) =>
+          reference.resolved?.defs.some(
+            (def) => def.type !== 'ImportBinding' && contains(statement.range, def.name.range)
+          )
+        );
+        if (declaring && !used.has(declaring)) {
+          used.add(declaring);
+          pending.push(declaring.range);
+        }
+      }
+    }
+    return used;
+  };
+  const importsUsedIn = (ranges: TSESTree.Range[]) =>
+    new Set<TSESTree.Node>([
+      ...reactImports,
+      ...referencesIn(ranges).flatMap((reference) =>
+        (reference.resolved?.defs ?? []).flatMap((def) =>
+          def.type === 'ImportBinding' ? [def.node] : []
+        )
+      ),
+    ]);
+
+  const found = findDefaultComponent(ast);
+  const defaultExport = statements.find(
+    (statement): statement is TSESTree.ExportDefaultDeclaration =>
+      statement.type === 'ExportDefaultDeclaration'
+  );
+  const componentName =
+    found?.name ??
+    (defaultExport?.declaration.type === 'Identifier' ? defaultExport.declaration.name : null) ??
+    pascalCase(baseName);
+  const clientName = uniqueName(
+    code,
+    expandTemplate(clientNameTemplate, { Name: componentName, name: baseName })
+  );
+  if (!/^[A-Za-z_$][\w$]*$/.test(clientName)) {
+    throw new Error(`The client component name is not a valid identifier: ${clientName}`);
   }
 
-  output += '\n';
+  // `export { a, metadata };` lists are divided by name
+  const exportLists = statements.filter(
+    (statement): statement is TSESTree.ExportNamedDeclaration =>
+      statement.type === 'ExportNamedDeclaration' &&
+      !statement.declaration &&
+      !statement.source &&
+      statement.exportKind === 'value'
+  );
+  const serverSpecifiers = exportLists.flatMap((statement) =>
+    statement.specifiers.filter((specifier) => nextServerExports.includes(specifier.exported.name))
+  );
+  const clientSpecifiers = exportLists.flatMap((statement) =>
+    statement.specifiers.filter((specifier) => !serverSpecifiers.includes(specifier))
+  );
+
+  const clientUses = uses([
+    ...statements
+      .filter(
+        (statement) =>
+          statement === defaultExport ||
+          (found && contains(statement.range, found.component.range)) ||
+          features.some((feature) => contains(statement.range, feature.node.range)) ||
+          // Side effects such as `registerIcons();`
+          !statement.type.endsWith('Declaration')
+      )
+      .map((statement) => statement.range),
+    ...clientSpecifiers.map((specifier) => specifier.range),
+  ]);
+  const propsType = propsTypeNode(found, ast);
+  const serverUses = uses([
+    ...statements
+      .filter(
+        (statement) =>
+          isServerExport(statement) ||
+          // Exports the component doesn't need remain real server code
+          (exportedNames(statement).length > 0 &&
+            statement.type === 'ExportNamedDeclaration' &&
+            !!statement.declaration &&
+            !isTypeStatement(statement) &&
+            !clientUses.has(statement))
+      )
+      .map((statement) => statement.range),
+    ...serverSpecifiers.map((specifier) => specifier.range),
+    ...(propsType ? [propsType.range] : []),
+    ...(found?.component.typeParameters ? [found.component.typeParameters.range] : []),
+  ]);
+  const onServer = (statement: TSESTree.ProgramStatement) =>
+    statement !== defaultExport &&
+    !exportLists.includes(statement as TSESTree.ExportNamedDeclaration) &&
+    !isTypeStatement(statement) &&
+    (serverUses.has(statement) || isServerExport(statement));
+  const onClient = (statement: TSESTree.ProgramStatement) =>
+    isTypeStatement(statement) ||
+    clientUses.has(statement) ||
+    exportLists.includes(statement as TSESTree.ExportNamedDeclaration) ||
+    !onServer(statement);
 
-  // Generate server component
-  if (context.defaultExport) {
-    const exportNode = context.defaultExport;
-    if (exportNode.declaration.type === 'FunctionDeclaration' || exportNode.declaration.type === 'ArrowFunctionExpression') {
-      const funcName = exportNode.declaration.type === 'FunctionDeclaration' 
-        ? exportNode.declaration.id?.name || 'Component'
-        : 'Component';
-      
-      output += `export default function ${funcName}(props: any) {\n`;
-      output += `  return <${clientImportName} {...props} />;\n`;
-      output += `}\n`;
-    } else {
-      // For other export types, create a wrapper
-      output += `export default function ${baseName.charAt(0).toUpperCase() + baseName.slice(1)}(props: any) {\n`;
-      output += `  return <${clientImportName} {...props} />;\n`;
-      output += `}\n`;
+  // Types the server module needs come from the client module
+  const serverTypes = statements.filter(
+    (statement) => isTypeStatement(statement) && serverUses.has(statement)
+  );
+  const typeName = (statement: TSESTree.ProgramStatement) =>
+    statement.type === 'ExportNamedDeclaration' && statement.declaration
+      ? exportedNames(statement)
+      : 'id' in statement && statement.id?.type === 'Identifier'
+        ? [statement.id.name]
+        : [];
+
+  // Client module: the original file without what only the server needs
+  const clientEdits: TextEdit[] = [];
+  const remove = (node: TSESTree.Node) => {
+    const [start, end] = lineSpan(
+      code,
+      withLeadingComments(code, ast, node.range[0]),
+      node.range[1]
+    );
+    clientEdits.push({ start, end, text: '' });
+  };
+  for (const statement of statements) {
+    if (!onClient(statement)) {
+      remove(statement);
+    } else if (isServerExport(statement) && statement.type === 'ExportNamedDeclaration') {
+      // Next.js rejects metadata exports from client modules
+      clientEdits.push({
+        start: statement.range[0],
+        end: statement.declaration?.range[0] ?? statement.range[0],
+        text: '',
+      });
+    } else if (serverTypes.includes(statement) && statement.type !== 'ExportNamedDeclaration') {
+      clientEdits.push({ start: statement.range[0], end: statement.range[0], text: 'export ' });
     }
-  } else {
-    output += `export default function ${baseName.charAt(0).toUpperCase() + baseName.slice(1)}(props: any) {\n`;
-    output += `  return <${clientImportName} {...props} />;\n`;
-    output += `}\n`;
   }
+  for (const statement of exportLists) {
+    const kept = statement.specifiers.filter((specifier) => clientSpecifiers.includes(specifier));
+    if (kept.length === 0) {
+      remove(statement);
+    } else if (kept.length < statement.specifiers.length) {
+      clientEdits.push({
+        start: statement.range[0],
+        end: statement.range[1],
+        text: `export { ${kept.map(text).join(', ')} };`,
+      });
+    }
+  }
+  const clientImports = importsUsedIn(
+    statements.filter(onClient).map((statement) => statement.range)
+  );
+  for (const declaration of imports) {
+    const kept = declaration.specifiers.filter((specifier) => clientImports.has(specifier));
+    if (declaration.specifiers.length > 0 && kept.length === 0) {
+      remove(declaration);
+    } else if (kept.length < declaration.specifiers.length) {
+      clientEdits.push({
+        start: declaration.range[0],
+        end: declaration.range[1],
+        text: importText(code, declaration, kept),
+      });
+    }
+  }
+  const prologueStart = ast.body[0] ? withLeadingComments(code, ast, ast.body[0].range[0]) : 0;
+  clientEdits.push({ start: prologueStart, end: prologueStart, text: "'use client';\n\n" });
 
-  return output;
-}
+  // Server module: imports, server-only code, re-exports and the wrapper
+  const serverStatements = statements.filter(onServer);
+  const serverImports = importsUsedIn([
+    ...serverStatements.map((statement) => statement.range),
+    ...serverSpecifiers.map((specifier) => specifier.range),
+    ...(propsType ? [propsType.range] : []),
+    ...(found?.component.typeParameters ? [found.component.typeParameters.range] : []),
+  ]);
+  const importLines = imports.flatMap((declaration) => {
+    const kept = declaration.specifiers.filter((specifier) => serverImports.has(specifier));
+    return kept.length > 0 ? [importText(code, declaration, kept)] : [];
+  });
+  const localTypes = serverTypes.flatMap(typeName);
+  if (localTypes.length > 0) {
+    importLines.push(`import type { ${localTypes.join(', ')} } from '${clientModule}';`);
+  }
+  // Wrapped components such as `memo(...)` may take props we can't see
+  const hasProps = found ? found.component.params.length > 0 : true;
+  const propsText = propsType
+    ? text(propsType)
+    : typed && hasProps
+      ? `ComponentProps<typeof ${clientName}>`
+      : null;
+  if (propsText?.startsWith('ComponentProps<')) {
+    importLines.push("import type { ComponentProps } from 'react';");
+  }
+  importLines.push(`import ${clientName} from '${clientModule}';`);
 
-function generateClientComponent(
-  originalContent: string,
-  originalPath: string,
-  context: SplitContext
-): string {
-  let output = "'use client';\n\n";
+  const exportedTypes = statements
+    .filter(
+      (statement) => isTypeStatement(statement) && statement.type === 'ExportNamedDeclaration'
+    )
+    .flatMap(exportedNames);
+  const exportedValues = [
+    ...statements
+      .filter(
+        (statement) => onClient(statement) && !onServer(statement) && !isTypeStatement(statement)
+      )
+      .filter((statement) => !exportLists.includes(statement as TSESTree.ExportNamedDeclaration))
+      .flatMap(exportedNames),
+    ...clientSpecifiers.map((specifier) => specifier.exported.name),
+  ];
+  const reexports = [
+    ...(serverSpecifiers.length > 0
+      ? [`export { ${serverSpecifiers.map(text).join(', ')} };`]
+      : []),
+    ...(exportedTypes.length > 0
+      ? [`export type { ${exportedTypes.join(', ')} } from '${clientModule}';`]
+      : []),
+    ...(exportedValues.length > 0
+      ? [`export { ${exportedValues.join(', ')} } from '${clientModule}';`]
+      : []),
+  ];
 
-  // Add all imports
-  for (const imp of context.imports) {
-    const sourceCode = originalContent.slice(imp.range[0], imp.range[1]);
-    output += sourceCode + '\n';
+  const typeParameters = found?.component.typeParameters
+    ? text(found.component.typeParameters)
+    : '';
+  const params = propsText ? `props: ${propsText}` : hasProps ? 'props' : '';
+  const wrapper = [
+    `export default function ${componentName}${typeParameters}(${params}) {`,
+    `  return <${clientName}${params ? ' {...props}' : ''} />;`,
+    '}',
+  ].join('\n');
+
+  const server = [
+    importLines.join('\n'),
+    ...serverStatements.map(text),
+    ...(reexports.length > 0 ? [reexports.join('\n')] : []),
+    wrapper,
+  ].join('\n\n');
+
+  // Copied imports are relative to the original file, which may sit elsewhere
+  const serverContent = relocateImports(`${server}\n`, filePath, dir, path.dirname(paths.server), [
+    clientModule,
+  ]);
+  return [
+    paths.server === filePath
+      ? { filePath, kind: 'update', content: serverContent, original: code }
+      : { filePath: paths.server, kind: 'create', content: serverContent },
+    {
+      filePath: paths.client,
+      kind: 'create',
+      content: relocateImports(
+        applyEdits(code, clientEdits),
+        filePath,
+        dir,
+        path.dirname(paths.client)
+      ),
+    },
+  ];
+}
+
+/**
+ * Rewrites the original file around its islands and generates the client
+ * module that holds them. Throws when the component can't be split this way.
+ */
+function planIslands(
+  code: string,
+  filePath: string,
+  ast: TSESTree.Program,
+  registry: DetectorRegistry,
+  clientPath: string
+): FileEdit[] {
+  const extraction: IslandExtraction | { reason: string } = findIslands(ast, { registry });
+  if ('reason' in extraction) {
+    throw new Error(`Cannot extract islands from ${path.basename(filePath)}: ${extraction.reason}`);
   }
 
-  // If no React import, add it
-  const hasReactImport = context.imports.some(
-    (imp) => imp.source.value === 'react' || imp.source.value === 'react/jsx-runtime'
-  );
-  if (!hasReactImport) {
-    output += "import React from 'react';\n";
+  const ext = path.extname(filePath);
+  const baseName = path.basename(filePath, ext);
+  const typed = typeScriptExtensions.includes(ext);
+  const text = (node: TSESTree.Node) => code.slice(node.range[0], node.range[1]);
+
+  const componentName = extraction.name ?? pascalCase(baseName);
+  const names: string[] = [];
+  for (const island of extraction.islands) {
+    names.push(uniqueName(code, componentName + islandSuffix(island.node), names));
   }
 
-  output += '\n';
+  // Types of island props come along: imports as type imports, and interfaces
+  // and aliases are exported by the server module for the client module
+  const typeSources = typed ? new Set<TypeSource>() : null;
+  const islands = extraction.islands
+    .map((island, index) =>
+      generateIsland(code, ast, extraction.component, island, names[index], typeSources)
+    )
+    .join('\n\n');
+  const serverModule = relativeSpecifier(clientPath, filePath);
+  const sharedTypes = ast.body.filter((statement) => typeSources?.has(statement));
+
+  // Client module: imports and declarations the islands use, then the islands
+  const imports = ast.body.flatMap((statement) => {
+    if (statement.type !== 'ImportDeclaration') {
+      return [];
+    }
+    const used = statement.specifiers.filter((specifier) =>
+      extraction.clientImports.includes(specifier)
+    );
+    const types = statement.specifiers.filter(
+      (specifier) => typeSources?.has(specifier) && !used.includes(specifier)
+    );
+    return [
+      ...(used.length > 0 ? [importText(code, statement, used)] : []),
+      ...(types.length > 0 ? typeImportTexts(code, statement, types) : []),
+    ];
+  });
+  const sharedTypeNames = sharedTypes.flatMap((statement) => {
+    const node = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+    return node && 'id' in node && node.id?.type === 'Identifier' ? [node.id.name] : [];
+  });
+  if (sharedTypeNames.length > 0) {
+    imports.push(`import type { ${sharedTypeNames.join(', ')} } from '${serverModule}';`);
+  }
+  const declarations = extraction.clientDeclarations.map((statement) =>
+    text(
+      statement.type === 'ExportNamedDeclaration' && statement.declaration
+        ? statement.declaration
+        : statement
+    )
+  );
+  const client = [
+    "'use client';",
+    '',
+    ...(imports.length > 0 ? [...imports, ''] : []),
+    ...declarations.flatMap((declaration) => [declaration, '']),
+    islands,
+    '',
+  ].join('\n');
 
-  // Add other statements (type definitions, etc.)
-  for (const stmt of context.otherStatements) {
-    const sourceCode = originalContent.slice(stmt.range[0], stmt.range[1]);
-    output += sourceCode + '\n';
+  // Server module: the original file with the islands swapped in
+  const edits: TextEdit[] = [];
+  for (const statement of sharedTypes) {
+    if (statement.type !== 'ExportNamedDeclaration') {
+      edits.push({ start: statement.range[0], end: statement.range[0], text: 'export ' });
+    }
+  }
+  const removed = new Set(extraction.serverRemoved);
+  const importDeclarations = ast.body.filter(
+    (statement): statement is TSESTree.ImportDeclaration => statement.type === 'ImportDeclaration'
+  );
+  let importEnd: number | null = null;
+  for (const declaration of importDeclarations) {
+    const kept = declaration.specifiers.filter((specifier) => !removed.has(specifier));
+    if (kept.length === declaration.specifiers.length) {
+      importEnd = declaration.range[1];
+    } else if (kept.length > 0) {
+      edits.push({
+        start: declaration.range[0],
+        end: declaration.range[1],
+        text: importText(code, declaration, kept),
+      });
+      importEnd = declaration.range[1];
+    } else {
+      const [start, end] = lineSpan(code, declaration.range[0], declaration.range[1]);
+      edits.push({ start, end, text: '' });
+    }
+  }
+  const islandImport = `import { ${names.join(', ')} } from '${relativeSpecifier(filePath, clientPath)}';`;
+  if (importEnd !== null) {
+    edits.push({ start: importEnd, end: importEnd, text: `\n${islandImport}` });
+  } else {
+    const first = ast.body.find(
+      (statement) => statement.type !== 'ExpressionStatement' || !statement.directive
+    );
+    const start = first ? withLeadingComments(code, ast, first.range[0]) : code.length;
+    edits.push({ start, end: start, text: `${islandImport}\n\n` });
   }
 
-  // Add the default export component
-  if (context.defaultExport) {
-    const exportNode = context.defaultExport;
-    const sourceCode = originalContent.slice(exportNode.range[0], exportNode.range[1]);
-    output += sourceCode + '\n';
+  for (const node of extraction.serverRemoved) {
+    if (
+      node.type !== 'ImportSpecifier' &&
+      node.type !== 'ImportDefaultSpecifier' &&
+      node.type !== 'ImportNamespaceSpecifier'
+    ) {
+      const [start, end] = lineSpan(
+        code,
+        withLeadingComments(code, ast, node.range[0]),
+        node.range[1]
+      );
+      edits.push({ start, end, text: '' });
+    }
   }
 
-  return output;
+  extraction.islands.forEach((island, index) => {
+    const key = keyAttribute(island.node);
+    const attributes = [
+      ...(key ? [text(key)] : []),
+      ...island.props.map((prop) => `${prop}={${prop}}`),
+    ];
+    const element = `<${[names[index], ...attributes].join(' ')} />`;
+    if (island.node) {
+      let [start, end] = island.node.range;
+      // `return (\n <div>...</div>\n);` becomes `return <Island />;`
+      const open = code.slice(0, start).trimEnd();
+      const close = code.slice(end).trimStart();
+      if (island.node === extraction.output && open.endsWith('(') && close.startsWith(')')) {
+        start = open.length - 1;
+        end = code.length - close.length + 1;
+      }
+      edits.push({ start, end, text: element });
+      return;
+    }
+
+    // Effects render next to the component's output
+    const { output } = extraction;
+    const opening =
+      output?.type === 'JSXElement' && !output.openingElement.selfClosing
+        ? output.openingElement
+        : output?.type === 'JSXFragment'
+          ? output.openingFragment
+          : null;
+    const firstChild =
+      output && 'children' in output
+        ? output.children.find((child) => child.type !== 'JSXText' || child.value.trim())
+        : undefined;
+    if (opening && firstChild) {
+      const indent = ' '.repeat(columnOf(code, firstChild.range[0]));
+      const separator = code.slice(opening.range[1], firstChild.range[0]).includes('\n')
+        ? `\n${indent}`
+        : '';
+      edits.push({
+        start: opening.range[1],
+        end: opening.range[1],
+        text: `${separator}${element}`,
+      });
+    } else if (output) {
+      const isJSX = output.type === 'JSXElement' || output.type === 'JSXFragment';
+      edits.push(
+        { start: output.range[0], end: output.range[0], text: `<>${element}${isJSX ? '' : '{'}` },
+        { start: output.range[1], end: output.range[1], text: `${isJSX ? '' : '}'}</>` }
+      );
+    }
+  });
+
+  return [
+    { filePath, kind: 'update', content: applyEdits(code, edits), original: code },
+    {
+      filePath: clientPath,
+      kind: 'create',
+      content: relocateImports(client, filePath, path.dirname(filePath), path.dirname(clientPath), [
+        serverModule,
+      ]),
+    },
+  ];
 }
 
-export async function split(filePath: string, options: { apply: boolean }): Promise<void> {
-  const absolutePath = path.resolve(filePath);
-  
-  if (!fs.existsSync(absolutePath)) {
-    throw new Error(`File not found: ${absolutePath}`);
+/**
+ * What happens to the original module once the component strategy has moved
+ * its code: it is deleted and its importers are rewritten, or it stays as a
+ * facade that re-exports the server file. Next.js route files always stay.
+ */
+function planOriginal(filePath: string, split: SplitPaths, options: SplitOptions): FileEdit[] {
+  const next = classifyNextFile(filePath);
+  const isRoute = Boolean(next?.convention) || next?.router === 'pages';
+
+  if (options.importers === 'facade' || isRoute) {
+    const specifier = relativeSpecifier(filePath, split.server);
+    return [
+      {
+        filePath,
+        kind: 'update',
+        content: `export * from '${specifier}';\nexport { default } from '${specifier}';\n`,
+      },
+    ];
   }
 
-  const content = fs.readFileSync(absolutePath, 'utf-8');
-  const ast = parse(content, {
+  return [{ filePath, kind: 'delete', content: '' }, ...rewriteImporters(filePath, split, options)];
+}
+
+export interface FileEdit {
+  filePath: string;
+  /**
+   * `create` for new files, `update` for existing files whose content
+   * changes, `delete` for files the split replaces (`content` is empty).
+   */
+  kind: 'create' | 'update' | 'delete';
+  content: string;
+  /**
+   * What the file holds before the split, when known: unset for files that
+   * don't exist yet. Dry runs and patches diff against it.
+   */
+  original?: string;
+}
+
+export type SplitStrategy = 'component' | 'islands';
+
+export const splitStrategies: readonly SplitStrategy[] = ['component', 'islands'];
+
+export type ImporterMode = 'rewrite' | 'facade';
+
+export const importerModes: readonly ImporterMode[] = ['rewrite', 'facade'];
+
+export interface SplitOptions extends ImporterOptions {
+  /**
+   * `'component'` (default) moves the whole component into a client file
+   * behind a server wrapper. `'islands'` keeps the component on the server
+   * and moves only the JSX subtrees that need the client into client
+   * components, passing the values they use as props.
+   */
+  strategy?: SplitStrategy;
+  /**
+   * How `planSplit` keeps imports of the original module working with the
+   * component strategy. `'rewrite'` (default) deletes it and points every
+   * importer in the project at the split files; `'facade'` keeps it as a
+   * module that re-exports the server file.
+   */
+  importers?: ImporterMode;
+  /**
+   * Where the server file goes, relative to the original file's directory.
+   * `{name}` is the original's base name, `{Name}` its PascalCase form and
+   * `{ext}` its extension. Default `'{name}.server{ext}'`; `'{name}{ext}'`
+   * keeps the server component in the original file. The islands strategy
+   * always keeps it there.
+   */
+  serverFile?: string;
+  /**
+   * Where the client file goes, like `serverFile`. Default
+   * `'{name}.client{ext}'`; for example `'{Name}Client{ext}'` or
+   * `'_client/{name}{ext}'`.
+   */
+  clientFile?: string;
+  /**
+   * Name of the client component the server wrapper renders, where
+   * `{Name}` is the component's name. Default `'{Name}Client'`.
+   */
+  clientName?: string;
+  /** Config file to detect with instead of the nearest `rsc-guardian.config.*`. */
+  config?: string;
+}
+
+export interface SplitPlan {
+  filePath: string;
+  strategy: SplitStrategy;
+  /** False when the component has no client-only features; `edits` is empty then. */
+  needsSplit: boolean;
+  features: Finding[];
+  edits: FileEdit[];
+  /**
+   * Existing files the split would create over. Only `planSplit` checks the
+   * disk; `applySplit` refuses to write the plan while this is non-empty.
+   */
+  conflicts: string[];
+}
+
+export interface ApplyOptions {
+  /** Overwrite files listed in `SplitPlan.conflicts` instead of refusing to. */
+  force?: boolean;
+}
+
+/**
+ * Works out how a component would be split into server and client files,
+ * without touching the disk. `filePath` decides where the new files go.
+ * The plan only holds the split files; `planSplit` also updates importers.
+ */
+export function planSplitSource(
+  code: string,
+  filePath: string,
+  options: SplitOptions = {}
+): SplitPlan {
+  const absolutePath = path.resolve(filePath);
+  const strategy = options.strategy ?? 'component';
+  const ast = parse(code, {
     jsx: true,
     loc: true,
     range: true,
+    comment: true,
   });
 
-  const context: SplitContext = {
-    hasClientFeatures: false,
-    clientNodes: new Set(),
-    imports: [],
-    otherStatements: [],
+  const registry = createConfigResolver({ config: options.config }).registryFor(absolutePath);
+  const features = detectClientFeatures(ast, { registry });
+
+  const plan: SplitPlan = {
+    filePath: absolutePath,
+    strategy,
+    needsSplit: features.length > 0,
+    features: features.map(toFinding),
+    edits: [],
+    conflicts: [],
   };
 
-  // Analyze the AST
-  for (const statement of ast.body) {
-    if (statement.type === 'ImportDeclaration') {
-      context.imports.push(statement);
-    } else if (statement.type === 'ExportDefaultDeclaration') {
-      context.defaultExport = statement;
-      if (analyzeNodeForClientFeatures(statement, context)) {
-        context.hasClientFeatures = true;
-      }
-    } else {
-      context.otherStatements.push(statement);
-      if (analyzeNodeForClientFeatures(statement, context)) {
-        context.hasClientFeatures = true;
-      }
-    }
+  if (plan.needsSplit) {
+    const paths = splitPaths(absolutePath, options);
+    plan.edits.push(
+      ...(strategy === 'islands'
+        ? planIslands(code, absolutePath, ast, registry, paths.client)
+        : planComponent(
+            code,
+            absolutePath,
+            ast,
+            features,
+            paths,
+            options.clientName ?? defaultClientName
+          ))
+    );
   }
+  return plan;
+}
+
+/**
+ * Plans the split of a file on disk. Unlike `planSplitSource`, this also
+ * covers the rest of the project: with the component strategy the original
+ * module is deleted and its importers are rewritten, or it becomes a facade
+ * (see `SplitOptions.importers`).
+ */
+export function planSplit(filePath: string, options: SplitOptions = {}): SplitPlan {
+  const absolutePath = path.resolve(filePath);
 
-  if (!context.hasClientFeatures) {
-    console.log('No client-only features detected. No split needed.');
-    return;
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`File not found: ${absolutePath}`);
   }
 
-  const dir = path.dirname(absolutePath);
-  const baseName = path.basename(absolutePath, path.extname(absolutePath));
-  const ext = path.extname(absolutePath);
-  const serverPath = path.join(dir, `${baseName}.server${ext}`);
-  const clientPath = path.join(dir, `${baseName}.client${ext}`);
+  const plan = planSplitSource(fs.readFileSync(absolutePath, 'utf-8'), absolutePath, options);
+  const [server, client] = plan.edits;
+  // A server component written back to the original file keeps its importers working
+  if (plan.needsSplit && plan.strategy === 'component' && server.filePath !== absolutePath) {
+    plan.edits.push(
+      ...planOriginal(absolutePath, { server: server.filePath, client: client.filePath }, options)
+    );
+  }
 
-  const serverContent = generateServerComponent(content, absolutePath, context);
-  const clientContent = generateClientComponent(content, absolutePath, context);
+  for (const edit of plan.edits) {
+    if (edit.original === undefined && fs.existsSync(edit.filePath)) {
+      edit.original = fs.readFileSync(edit.filePath, 'utf-8');
+    }
+  }
+  plan.conflicts = plan.edits
+    .filter((edit) => edit.kind === 'create' && edit.original !== undefined)
+    .map((edit) => edit.filePath);
+  return plan;
+}
 
-  if (options.apply) {
-    fs.writeFileSync(serverPath, serverContent, 'utf-8');
-    fs.writeFileSync(clientPath, clientContent, 'utf-8');
-    console.log(`✓ Created ${serverPath}`);
-    console.log(`✓ Created ${clientPath}`);
-  } else {
-    // Generate unified diff
-    console.log('\n--- Proposed Changes ---\n');
-    console.log(`+++ ${serverPath}`);
-    const serverDiff = diffLines('', serverContent);
-    serverDiff.forEach((part: { added?: boolean; removed?: boolean; value: string }) => {
-      const prefix = part.added ? '+' : part.removed ? '-' : ' ';
-      const lines = part.value.split('\n');
-      lines.forEach((line: string) => {
-        if (line || part.added || part.removed) {
-          console.log(`${prefix}${line}`);
-        }
-      });
-    });
-
-    console.log(`\n+++ ${clientPath}`);
-    const clientDiff = diffLines('', clientContent);
-    clientDiff.forEach((part: { added?: boolean; removed?: boolean; value: string }) => {
-      const prefix = part.added ? '+' : part.removed ? '-' : ' ';
-      const lines = part.value.split('\n');
-      lines.forEach((line: string) => {
-        if (line || part.added || part.removed) {
-          console.log(`${prefix}${line}`);
-        }
-      });
-    });
+/**
+ * Writes every edit of a plan to disk, deleting the files it replaces, and
+ * returns the paths it touched. Throws before writing anything if a file
+ * the plan creates exists by now, unless `force` is set.
+ */
+export function applySplit(plan: SplitPlan, options: ApplyOptions = {}): string[] {
+  const existing = plan.edits
+    .filter((edit) => edit.kind === 'create' && fs.existsSync(edit.filePath))
+    .map((edit) => edit.filePath);
+  if (existing.length > 0 && !options.force) {
+    throw new Error(`Refusing to overwrite existing files: ${existing.join(', ')}`);
+  }
 
-    console.log('\n--- End of diff ---');
-    console.log('\nRun with --apply to write these files.\n');
+  for (const edit of plan.edits) {
+    if (edit.kind === 'delete') {
+      fs.unlinkSync(edit.filePath);
+    } else {
+      fs.mkdirSync(path.dirname(edit.filePath), { recursive: true });
+      fs.writeFileSync(edit.filePath, edit.content, 'utf-8');
+    }
   }
+  return plan.edits.map((edit) => edit.filePath);
 }
-
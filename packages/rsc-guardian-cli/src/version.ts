@@ -0,0 +1,12 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+function packageVersion(packageJson: string): string {
+  return (JSON.parse(fs.readFileSync(packageJson, 'utf-8')) as { version: string }).version;
+}
+
+/** Read from package.json, which sits next to both `src` and `dist`. */
+export const version = packageVersion(path.join(__dirname, '../package.json'));
+
+/** The installed rsc-guardian-core, whose detection the analysis results come from. */
+export const coreVersion = packageVersion(require.resolve('rsc-guardian-core/package.json'));
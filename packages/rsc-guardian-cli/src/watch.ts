@@ -0,0 +1,329 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { configFileNames, createModuleResolver, sourceExtensions } from 'rsc-guardian-core';
+import { createFileAnalyzer } from './analyze';
+import type { AnalysisResult, AnalyzeOptions, FileAnalyzer } from './analyze';
+import { collectViolations } from './check';
+import type { Violation } from './check';
+import { collectFiles } from './files';
+
+export interface WatchUpdate {
+  /** Changed files, including added and removed ones. */
+  changed: string[];
+  /** Files analyzed again: the changed files and the files that import them. */
+  analyzed: string[];
+  /** Violations that weren't there before the change. */
+  added: Violation[];
+  /** Violations that are gone, because they were fixed or their file was removed. */
+  resolved: Violation[];
+  /** Analyzed files that could not be parsed. */
+  errors: Array<{ filePath: string; message: string }>;
+}
+
+export interface WatchSession {
+  /** The latest result of every file, in path order. */
+  results(): AnalysisResult[];
+  /** Analyzes the files affected by changes to `paths` and returns how the violations changed. */
+  update(paths: string[]): Promise<WatchUpdate>;
+}
+
+export interface WatchOptions extends AnalyzeOptions {
+  /** Milliseconds to wait for further changes before analyzing (default: 100). */
+  debounce?: number;
+  onUpdate(update: WatchUpdate): void;
+  onError(error: unknown): void;
+}
+
+export interface Watcher {
+  session: WatchSession;
+  close(): void;
+}
+
+// Changes to these affect every file: detector settings and import aliases
+const projectFiles = new Set([...configFileNames, 'tsconfig.json']);
+
+/** Every file reachable from `files` through `edges`, including `files`. */
+function reachable(files: Iterable<string>, edges: Array<Map<string, string[]>>): Set<string> {
+  const seen = new Set(files);
+  const queue = Array.from(seen);
+  while (queue.length > 0) {
+    const file = queue.shift() as string;
+    for (const edge of edges) {
+      for (const next of edge.get(file) ?? []) {
+        if (!seen.has(next)) {
+          seen.add(next);
+          queue.push(next);
+        }
+      }
+    }
+  }
+  return seen;
+}
+
+function reverse(imports: Map<string, string[]>): Map<string, string[]> {
+  const importers = new Map<string, string[]>();
+  for (const [file, targets] of imports) {
+    for (const target of targets) {
+      importers.set(target, [...(importers.get(target) ?? []), file]);
+    }
+  }
+  return importers;
+}
+
+/**
+ * Analyzes files like `analyzeFiles` and keeps the results, import edges
+ * and violations so that later changes only re-analyze the changed files
+ * and the files that import them, directly or not. With `framework:
+ * 'next-app'` the files they import are analyzed again too, since whether
+ * a module renders on the server depends on its importers.
+ */
+export async function createWatchSession(
+  inputs: string | string[],
+  options: AnalyzeOptions = {}
+): Promise<WatchSession> {
+  const patterns = Array.isArray(inputs) ? inputs : [inputs];
+  const root = path.resolve(options.cwd ?? process.cwd());
+  const results = new Map<string, AnalysisResult>();
+  const specifiers = new Map<string, string[]>();
+  const imports = new Map<string, string[]>();
+  const violations = new Map<string, Violation[]>();
+
+  function resolveImports(files: Iterable<string>): void {
+    const resolver = createModuleResolver();
+    for (const file of files) {
+      const resolved = (specifiers.get(file) ?? [])
+        .map((specifier) => resolver.resolve(specifier, file))
+        .filter((target): target is string => target !== null && specifiers.has(target));
+      imports.set(file, Array.from(new Set(resolved)));
+    }
+  }
+
+  function analyze(files: string[], analyzer: FileAnalyzer): void {
+    for (const file of files) {
+      const result = analyzer.analyze(file);
+      results.set(file, result);
+      violations.set(file, collectViolations([result], { root }));
+    }
+    analyzer.save();
+  }
+
+  const files = await collectFiles(patterns, options);
+  if (files.length === 0) {
+    throw new Error(`No files matched: ${patterns.join(', ')}`);
+  }
+  const analyzer = createFileAnalyzer(options);
+  for (const file of files) {
+    specifiers.set(file, analyzer.imports(file));
+  }
+  resolveImports(files);
+  analyze(files, analyzer);
+
+  return {
+    results() {
+      return Array.from(results.keys())
+        .sort()
+        .map((file) => results.get(file) as AnalysisResult);
+    },
+
+    async update(paths) {
+      const current = await collectFiles(patterns, options);
+      const currentSet = new Set(current);
+      const absolutePaths = paths.map((file) => path.resolve(root, file));
+      const added = current.filter((file) => !results.has(file));
+      const removed = Array.from(results.keys()).filter((file) => !currentSet.has(file));
+      const changed = new Set([
+        ...absolutePaths.filter((file) => currentSet.has(file)),
+        ...added,
+        ...removed,
+      ]);
+      const everything = absolutePaths.some((file) => projectFiles.has(path.basename(file)));
+
+      // A new analyzer, since the files its lookups were computed from changed
+      const analyzer = createFileAnalyzer(options);
+      const previousImports = new Map(imports);
+      const before = new Map(violations);
+      for (const file of removed) {
+        results.delete(file);
+        specifiers.delete(file);
+        imports.delete(file);
+        violations.delete(file);
+      }
+      for (const file of changed) {
+        if (currentSet.has(file)) {
+          specifiers.set(file, analyzer.imports(file));
+        }
+      }
+      // Added and removed files change what the imports of other files resolve to
+      resolveImports(
+        everything || added.length > 0 || removed.length > 0
+          ? current
+          : current.filter((file) => changed.has(file))
+      );
+
+      let affected = everything
+        ? new Set(current)
+        : reachable(changed, [reverse(previousImports), reverse(imports)]);
+      if (options.framework === 'next-app') {
+        affected = reachable(affected, [previousImports, imports]);
+      }
+      const analyzed = current.filter((file) => affected.has(file));
+      analyze(analyzed, analyzer);
+
+      const update: WatchUpdate = {
+        changed: Array.from(changed).sort(),
+        analyzed,
+        added: [],
+        resolved: [],
+        errors: [],
+      };
+      for (const file of [...analyzed, ...removed].sort()) {
+        const previous = before.get(file) ?? [];
+        const next = violations.get(file) ?? [];
+        const known = new Set(previous.map((violation) => violation.fingerprint));
+        const remaining = new Set(next.map((violation) => violation.fingerprint));
+        update.added.push(...next.filter((violation) => !known.has(violation.fingerprint)));
+        update.resolved.push(
+          ...previous.filter((violation) => !remaining.has(violation.fingerprint))
+        );
+        const error = results.get(file)?.error;
+        if (error) {
+          update.errors.push({ filePath: file, message: error });
+        }
+      }
+      return update;
+    },
+  };
+}
+
+/**
+ * The directories to watch for each input: directories themselves, the
+ * parent of files and the static part of globs.
+ */
+function watchRoots(patterns: string[], cwd: string): string[] {
+  const roots = patterns.map((input) => {
+    let root = path.resolve(cwd, input);
+    if (fg.isDynamicPattern(input)) {
+      const segments = input.split(/[\\/]/);
+      const dynamic = segments.findIndex((segment) => fg.isDynamicPattern(segment));
+      root = path.resolve(cwd, segments.slice(0, dynamic).join('/'));
+    }
+    while (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+      root = path.dirname(root);
+    }
+    return root;
+  });
+  return Array.from(new Set(roots))
+    .sort()
+    .filter((root, index, sorted) =>
+      sorted.slice(0, index).every((other) => !root.startsWith(other + path.sep))
+    );
+}
+
+function isWatchedDirectory(name: string): boolean {
+  return name !== 'node_modules' && !name.startsWith('.');
+}
+
+function isRelevant(file: string): boolean {
+  const extension = path.extname(file);
+  // Directories usually have no extension: added or removed ones may hold sources
+  return (
+    !extension ||
+    sourceExtensions.includes(extension) ||
+    projectFiles.has(path.basename(file)) ||
+    path.basename(file) === '.gitignore'
+  );
+}
+
+/**
+ * Analyzes the files, then watches the directories they were collected from
+ * with `fs.watch` and reports how the violations change. Each directory is
+ * watched on its own, skipping `node_modules` and dot directories, which
+ * works on every platform Node.js supports without a watch service.
+ */
+export async function watchFiles(
+  inputs: string | string[],
+  options: WatchOptions
+): Promise<Watcher> {
+  const patterns = Array.isArray(inputs) ? inputs : [inputs];
+  const session = await createWatchSession(patterns, options);
+  const watchers = new Map<string, fs.FSWatcher>();
+  const pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Updates run one after the other, each on the state the previous one left
+  let queue = Promise.resolve();
+
+  function flush(): void {
+    const paths = Array.from(pending);
+    pending.clear();
+    queue = queue
+      .then(() => session.update(paths))
+      .then((update) => {
+        if (update.analyzed.length > 0 || update.resolved.length > 0) {
+          options.onUpdate(update);
+        }
+      })
+      .catch(options.onError);
+  }
+
+  function unwatch(dir: string): void {
+    for (const [watched, watcher] of watchers) {
+      if (watched === dir || watched.startsWith(dir + path.sep)) {
+        watcher.close();
+        watchers.delete(watched);
+      }
+    }
+  }
+
+  function watch(dir: string): void {
+    if (watchers.has(dir)) {
+      return;
+    }
+    let watcher: fs.FSWatcher | undefined;
+    let entries: fs.Dirent[];
+    try {
+      watcher = fs.watch(dir, (_event, name) => {
+        const file = name ? path.join(dir, name.toString()) : dir;
+        const stat = fs.statSync(file, { throwIfNoEntry: false });
+        if (!stat) {
+          unwatch(file);
+        } else if (stat.isDirectory() && isWatchedDirectory(path.basename(file))) {
+          // New directories, possibly moved in with their contents
+          watch(file);
+        }
+        if (isRelevant(file)) {
+          pending.add(file);
+          clearTimeout(timer);
+          timer = setTimeout(flush, options.debounce ?? 100);
+        }
+      });
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      // Removed before it could be watched or read; an open watcher would keep the process alive
+      watcher?.close();
+      return;
+    }
+    watcher.on('error', () => unwatch(dir));
+    watchers.set(dir, watcher);
+    for (const entry of entries) {
+      if (entry.isDirectory() && isWatchedDirectory(entry.name)) {
+        watch(path.join(dir, entry.name));
+      }
+    }
+  }
+
+  for (const root of watchRoots(patterns, path.resolve(options.cwd ?? process.cwd()))) {
+    watch(root);
+  }
+
+  return {
+    session,
+    close() {
+      clearTimeout(timer);
+      for (const watcher of watchers.values()) {
+        watcher.close();
+      }
+      watchers.clear();
+    },
+  };
+}
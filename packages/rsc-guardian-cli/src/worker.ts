@@ -0,0 +1,12 @@
+import { parentPort, workerData } from 'worker_threads';
+import { createConfigResolver } from 'rsc-guardian-core';
+import { readFileFacts } from './analyze';
+import type { SourceOptions } from './analyze';
+
+// Parses the files `analyzeFiles` hands out through `runInWorkers`, one message per file
+const options: SourceOptions = workerData;
+const config = createConfigResolver({ config: options.config });
+
+parentPort?.on('message', (filePath: string) => {
+  parentPort?.postMessage(readFileFacts(filePath, options, config));
+});
@@ -1,9 +1,15 @@
+import { fileURLToPath } from 'url';
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  resolve: {
+    alias: {
+      // Test against the core sources so the core package doesn't need building first
+      'rsc-guardian-core': fileURLToPath(new URL('../rsc-guardian-core/src/index.ts', import.meta.url)),
+    },
+  },
   test: {
     globals: true,
     environment: 'node',
   },
 });
-
@@ -0,0 +1,5 @@
+export { default as Dialog } from './Dialog';
+export * from './Card';
+import Sheet from './Sheet';
+export { Sheet };
+export { format } from '../format';
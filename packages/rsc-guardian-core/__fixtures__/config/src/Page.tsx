@@ -0,0 +1,5 @@
+import Chart from './design-system/Chart';
+
+export default function Page() {
+  return <Chart data={[1, 2, 3]} />;
+}
@@ -0,0 +1,7 @@
+import { LineChart } from '@acme/charts';
+import { useTheme } from '../theme';
+
+export default function Chart({ data }: { data: number[] }) {
+  const theme = useTheme();
+  return <LineChart data={data} color={theme.primary} />;
+}
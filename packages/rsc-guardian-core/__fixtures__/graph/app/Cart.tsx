@@ -0,0 +1,6 @@
+import { useCart } from '@/hooks/useCart';
+
+export default function Cart({ items }: { items: unknown[] }) {
+  const cart = useCart(items);
+  return <p>{cart.count} items</p>;
+}
@@ -0,0 +1,7 @@
+'use client';
+
+import { track } from './analytics';
+
+export default function ClientButton() {
+  return <button onClick={() => track('click')}>Buy</button>;
+}
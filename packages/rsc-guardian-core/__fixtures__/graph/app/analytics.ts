@@ -0,0 +1,3 @@
+export function track(event: string) {
+  window.dispatchEvent(new CustomEvent(event));
+}
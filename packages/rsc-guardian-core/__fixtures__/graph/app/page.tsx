@@ -0,0 +1,15 @@
+import type { Item } from './types';
+import { getItems } from '../lib/data';
+import Cart from './Cart';
+import ClientButton from './ClientButton';
+
+export default async function Page() {
+  const items: Item[] = await getItems();
+
+  return (
+    <main>
+      <Cart items={items} />
+      <ClientButton />
+    </main>
+  );
+}
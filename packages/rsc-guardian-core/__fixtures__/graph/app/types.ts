@@ -0,0 +1,3 @@
+export type Item = { id: string };
+
+export const viewportWidth = window.innerWidth;
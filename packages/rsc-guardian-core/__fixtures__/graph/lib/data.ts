@@ -0,0 +1,4 @@
+export async function getItems() {
+  const res = await fetch('https://api.example.com/items');
+  return res.json();
+}
@@ -0,0 +1,6 @@
+import { useState } from 'react';
+
+export function useCart(items: unknown[]) {
+  const [count] = useState(items.length);
+  return { count };
+}
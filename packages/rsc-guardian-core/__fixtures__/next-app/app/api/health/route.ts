@@ -0,0 +1,5 @@
+import { formatDate } from '../../../components/format';
+
+export function GET() {
+  return Response.json({ ok: true, at: formatDate(new Date()) });
+}
@@ -0,0 +1,12 @@
+'use client';
+
+import Counter from '../../components/Counter';
+
+export default function Shell({ children }: { children: React.ReactNode }) {
+  return (
+    <div>
+      <Counter />
+      {children}
+    </div>
+  );
+}
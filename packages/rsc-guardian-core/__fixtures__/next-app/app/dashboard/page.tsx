@@ -0,0 +1,6 @@
+import Shell from './Shell';
+import { formatDate } from '../../components/format';
+
+export default function DashboardPage() {
+  return <Shell>{formatDate(new Date())}</Shell>;
+}
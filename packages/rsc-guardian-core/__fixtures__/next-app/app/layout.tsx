@@ -0,0 +1,14 @@
+import Header from '../components/Header';
+
+export const metadata = { title: 'Fixture' };
+
+export default function RootLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <html>
+      <body>
+        <Header />
+        {children}
+      </body>
+    </html>
+  );
+}
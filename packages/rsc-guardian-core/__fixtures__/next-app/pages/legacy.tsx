@@ -0,0 +1,6 @@
+import { useState } from 'react';
+
+export default function Legacy() {
+  const [open] = useState(false);
+  return <div>{String(open)}</div>;
+}
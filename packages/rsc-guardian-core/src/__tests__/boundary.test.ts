@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { createBoundaryResolver } from '../boundary';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('createBoundaryResolver', () => {
+  const fixturesDir = path.resolve(__dirname, '../../__fixtures__/boundary');
+  const fromFile = path.join(fixturesDir, 'page.tsx');
+  const resolver = createBoundaryResolver();
+  const resolve = (specifier: string, importedName: string) => {
+    const boundary = resolver.resolve(specifier, importedName, fromFile);
+    return boundary && [path.relative(fixturesDir, boundary.file), boundary.directive];
+  };
+
+  it('should follow re-exports through barrel files', () => {
+    expect(resolve('./ui', 'Dialog')).toEqual(['ui/Dialog.tsx', 'use client']);
+    expect(resolve('./ui', 'Card')).toEqual(['ui/Card.tsx', 'use client']);
+    expect(resolve('./ui', 'Sheet')).toEqual(['ui/Sheet.tsx', 'use client']);
+  });
+
+  it('should report server modules and ignore plain modules and packages', () => {
+    expect(resolve('./actions', 'save')).toEqual(['actions.ts', 'use server']);
+    expect(resolve('./ui', 'format')).toBeNull();
+    expect(resolve('./ui', 'default')).toBeNull();
+    expect(resolve('react', 'useState')).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { createConfigResolver, findConfigFile, loadConfig } from '../config';
+import { analyzeImportGraph } from '../graph';
+import { parseModule } from '../parse';
+import { detectClientFeatures } from '../registry';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const fixturesDir = path.resolve(__dirname, '../../__fixtures__/config');
+
+function createTempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'rsc-guardian-config-'));
+}
+
+describe('createConfigResolver', () => {
+  it('should find the nearest config file and merge matching overrides', () => {
+    const config = createConfigResolver();
+
+    expect(findConfigFile(path.join(fixturesDir, 'src/Page.tsx'))).toBe(
+      path.join(fixturesDir, 'rsc-guardian.config.json')
+    );
+    expect(config.settingsFor(path.join(fixturesDir, 'src/Page.tsx'))).toEqual({
+      clientGlobals: ['IntersectionObserver', 'matchMedia'],
+      serverHooks: ['useId', 'useTranslations'],
+      clientPackages: ['framer-motion'],
+    });
+    expect(config.settingsFor(path.join(fixturesDir, 'src/design-system/Chart.tsx'))).toEqual({
+      clientGlobals: ['IntersectionObserver', 'matchMedia'],
+      serverHooks: ['useId', 'useTranslations', 'useTheme'],
+      clientPackages: ['framer-motion', '@acme/charts'],
+    });
+  });
+
+  it('should tune the built-in detectors with the settings', () => {
+    const registry = createConfigResolver().registryFor(path.join(fixturesDir, 'src/Page.tsx'));
+    const code = [
+      "import { motion } from 'framer-motion/client';",
+      "import type { Variants } from 'framer-motion';",
+      'export default function Page() {',
+      '  const id = useId();',
+      '  const t = useTranslations();',
+      "  const wide = matchMedia('(min-width: 600px)');",
+      '  const [open] = useState(false);',
+      '  return <motion.div id={id} />;',
+      '}',
+    ].join('\n');
+
+    const features = detectClientFeatures(parseModule(code, 'Page.tsx'), { registry });
+
+    expect(features.map((f) => [f.category, f.name])).toEqual([
+      ['client-import', 'framer-motion'],
+      ['browser-global', 'matchMedia'],
+      ['hook', 'useState'],
+    ]);
+  });
+
+  it('should use the settings of each module when following imports', () => {
+    const entry = path.join(fixturesDir, 'src/Page.tsx');
+
+    const withConfig = analyzeImportGraph([entry], { config: createConfigResolver() });
+    const withoutConfig = analyzeImportGraph([entry]);
+
+    expect(withConfig.violations.map((v) => v.features.map((f) => f.name))).toEqual([
+      ['@acme/charts'],
+    ]);
+    expect(withoutConfig.violations.map((v) => v.features.map((f) => f.name))).toEqual([
+      ['useTheme'],
+    ]);
+  });
+
+  it('should use the explicit config for every file', () => {
+    const dir = createTempDir();
+    const configPath = path.join(dir, 'custom.config.js');
+    fs.writeFileSync(configPath, "module.exports = { clientGlobals: ['requestAnimationFrame'] };");
+
+    const config = createConfigResolver({ config: configPath });
+
+    expect(config.settingsFor(path.join(fixturesDir, 'src/Page.tsx'))).toEqual({
+      clientGlobals: ['requestAnimationFrame'],
+    });
+    expect(createConfigResolver().settingsFor(path.join(dir, 'Page.tsx'))).toEqual({});
+  });
+});
+
+describe('loadConfig', () => {
+  it('should report invalid settings with the config path', () => {
+    const dir = createTempDir();
+    const configPath = path.join(dir, 'rsc-guardian.config.json');
+
+    fs.writeFileSync(configPath, JSON.stringify({ clientGlobal: ['matchMedia'] }));
+    expect(() => loadConfig(configPath)).toThrow(`Unknown option 'clientGlobal' in ${configPath}`);
+
+    fs.writeFileSync(configPath, JSON.stringify({ overrides: [{ serverHooks: 'useId' }] }));
+    expect(() => loadConfig(configPath)).toThrow(
+      `'serverHooks' in overrides[0] of ${configPath} must be an array of strings`
+    );
+  });
+
+  it('should read the config again after it changes', () => {
+    const dir = createTempDir();
+    const configPath = path.join(dir, 'rsc-guardian.config.json');
+
+    fs.writeFileSync(configPath, JSON.stringify({ serverHooks: ['useId'] }));
+    expect(loadConfig(configPath)).toEqual({ serverHooks: ['useId'] });
+
+    fs.writeFileSync(configPath, JSON.stringify({ serverHooks: ['useFormatter'] }));
+    fs.utimesSync(configPath, new Date(), new Date(Date.now() + 1000));
+    expect(loadConfig(configPath)).toEqual({ serverHooks: ['useFormatter'] });
+  });
+});
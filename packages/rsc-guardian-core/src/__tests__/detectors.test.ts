@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { parse } from '@typescript-eslint/typescript-estree';
+import { createDetectionContext } from '../scope';
+import { createBuiltinDetectors } from '../detectors';
+import { createDetectorRegistry, detectClientFeatures } from '../registry';
+
+function detectGlobals(code: string): string[] {
+  const ast = parse(code, { jsx: true, loc: true, range: true });
+  return detectClientFeatures(ast)
+    .filter((f) => f.category === 'browser-global')
+    .map((f) => f.name);
+}
+
+describe('browserGlobalDetector', () => {
+  it('should report unbound global references', () => {
+    expect(detectGlobals("window.scrollTo(0, 0); localStorage.getItem('k');")).toEqual([
+      'window',
+      'localStorage',
+    ]);
+  });
+
+  it('should ignore object keys, member properties, parameters and locals', () => {
+    const code = [
+      'const { location } = props;',
+      'const data = { history: [] };',
+      'router.navigator.push(location);',
+      'function read(document) { return document.title; }',
+      'const confirm = () => true;',
+      'confirm();',
+    ].join('\n');
+
+    expect(detectGlobals(code)).toEqual([]);
+  });
+
+  it('should report globals reached through globalThis and self', () => {
+    expect(detectGlobals("globalThis.window.scrollTo(0, 0); self['document'].title;")).toEqual([
+      'window',
+      'document',
+    ]);
+  });
+
+  it('should not treat a shadowed self as the global object', () => {
+    expect(detectGlobals('const self = getContext(); self.document;')).toEqual([]);
+  });
+});
+
+describe('React API and client-only package detectors', () => {
+  const detect = (code: string) =>
+    detectClientFeatures(parse(code, { jsx: true, loc: true, range: true })).map((f) => [
+      f.category,
+      f.name,
+    ]);
+
+  it('should report class components extending Component or PureComponent', () => {
+    const code = [
+      'class Counter extends React.Component {}',
+      'const Row = class extends PureComponent {};',
+      'class Store extends Base {}',
+      'class Other extends Lib.Component {}',
+    ].join('\n');
+
+    expect(detect(code)).toEqual([
+      ['class-component', 'Counter'],
+      ['class-component', 'PureComponent'],
+    ]);
+  });
+
+  it('should report createContext only at module scope', () => {
+    const code = [
+      "import { createContext } from 'react';",
+      "export const Theme = React.createContext('light');",
+      'function make() { return createContext(null); }',
+      'class Holder { context = createContext(null); }',
+    ].join('\n');
+
+    expect(detect(code)).toEqual([['create-context', 'createContext']]);
+  });
+
+  it('should report react-dom APIs and client-only package imports', () => {
+    const code = [
+      "import { motion } from 'framer-motion';",
+      "import 'chart.js/auto';",
+      "import { createStore } from 'zustand/vanilla';",
+      "import type { Atom } from 'jotai';",
+      "import motionless from 'framer-motion-free';",
+      "import { createPortal } from 'react-dom';",
+      'ReactDOM.flushSync(() => {});',
+      'createPortal(child, container);',
+    ].join('\n');
+
+    expect(detect(code)).toEqual([
+      ['client-import', 'framer-motion'],
+      ['client-import', 'chart.js'],
+      ['react-dom-api', 'flushSync'],
+      ['react-dom-api', 'createPortal'],
+    ]);
+  });
+
+  it('should only report createContext and react-dom APIs imported from React', () => {
+    const code = [
+      "import * as Dom from 'react-dom';",
+      "import { flushSync as flush } from 'react-dom';",
+      "import { createContext } from 'use-context-selector';",
+      "import { createPortal } from './portal';",
+      'export const Selected = createContext(null);',
+      'createPortal(child, container);',
+      'Dom.createPortal(child, container);',
+      'flush(() => {});',
+      'function flushSync() {}',
+      'flushSync();',
+    ].join('\n');
+
+    expect(detect(code)).toEqual([
+      ['react-dom-api', 'createPortal'],
+      ['react-dom-api', 'flushSync'],
+    ]);
+  });
+
+  it('should skip built-in client-only packages listed in serverPackages', () => {
+    const registry = createDetectorRegistry(
+      createBuiltinDetectors({ serverPackages: ['recharts'] })
+    );
+    const ast = parse("import { LineChart } from 'recharts';", { loc: true, range: true });
+
+    expect(detectClientFeatures(ast, { registry })).toEqual([]);
+  });
+});
+
+describe('createDetectionContext', () => {
+  it('should be required when detecting from a subtree', () => {
+    const ast = parse('window.alert(1);', { loc: true, range: true });
+
+    expect(() => detectClientFeatures(ast.body[0])).toThrow(/detection context/);
+    expect(
+      detectClientFeatures(ast.body[0], { context: createDetectionContext(ast) }).map((f) => f.name)
+    ).toEqual(['window']);
+  });
+});
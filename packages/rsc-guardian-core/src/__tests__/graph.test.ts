@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { analyzeImportGraph, getImportSpecifiers, readModuleImports } from '../graph';
+import { parseModule } from '../parse';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('analyzeImportGraph', () => {
+  const fixturesDir = path.resolve(__dirname, '../../__fixtures__/graph');
+  const relative = (file: string) => path.relative(fixturesDir, file);
+
+  it('should report transitive client features with the import chain', () => {
+    const result = analyzeImportGraph([path.join(fixturesDir, 'app/page.tsx')]);
+
+    expect(result.violations).toHaveLength(2);
+    expect(result.violations.map((v) => v.chain.map(relative))).toEqual([
+      ['app/page.tsx', 'app/Cart.tsx'],
+      ['app/page.tsx', 'app/Cart.tsx', 'src/hooks/useCart.ts'],
+    ]);
+    expect(result.violations[1].features.map((f) => f.name)).toEqual(['useState']);
+  });
+
+  it('should stop at use client boundaries and skip type-only imports', () => {
+    const result = analyzeImportGraph([path.join(fixturesDir, 'app/page.tsx')]);
+    const visited = Array.from(result.modules.keys()).map(relative).sort();
+
+    expect(visited).toEqual([
+      'app/Cart.tsx',
+      'app/ClientButton.tsx',
+      'app/page.tsx',
+      'lib/data.ts',
+      'src/hooks/useCart.ts',
+    ]);
+    expect(result.modules.get(path.join(fixturesDir, 'app/ClientButton.tsx'))?.hasUseClient).toBe(
+      true
+    );
+  });
+
+  it('should read modules with readModule instead of parsing them', () => {
+    const read: string[] = [];
+    const result = analyzeImportGraph([path.join(fixturesDir, 'app/page.tsx')], {
+      readModule: (file) => {
+        read.push(relative(file));
+        return file.endsWith('page.tsx')
+          ? { hasUseClient: false, imports: ['./ClientButton'] }
+          : { hasUseClient: true, imports: ['../lib/data'] };
+      },
+    });
+
+    expect(read).toEqual(['app/page.tsx', 'app/ClientButton.tsx']);
+    expect(result.violations).toEqual([]);
+  });
+
+  it('should read directives and imports without detecting features', () => {
+    const page = path.join(fixturesDir, 'app/page.tsx');
+    expect(readModuleImports(page)).toEqual({
+      hasUseClient: false,
+      imports: ['../lib/data', './Cart', './ClientButton'],
+    });
+    expect(readModuleImports(path.join(fixturesDir, 'app/ClientButton.tsx'))).toEqual({
+      hasUseClient: true,
+      imports: ['./analytics'],
+    });
+    expect(readModuleImports(path.join(fixturesDir, 'app/missing.tsx'))).toEqual({
+      hasUseClient: false,
+      imports: [],
+    });
+  });
+});
+
+describe('getImportSpecifiers', () => {
+  it('should collect runtime imports, re-exports and dynamic imports', () => {
+    const program = parseModule(
+      [
+        "import a from './a';",
+        "import type { B } from './b';",
+        "import { type C } from './c';",
+        "export { d } from './d';",
+        "export type { E } from './e';",
+        "export * from './f';",
+        "const g = () => import('./g');",
+      ].join('\n'),
+      'file.ts'
+    );
+
+    expect(getImportSpecifiers(program)).toEqual(['./a', './d', './f', './g']);
+  });
+});
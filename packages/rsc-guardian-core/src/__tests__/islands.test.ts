@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import type { TSESTree } from '@typescript-eslint/types';
+import { findIslands } from '../islands';
+import type { IslandExtraction } from '../islands';
+import { parseModule } from '../parse';
+
+function extract(code: string): IslandExtraction {
+  const result = findIslands(parseModule(code, 'Component.tsx'));
+  if ('reason' in result) {
+    throw new Error(result.reason);
+  }
+  return result;
+}
+
+const text = (code: string, node: TSESTree.Node | null) =>
+  node ? code.slice(node.range[0], node.range[1]) : null;
+
+describe('findIslands', () => {
+  it('should keep static markup on the server and pass the values islands read as props', () => {
+    const code = [
+      "import { useState } from 'react';",
+      "import { getUser } from './data';",
+      'export default async function Profile({ id }: { id: string }) {',
+      '  const user = await getUser(id);',
+      '  const [open, setOpen] = useState(false);',
+      '  return (',
+      '    <main>',
+      '      <h1>{user.name}</h1>',
+      '      <section>',
+      '        <button onClick={() => setOpen(!open)}>Toggle</button>',
+      '        {open && <p>{user.bio}</p>}',
+      '      </section>',
+      '    </main>',
+      '  );',
+      '}',
+    ].join('\n');
+    const result = extract(code);
+
+    expect(result.name).toBe('Profile');
+    expect(result.islands).toHaveLength(1);
+    const [island] = result.islands;
+    expect(text(code, island.node)?.startsWith('<section>')).toBe(true);
+    expect(island.statements.map((statement) => text(code, statement))).toEqual([
+      'const [open, setOpen] = useState(false);',
+    ]);
+    expect(island.props).toEqual(['user']);
+    expect(result.clientImports.map((node) => text(code, node))).toEqual(['useState']);
+    expect(result.serverRemoved.map((node) => text(code, node))).toEqual([
+      'useState',
+      'const [open, setOpen] = useState(false);',
+    ]);
+  });
+
+  it('should extract list items on their own and keep state out of callbacks', () => {
+    const code = [
+      'export default function List({ items }: { items: string[] }) {',
+      '  return (',
+      '    <ul>',
+      '      {items.map((item) => (',
+      '        <li key={item} onClick={() => alert(item)}>{item}</li>',
+      '      ))}',
+      '    </ul>',
+      '  );',
+      '}',
+    ].join('\n');
+    const [island] = extract(code).islands;
+
+    expect(text(code, island.node)?.startsWith('<li key={item}')).toBe(true);
+    expect(island.props).toEqual(['item']);
+  });
+
+  it('should move helper functions and top-level declarations along with the island', () => {
+    const code = [
+      'const LIMIT = 3;',
+      'function clamp(value: number) { return Math.min(value, LIMIT); }',
+      'export default function Stepper() {',
+      '  const onStep = () => document.body.classList.toggle(String(clamp(1)));',
+      '  return <div><button onClick={onStep}>+</button></div>;',
+      '}',
+    ].join('\n');
+    const result = extract(code);
+
+    expect(result.islands[0].statements.map((statement) => text(code, statement))).toEqual([
+      'const onStep = () => document.body.classList.toggle(String(clamp(1)));',
+    ]);
+    expect(result.clientDeclarations.map((node) => text(code, node)?.split(' ')[1])).toEqual([
+      'LIMIT',
+      'clamp(value:',
+    ]);
+    expect(result.serverRemoved).toHaveLength(3);
+  });
+
+  it('should turn effects that render nothing into an island of their own', () => {
+    const code = [
+      "import { useEffect } from 'react';",
+      'export default function Page({ title }: { title: string }) {',
+      '  useEffect(() => { document.title = title; }, [title]);',
+      '  return <h1>{title}</h1>;',
+      '}',
+    ].join('\n');
+    const result = extract(code);
+
+    expect(result.islands).toHaveLength(1);
+    expect(result.islands[0].node).toBeNull();
+    expect(result.islands[0].props).toEqual(['title']);
+    expect(text(code, result.output)).toBe('<h1>{title}</h1>');
+  });
+
+  it('should explain why a component cannot be split', () => {
+    const reason = (code: string) => {
+      const result = findIslands(parseModule(code, 'Component.tsx'));
+      return 'reason' in result ? result.reason : null;
+    };
+
+    expect(reason('export const Counter = () => null;')).toMatch(/not a function component/);
+    expect(
+      reason(
+        [
+          "import { useState } from 'react';",
+          'export default function Toggle() {',
+          '  const [on] = useState(false);',
+          '  if (on) { return <p>On</p>; }',
+          '  return <p>{String(on)}</p>;',
+          '}',
+        ].join('\n')
+      )
+    ).toMatch(/decides what the component returns/);
+    expect(
+      reason(
+        'const width = window.innerWidth;\nexport default function W() { return <p>{width}</p>; }'
+      )
+    ).toBe("'window' is used outside of the component and would stay on the server.");
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { checkNextFile, classifyNextFile, findServerModules } from '../next';
+import type { NextFile } from '../next';
+import { parseModule } from '../parse';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const fixturesDir = path.resolve(__dirname, '../../__fixtures__/next-app');
+
+describe('classifyNextFile', () => {
+  it('should recognize App Router conventions, pages and shared modules', () => {
+    const classify = (file: string) => classifyNextFile(path.join(fixturesDir, file));
+
+    expect(classify('app/dashboard/page.tsx')).toEqual({
+      root: fixturesDir,
+      router: 'app',
+      convention: 'page',
+    });
+    expect(classify('app/api/health/route.ts')?.convention).toBe('route');
+    expect(classify('app/dashboard/Shell.tsx')).toMatchObject({ router: 'app', convention: null });
+    expect(classify('src/app/global-error.tsx')).toMatchObject({
+      router: 'app',
+      convention: 'global-error',
+    });
+    expect(classify('pages/legacy.tsx')).toMatchObject({ router: 'pages', convention: null });
+    expect(classify('components/page.tsx')).toMatchObject({ router: null, convention: null });
+  });
+});
+
+describe('checkNextFile', () => {
+  const check = (code: string, convention: NextFile['convention']) =>
+    checkNextFile(parseModule(code, 'file.tsx'), { root: '/', router: 'app', convention }).map(
+      (problem) => [problem.kind, problem.name]
+    );
+
+  it('should require use client in error files', () => {
+    expect(check('export default function Error() { return null; }', 'error')).toEqual([
+      ['client-convention', undefined],
+    ]);
+    expect(check("'use client';\nexport default function Error() { return null; }", 'error')).toEqual(
+      []
+    );
+  });
+
+  it('should reject use client in route handlers', () => {
+    expect(check("'use client';\nexport function GET() {}", 'route')).toEqual([
+      ['route-use-client', undefined],
+    ]);
+    expect(check('export function GET() {}', 'route')).toEqual([]);
+  });
+
+  it('should report metadata exports from client pages and layouts', () => {
+    const code = [
+      "'use client';",
+      "export const metadata = { title: 'x' };",
+      'export async function generateMetadata() { return {}; }',
+      'export default function Page() { return null; }',
+    ].join('\n');
+
+    expect(check(code, 'page')).toEqual([
+      ['client-metadata', 'metadata'],
+      ['client-metadata', 'generateMetadata'],
+    ]);
+    expect(check(code, 'template')).toEqual([]);
+  });
+});
+
+describe('findServerModules', () => {
+  it('should include modules reached from special files and skip client-only imports', () => {
+    const modules = Array.from(findServerModules(fixturesDir))
+      .map((file) => path.relative(fixturesDir, file))
+      .sort();
+
+    expect(modules).toEqual([
+      'app/api/health/route.ts',
+      'app/dashboard/page.tsx',
+      'app/layout.tsx',
+      'components/Header.tsx',
+      'components/format.ts',
+    ]);
+  });
+});
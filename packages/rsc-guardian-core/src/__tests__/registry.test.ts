@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { parse } from '@typescript-eslint/typescript-estree';
+import { createDetectorRegistry, detectClientFeatures } from '../registry';
+import type { Detector } from '../types';
+
+function parseSource(code: string) {
+  return parse(code, { jsx: true, loc: true, range: true });
+}
+
+describe('detectClientFeatures', () => {
+  it('should report hooks, browser globals and event handlers with locations', () => {
+    const ast = parseSource(
+      [
+        "import { useState } from 'react';",
+        'export default function Counter() {',
+        '  const [count, setCount] = useState(0);',
+        "  document.title = 'x';",
+        '  return <button onClick={() => setCount(count + 1)}>{count}</button>;',
+        '}',
+      ].join('\n')
+    );
+
+    const features = detectClientFeatures(ast);
+
+    expect(features.map((f) => [f.category, f.name, f.loc.start.line])).toEqual([
+      ['hook', 'useState', 3],
+      ['browser-global', 'document', 4],
+      ['event-handler', 'onClick', 5],
+    ]);
+    expect(features[0].reason).toContain('React hook');
+  });
+
+  it('should detect member-expression hooks like React.useEffect', () => {
+    const ast = parseSource('React.useEffect(() => {});');
+
+    expect(detectClientFeatures(ast).map((f) => f.name)).toEqual(['useEffect']);
+  });
+
+  it('should not treat `use` or `on` on their own as client features', () => {
+    const ast = parseSource('use(promise); const el = <div on="x" />;');
+
+    expect(detectClientFeatures(ast)).toEqual([]);
+  });
+});
+
+describe('createDetectorRegistry', () => {
+  it('should run custom detectors registered alongside the built-ins', () => {
+    const registry = createDetectorRegistry();
+    const matchMediaDetector: Detector = {
+      category: 'browser-global',
+      nodeTypes: ['Identifier'],
+      check: (node) =>
+        node.type === 'Identifier' && node.name === 'matchMedia'
+          ? { name: 'matchMedia', reason: 'matchMedia is browser-only.' }
+          : null,
+    };
+    registry.register(matchMediaDetector);
+
+    const ast = parseSource("matchMedia('(min-width: 1px)');");
+    const features = detectClientFeatures(ast, { registry });
+
+    expect(features.map((f) => f.name)).toEqual(['matchMedia']);
+  });
+
+  it('should only run the detectors it was created with', () => {
+    const registry = createDetectorRegistry([]);
+
+    expect(detectClientFeatures(parseSource('useState(0);'), { registry })).toEqual([]);
+    expect(registry.nodeTypes()).toEqual([]);
+  });
+});
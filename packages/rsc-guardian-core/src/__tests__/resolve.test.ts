@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createModuleResolver } from '../resolve';
+
+describe('createModuleResolver', () => {
+  let root: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rsc-guardian-resolve-'));
+    write('src/components/Button.tsx', 'export default function Button() {}\n');
+    write('src/app/page.tsx', "import Button from '@/components/Button';\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should resolve tsconfig paths with comments and trailing commas', () => {
+    write(
+      'tsconfig.json',
+      '{\n  // aliases\n  "compilerOptions": { "paths": { "@/*": ["./src/*"], }, },\n}\n'
+    );
+    const resolver = createModuleResolver();
+
+    expect(resolver.resolve('@/components/Button', path.join(root, 'src/app/page.tsx'))).toBe(
+      path.join(root, 'src/components/Button.tsx')
+    );
+  });
+
+  it('should treat a malformed tsconfig as having no path mapping', () => {
+    write('tsconfig.json', '{ "compilerOptions": { "paths": { "@/*": ["./src/*"] }');
+    const resolver = createModuleResolver();
+    const page = path.join(root, 'src/app/page.tsx');
+
+    expect(resolver.resolve('@/components/Button', page)).toBeNull();
+    expect(resolver.resolve('../components/Button', page)).toBe(
+      path.join(root, 'src/components/Button.tsx')
+    );
+  });
+
+  it('should ignore a malformed tsconfig it extends', () => {
+    write('tsconfig.base.json', '{ "compilerOptions": ');
+    write(
+      'tsconfig.json',
+      '{ "extends": "./tsconfig.base.json", "compilerOptions": { "baseUrl": "src" } }'
+    );
+    const resolver = createModuleResolver();
+
+    expect(resolver.resolve('components/Button', path.join(root, 'src/app/page.tsx'))).toBe(
+      path.join(root, 'src/components/Button.tsx')
+    );
+  });
+});
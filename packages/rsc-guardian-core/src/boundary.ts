@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import type { TSESTree } from '@typescript-eslint/types';
+import { hasDirective } from './directives';
+import { parseModule } from './parse';
+import { createModuleResolver } from './resolve';
+import type { ModuleResolver, ModuleResolverOptions } from './resolve';
+
+export type BoundaryDirective = 'use client' | 'use server';
+
+export interface Boundary {
+  /** The module that declares the directive. */
+  file: string;
+  directive: BoundaryDirective;
+}
+
+export interface BoundaryResolver {
+  /**
+   * Follows an imported binding through re-exports (barrel files) to the
+   * first module with a `'use client'` or `'use server'` directive. Returns
+   * `null` for packages, unresolvable imports and plain modules.
+   */
+  resolve(specifier: string, importedName: string, fromFile: string): Boundary | null;
+}
+
+export interface BoundaryResolverOptions extends ModuleResolverOptions {
+  resolver?: ModuleResolver;
+}
+
+interface Reexport {
+  /** Exported name, or `*` for `export * from`. */
+  exported: string;
+  imported: string;
+  source: string;
+}
+
+interface ModuleSummary {
+  mtimeMs: number;
+  directive: BoundaryDirective | null;
+  /** Names the module exports from its own declarations. */
+  exports: Set<string>;
+  reexports: Reexport[];
+}
+
+function summarize(program: TSESTree.Program): Omit<ModuleSummary, 'mtimeMs'> {
+  const directive = hasDirective(program, 'use client')
+    ? 'use client'
+    : hasDirective(program, 'use server')
+      ? 'use server'
+      : null;
+
+  // Local names bound by imports, so `import X from './X'; export { X };` counts as a re-export
+  const imports = new Map<string, { source: string; imported: string }>();
+  const exports = new Set<string>();
+  const reexports: Reexport[] = [];
+
+  for (const statement of program.body) {
+    if (statement.type === 'ImportDeclaration' && statement.importKind !== 'type') {
+      for (const specifier of statement.specifiers) {
+        imports.set(specifier.local.name, {
+          source: statement.source.value,
+          imported:
+            specifier.type === 'ImportSpecifier'
+              ? specifier.imported.name
+              : specifier.type === 'ImportDefaultSpecifier'
+                ? 'default'
+                : '*',
+        });
+      }
+    } else if (statement.type === 'ExportAllDeclaration' && statement.exportKind !== 'type') {
+      reexports.push({
+        exported: statement.exported?.name ?? '*',
+        imported: '*',
+        source: statement.source.value,
+      });
+    } else if (statement.type === 'ExportNamedDeclaration' && statement.exportKind !== 'type') {
+      const { declaration } = statement;
+      if (declaration?.type === 'VariableDeclaration') {
+        for (const declarator of declaration.declarations) {
+          if (declarator.id.type === 'Identifier') {
+            exports.add(declarator.id.name);
+          }
+        }
+      } else if (declaration && 'id' in declaration && declaration.id?.type === 'Identifier') {
+        exports.add(declaration.id.name);
+      }
+      for (const specifier of statement.specifiers) {
+        if (statement.source) {
+          reexports.push({
+            exported: specifier.exported.name,
+            imported: specifier.local.name,
+            source: statement.source.value,
+          });
+        } else {
+          const binding = imports.get(specifier.local.name);
+          if (binding) {
+            reexports.push({ exported: specifier.exported.name, ...binding });
+          } else {
+            exports.add(specifier.exported.name);
+          }
+        }
+      }
+    } else if (statement.type === 'ExportDefaultDeclaration') {
+      const binding =
+        statement.declaration.type === 'Identifier'
+          ? imports.get(statement.declaration.name)
+          : undefined;
+      if (binding) {
+        reexports.push({ exported: 'default', ...binding });
+      } else {
+        exports.add('default');
+      }
+    }
+  }
+
+  // Explicit exports take precedence over `export *`
+  reexports.sort((a, b) => Number(a.exported === '*') - Number(b.exported === '*'));
+
+  return { directive, exports, reexports };
+}
+
+/**
+ * Creates a resolver that remembers each module's directive and re-exports
+ * until the file changes on disk, so one instance can serve a whole lint run
+ * or editor session.
+ */
+export function createBoundaryResolver(options: BoundaryResolverOptions = {}): BoundaryResolver {
+  const resolver = options.resolver ?? createModuleResolver(options);
+  const summaries = new Map<string, ModuleSummary>();
+
+  function load(file: string): ModuleSummary | null {
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(file).mtimeMs;
+    } catch {
+      return null;
+    }
+
+    const cached = summaries.get(file);
+    if (cached?.mtimeMs === mtimeMs) {
+      return cached;
+    }
+
+    let summary: ModuleSummary;
+    try {
+      summary = { mtimeMs, ...summarize(parseModule(fs.readFileSync(file, 'utf-8'), file)) };
+    } catch {
+      summary = { mtimeMs, directive: null, exports: new Set(), reexports: [] };
+    }
+    summaries.set(file, summary);
+    return summary;
+  }
+
+  function exportsName(summary: ModuleSummary, name: string): boolean {
+    return (
+      summary.exports.has(name) ||
+      summary.reexports.some(
+        (reexport) =>
+          reexport.exported === name || (reexport.exported === '*' && name !== 'default')
+      )
+    );
+  }
+
+  /**
+   * `viaStar` is set when the module was reached through `export *`, which
+   * only applies if the module actually exports the name.
+   */
+  function follow(
+    file: string,
+    importedName: string,
+    seen: Set<string>,
+    viaStar = false
+  ): Boundary | null {
+    const key = `${file}#${importedName}`;
+    if (seen.has(key)) {
+      return null;
+    }
+    seen.add(key);
+
+    const summary = load(file);
+    if (!summary || (viaStar && !exportsName(summary, importedName))) {
+      return null;
+    }
+    if (summary.directive) {
+      return { file, directive: summary.directive };
+    }
+
+    for (const reexport of summary.reexports) {
+      const matches =
+        reexport.exported === importedName ||
+        // `export *` never re-exports `default`
+        (reexport.exported === '*' && importedName !== 'default');
+      const target = matches ? resolver.resolve(reexport.source, file) : null;
+      if (!target) {
+        continue;
+      }
+      const boundary =
+        reexport.exported === '*'
+          ? follow(target, importedName, seen, true)
+          : follow(target, reexport.imported, seen);
+      if (boundary) {
+        return boundary;
+      }
+    }
+    return null;
+  }
+
+  return {
+    resolve(specifier, importedName, fromFile) {
+      const file = resolver.resolve(specifier, fromFile);
+      return file ? follow(file, importedName, new Set()) : null;
+    },
+  };
+}
@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore from 'ignore';
+import type { Ignore } from 'ignore';
+import { createBuiltinDetectors } from './detectors';
+import { createDetectorRegistry } from './registry';
+import type { DetectorRegistry } from './registry';
+import type { DetectionSettings } from './types';
+
+export interface ConfigOverride extends DetectionSettings {
+  /**
+   * Files the override applies to, as `.gitignore`-style patterns relative
+   * to the config file, e.g. `src/design-system/` or `*.stories.tsx`.
+   */
+  files: string | string[];
+}
+
+/** The contents of an `rsc-guardian.config.*` file. */
+export interface RscGuardianConfig extends DetectionSettings {
+  /** Settings added on top of the top-level ones for matching files. */
+  overrides?: ConfigOverride[];
+}
+
+export interface ConfigResolverOptions {
+  /** Use this config file for every file instead of the nearest one. */
+  config?: string;
+}
+
+export interface ConfigResolver {
+  /** The nearest config's settings for a file, with its matching overrides merged in. */
+  settingsFor(filePath: string): DetectionSettings;
+  /** A registry of the built-in detectors tuned with `settingsFor(filePath)`. */
+  registryFor(filePath: string): DetectorRegistry;
+}
+
+export const configFileNames = [
+  'rsc-guardian.config.json',
+  'rsc-guardian.config.js',
+  'rsc-guardian.config.cjs',
+];
+
+const settingKeys = ['clientGlobals', 'serverHooks', 'clientPackages', 'serverPackages'] as const;
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function validateSettings(value: Record<string, unknown>, where: string, keys: string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!keys.includes(key)) {
+      throw new Error(`Unknown option '${key}' in ${where}`);
+    }
+  }
+  for (const key of settingKeys) {
+    if (value[key] !== undefined && !isStringArray(value[key])) {
+      throw new Error(`'${key}' in ${where} must be an array of strings`);
+    }
+  }
+}
+
+function validateConfig(value: unknown, configPath: string): RscGuardianConfig {
+  if (!isObject(value)) {
+    throw new Error(`${configPath} must contain an object`);
+  }
+  validateSettings(value, configPath, [...settingKeys, 'overrides']);
+
+  if (value.overrides !== undefined) {
+    if (!Array.isArray(value.overrides)) {
+      throw new Error(`'overrides' in ${configPath} must be an array`);
+    }
+    value.overrides.forEach((override: unknown, index) => {
+      const where = `overrides[${index}] of ${configPath}`;
+      if (!isObject(override)) {
+        throw new Error(`${where} must be an object`);
+      }
+      validateSettings(override, where, [...settingKeys, 'files']);
+      if (typeof override.files !== 'string' && !isStringArray(override.files)) {
+        throw new Error(`'files' in ${where} must be a pattern or an array of patterns`);
+      }
+    });
+  }
+
+  return value as RscGuardianConfig;
+}
+
+// Configs are read again when they change, so editor sessions pick up edits
+const configCache = new Map<string, { mtimeMs: number; config: RscGuardianConfig }>();
+
+/**
+ * Reads and validates a config file. JSON files are parsed, `.js` and
+ * `.cjs` files are required and must export the config object.
+ */
+export function loadConfig(configPath: string): RscGuardianConfig {
+  const absolutePath = path.resolve(configPath);
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`Config file not found: ${absolutePath}`);
+  }
+
+  const { mtimeMs } = fs.statSync(absolutePath);
+  const cached = configCache.get(absolutePath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.config;
+  }
+
+  let value: unknown;
+  try {
+    if (path.extname(absolutePath) === '.json') {
+      value = JSON.parse(fs.readFileSync(absolutePath, 'utf-8'));
+    } else {
+      delete require.cache[absolutePath];
+      value = require(absolutePath);
+    }
+  } catch (error) {
+    throw new Error(
+      `Could not load ${absolutePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const config = validateConfig(value, absolutePath);
+  configCache.set(absolutePath, { mtimeMs, config });
+  return config;
+}
+
+/** The nearest `rsc-guardian.config.*` in the file's directory or above it. */
+export function findConfigFile(filePath: string): string | null {
+  for (let dir = path.dirname(path.resolve(filePath)); ; dir = path.dirname(dir)) {
+    for (const name of configFileNames) {
+      if (fs.existsSync(path.join(dir, name))) {
+        return path.join(dir, name);
+      }
+    }
+    if (path.dirname(dir) === dir) {
+      return null;
+    }
+  }
+}
+
+function mergeSettings(base: DetectionSettings, extra: DetectionSettings): DetectionSettings {
+  const merged: DetectionSettings = { ...base };
+  for (const key of settingKeys) {
+    if (extra[key]) {
+      merged[key] = Array.from(new Set([...(base[key] ?? []), ...(extra[key] ?? [])]));
+    }
+  }
+  return merged;
+}
+
+/**
+ * Finds the settings that apply to each analyzed file. Every file uses the
+ * nearest config file above it unless one is given explicitly; files
+ * without one get the built-in defaults.
+ */
+export function createConfigResolver(options: ConfigResolverOptions = {}): ConfigResolver {
+  const configByDir = new Map<string, string | null>();
+  const matchers = new WeakMap<ConfigOverride, Ignore>();
+  const registries = new Map<string, DetectorRegistry>();
+
+  function configFor(filePath: string): string | null {
+    if (options.config) {
+      return path.resolve(options.config);
+    }
+    const dir = path.dirname(path.resolve(filePath));
+    if (!configByDir.has(dir)) {
+      configByDir.set(dir, findConfigFile(filePath));
+    }
+    return configByDir.get(dir) ?? null;
+  }
+
+  function matches(override: ConfigOverride, relativePath: string): boolean {
+    let matcher = matchers.get(override);
+    if (!matcher) {
+      matcher = ignore().add(override.files);
+      matchers.set(override, matcher);
+    }
+    return matcher.ignores(relativePath);
+  }
+
+  function settingsFor(filePath: string): DetectionSettings {
+    const configPath = configFor(filePath);
+    if (!configPath) {
+      return {};
+    }
+
+    const { overrides = [], ...base } = loadConfig(configPath);
+    const relativePath = toPosix(path.relative(path.dirname(configPath), path.resolve(filePath)));
+    // Overrides only reach files below the config file
+    if (relativePath.startsWith('../') || path.isAbsolute(relativePath)) {
+      return base;
+    }
+    return overrides
+      .filter((override) => matches(override, relativePath))
+      .reduce(mergeSettings, base);
+  }
+
+  return {
+    settingsFor,
+    registryFor(filePath) {
+      const settings = settingsFor(filePath);
+      const key = JSON.stringify(settings);
+      let registry = registries.get(key);
+      if (!registry) {
+        registry = createDetectorRegistry(createBuiltinDetectors(settings));
+        registries.set(key, registry);
+      }
+      return registry;
+    },
+  };
+}
@@ -0,0 +1,361 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import type { DetectionContext, DetectionSettings, Detector, DetectorMatch } from './types';
+
+export const browserGlobals: ReadonlySet<string> = new Set([
+  'window',
+  'document',
+  'localStorage',
+  'sessionStorage',
+  'navigator',
+  'location',
+  'history',
+  'alert',
+  'confirm',
+  'prompt',
+]);
+
+export function isHook(name: string): boolean {
+  return name.startsWith('use') && name.length > 3 && name[3] === name[3].toUpperCase();
+}
+
+export function isEventHandler(name: string): boolean {
+  return name.startsWith('on') && name.length > 2 && name[2] === name[2].toUpperCase();
+}
+
+function calleeName(node: TSESTree.CallExpression): string | undefined {
+  const { callee } = node;
+  if (callee.type === 'Identifier') {
+    return callee.name;
+  }
+  if (callee.type === 'MemberExpression' && callee.property.type === 'Identifier') {
+    return callee.property.name;
+  }
+  return undefined;
+}
+
+// useState(), React.useState(), etc.
+function createHookDetector(serverHooks: readonly string[]): Detector {
+  return {
+    category: 'hook',
+    nodeTypes: ['CallExpression'],
+    check(node) {
+      const name = calleeName(node as TSESTree.CallExpression);
+      if (!name || !isHook(name) || serverHooks.includes(name)) {
+        return null;
+      }
+
+      return {
+        name,
+        reason: `'${name}' is a React hook, and hooks only run in client components.`,
+      };
+    },
+  };
+}
+
+export const hookDetector: Detector = createHookDetector([]);
+
+// Names that refer to the global object itself, so `globalThis.window` and
+// `self.document` reach the same browser globals as a bare reference.
+const globalObjectNames = new Set(['globalThis', 'self']);
+
+function getStaticPropertyName(node: TSESTree.MemberExpression): string | null {
+  if (!node.computed && node.property.type === 'Identifier') {
+    return node.property.name;
+  }
+  if (node.computed && node.property.type === 'Literal' && typeof node.property.value === 'string') {
+    return node.property.value;
+  }
+  return null;
+}
+
+function isGlobalObject(node: TSESTree.Node, context: DetectionContext): boolean {
+  if (node.type === 'Identifier') {
+    return globalObjectNames.has(node.name) && context.isUnboundGlobal(node);
+  }
+  if (node.type === 'MemberExpression') {
+    const name = getStaticPropertyName(node);
+    return name !== null && globalObjectNames.has(name) && isGlobalObject(node.object, context);
+  }
+  return false;
+}
+
+function browserGlobalMatch(name: string, node?: TSESTree.Node): DetectorMatch {
+  return {
+    name,
+    node,
+    reason: `'${name}' is a browser global and does not exist during server rendering.`,
+  };
+}
+
+// Only references that resolve to real globals count: object keys, member
+// properties, parameters and locals named `location` etc. are ignored.
+function createBrowserGlobalDetector(globals: ReadonlySet<string>): Detector {
+  return {
+    category: 'browser-global',
+    nodeTypes: ['Identifier', 'MemberExpression'],
+    check(node, context) {
+      if (node.type === 'Identifier') {
+        if (!globals.has(node.name) || !context.isUnboundGlobal(node)) {
+          return null;
+        }
+        return browserGlobalMatch(node.name);
+      }
+
+      if (node.type === 'MemberExpression') {
+        const name = getStaticPropertyName(node);
+        if (!name || !globals.has(name) || !isGlobalObject(node.object, context)) {
+          return null;
+        }
+        return browserGlobalMatch(name, node.property);
+      }
+
+      return null;
+    },
+  };
+}
+
+export const browserGlobalDetector: Detector = createBrowserGlobalDetector(browserGlobals);
+
+// onClick, onChange, etc. on JSX elements
+export const eventHandlerDetector: Detector = {
+  category: 'event-handler',
+  nodeTypes: ['JSXAttribute'],
+  check(node) {
+    const attribute = node as TSESTree.JSXAttribute;
+    if (attribute.name.type !== 'JSXIdentifier' || !isEventHandler(attribute.name.name)) {
+      return null;
+    }
+
+    const name = attribute.name.name;
+    return {
+      name,
+      reason: `'${name}' attaches an event handler, which needs client-side interactivity.`,
+    };
+  },
+};
+
+const componentBaseClasses = new Set(['Component', 'PureComponent']);
+
+// class Counter extends React.Component, class Counter extends PureComponent, etc.
+export const classComponentDetector: Detector = {
+  category: 'class-component',
+  nodeTypes: ['ClassDeclaration', 'ClassExpression'],
+  check(node) {
+    const { id, superClass } = node as TSESTree.ClassDeclaration | TSESTree.ClassExpression;
+    let base: string | undefined;
+    if (superClass?.type === 'Identifier') {
+      base = superClass.name;
+    } else if (
+      superClass?.type === 'MemberExpression' &&
+      superClass.object.type === 'Identifier' &&
+      superClass.object.name === 'React' &&
+      superClass.property.type === 'Identifier'
+    ) {
+      base = superClass.property.name;
+    }
+    if (!superClass || !base || !componentBaseClasses.has(base)) {
+      return null;
+    }
+
+    const name = id?.name ?? base;
+    return {
+      name,
+      node: id ?? superClass,
+      reason: `'${name}' is a class component. Server components are plain functions: state and lifecycle methods only exist on the client.`,
+    };
+  },
+};
+
+/**
+ * The export of `source` a call reaches: `createPortal()` imported from
+ * 'react-dom', or `ReactDOM.createPortal()` through its default or namespace
+ * import, or the global `namespace` of UMD builds.
+ */
+function importedCallee(
+  call: TSESTree.CallExpression,
+  source: string,
+  namespace: string,
+  context: DetectionContext
+): string | null {
+  const { callee } = call;
+  if (callee.type === 'Identifier') {
+    const binding = context.importedBinding(callee);
+    return binding?.source === source && binding.imported !== 'default' && binding.imported !== '*'
+      ? binding.imported
+      : null;
+  }
+  if (callee.type !== 'MemberExpression' || callee.object.type !== 'Identifier') {
+    return null;
+  }
+  const name = getStaticPropertyName(callee);
+  const binding = context.importedBinding(callee.object);
+  const isNamespace = binding
+    ? binding.source === source && (binding.imported === 'default' || binding.imported === '*')
+    : callee.object.name === namespace && context.isUnboundGlobal(callee.object);
+  return isNamespace ? name : null;
+}
+
+// const ThemeContext = createContext(...) outside any component
+export const createContextDetector: Detector = {
+  category: 'create-context',
+  nodeTypes: ['CallExpression'],
+  check(node, context) {
+    const call = node as TSESTree.CallExpression;
+    if (
+      importedCallee(call, 'react', 'React', context) !== 'createContext' ||
+      !context.isModuleScope(call)
+    ) {
+      return null;
+    }
+
+    return {
+      name: 'createContext',
+      node: call.callee,
+      reason:
+        "'createContext' creates React context, which only client components can provide and read.",
+    };
+  },
+};
+
+const reactDomApis: Readonly<Record<string, string>> = {
+  createPortal: 'renders children into a DOM node',
+  flushSync: 'forces React to update the DOM synchronously',
+};
+
+// createPortal(), ReactDOM.flushSync(), etc.
+export const reactDomApiDetector: Detector = {
+  category: 'react-dom-api',
+  nodeTypes: ['CallExpression'],
+  check(node, context) {
+    const call = node as TSESTree.CallExpression;
+    const name = importedCallee(call, 'react-dom', 'ReactDOM', context);
+    if (!name || !Object.prototype.hasOwnProperty.call(reactDomApis, name)) {
+      return null;
+    }
+
+    return {
+      name,
+      node: call.callee,
+      reason: `'${name}' ${reactDomApis[name]}, and the DOM only exists in the browser.`,
+    };
+  },
+};
+
+type PackageKind = 'animation' | 'chart' | 'state';
+
+const packageReasons: Record<PackageKind, string> = {
+  animation: 'animates elements in the browser',
+  chart: 'draws charts with browser APIs',
+  state: 'keeps its state in client-side hooks and context',
+};
+
+/** Libraries that only work in client components, by what they do. */
+export const clientOnlyPackages: Readonly<Record<string, PackageKind>> = {
+  'framer-motion': 'animation',
+  motion: 'animation',
+  'react-spring': 'animation',
+  '@react-spring/web': 'animation',
+  gsap: 'animation',
+  '@gsap/react': 'animation',
+  'lottie-react': 'animation',
+  'react-transition-group': 'animation',
+  'chart.js': 'chart',
+  'react-chartjs-2': 'chart',
+  recharts: 'chart',
+  victory: 'chart',
+  apexcharts: 'chart',
+  'react-apexcharts': 'chart',
+  'highcharts-react-official': 'chart',
+  zustand: 'state',
+  jotai: 'state',
+  recoil: 'state',
+  valtio: 'state',
+  'react-redux': 'state',
+  'mobx-react': 'state',
+  'mobx-react-lite': 'state',
+};
+
+/** Entry points of the packages above that work without React. */
+export const serverSafeImports: ReadonlySet<string> = new Set([
+  'zustand/vanilla',
+  'jotai/vanilla',
+  'valtio/vanilla',
+]);
+
+/** The package of `packages` that `source` imports, itself or one of its subpaths. */
+export function matchPackage(source: string, packages: Iterable<string>): string | undefined {
+  for (const pkg of packages) {
+    if (source === pkg || source.startsWith(`${pkg}/`)) {
+      return pkg;
+    }
+  }
+  return undefined;
+}
+
+// import { motion } from 'framer-motion', import 'chart.js/auto', etc.
+function createClientPackageDetector(
+  configured: readonly string[],
+  serverPackages: readonly string[]
+): Detector {
+  return {
+    category: 'client-import',
+    nodeTypes: ['ImportDeclaration'],
+    check(node) {
+      const declaration = node as TSESTree.ImportDeclaration;
+      const source = declaration.source.value;
+      if (
+        declaration.importKind === 'type' ||
+        serverSafeImports.has(source) ||
+        matchPackage(source, serverPackages)
+      ) {
+        return null;
+      }
+
+      const configuredName = matchPackage(source, configured);
+      if (configuredName) {
+        return {
+          name: configuredName,
+          node: declaration.source,
+          reason: `'${configuredName}' is a client-only package and can't be imported by server components.`,
+        };
+      }
+      const name = matchPackage(source, Object.keys(clientOnlyPackages));
+      if (!name) {
+        return null;
+      }
+      return {
+        name,
+        node: declaration.source,
+        reason: `'${name}' ${packageReasons[clientOnlyPackages[name]]}, so it only works in client components.`,
+      };
+    },
+  };
+}
+
+export const clientPackageDetector: Detector = createClientPackageDetector([], []);
+
+export const builtinDetectors: readonly Detector[] = [
+  hookDetector,
+  browserGlobalDetector,
+  eventHandlerDetector,
+  classComponentDetector,
+  createContextDetector,
+  reactDomApiDetector,
+  clientPackageDetector,
+];
+
+/**
+ * The built-in detectors, tuned by project settings: extra browser globals,
+ * hooks that are allowed on the server, and client-only packages.
+ */
+export function createBuiltinDetectors(settings: DetectionSettings = {}): Detector[] {
+  return [
+    createHookDetector(settings.serverHooks ?? []),
+    createBrowserGlobalDetector(new Set([...browserGlobals, ...(settings.clientGlobals ?? [])])),
+    eventHandlerDetector,
+    classComponentDetector,
+    createContextDetector,
+    reactDomApiDetector,
+    createClientPackageDetector(settings.clientPackages ?? [], settings.serverPackages ?? []),
+  ];
+}
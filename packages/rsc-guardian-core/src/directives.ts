@@ -0,0 +1,27 @@
+import type { TSESTree } from '@typescript-eslint/types';
+
+/**
+ * True when the statement is a string-literal expression such as
+ * `'use client';`, wherever it appears.
+ */
+export function isDirectiveStatement(
+  statement: TSESTree.Node | undefined,
+  directive: string
+): statement is TSESTree.ExpressionStatement {
+  return (
+    statement?.type === 'ExpressionStatement' &&
+    statement.expression.type === 'Literal' &&
+    statement.expression.value === directive
+  );
+}
+
+/**
+ * True when the first statement of the program, or of a function body, is
+ * the given directive, e.g. `'use client'`.
+ */
+export function hasDirective(
+  body: TSESTree.Program | TSESTree.BlockStatement,
+  directive: string
+): boolean {
+  return isDirectiveStatement(body.body[0], directive);
+}
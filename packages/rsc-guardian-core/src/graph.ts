@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TSESTree } from '@typescript-eslint/types';
+import type { ConfigResolver } from './config';
+import { hasDirective } from './directives';
+import { parseModule } from './parse';
+import { createDetectorRegistry, detectClientFeatures } from './registry';
+import type { DetectorRegistry } from './registry';
+import { createModuleResolver } from './resolve';
+import type { ModuleResolver, ModuleResolverOptions } from './resolve';
+import type { ClientFeature } from './types';
+import { walk } from './walk';
+
+export interface ModuleInfo {
+  file: string;
+  hasUseClient: boolean;
+  features: ClientFeature[];
+  /** Local source files this module imports at runtime, resolved to absolute paths. */
+  imports: string[];
+  /** Set when the module could not be read or parsed. */
+  error?: string;
+}
+
+export interface GraphViolation {
+  file: string;
+  /** Files from an entry point down to `file`, inclusive. */
+  chain: string[];
+  features: ClientFeature[];
+}
+
+export interface ImportGraphResult {
+  modules: Map<string, ModuleInfo>;
+  /** Server-reachable modules that use client-only features, in discovery order. */
+  violations: GraphViolation[];
+}
+
+export interface ImportGraphOptions extends ModuleResolverOptions {
+  registry?: DetectorRegistry;
+  /** Detect with each module's `rsc-guardian.config.*` settings. Ignored when `registry` is set. */
+  config?: ConfigResolver;
+  resolver?: ModuleResolver;
+  /**
+   * Returns a module's `'use client'` directive and import specifiers
+   * instead of parsing it, e.g. from a cache. Modules read this way are not
+   * checked for client-only features.
+   */
+  readModule?: (file: string) => { hasUseClient: boolean; imports: string[] };
+}
+
+/**
+ * Returns the specifiers of every import that survives compilation:
+ * static imports, re-exports and literal dynamic `import()` calls.
+ * Type-only imports and exports are skipped.
+ */
+export function getImportSpecifiers(program: TSESTree.Program): string[] {
+  const specifiers: string[] = [];
+
+  walk(program, (node) => {
+    if (node.type === 'ImportDeclaration') {
+      const typeOnly =
+        node.importKind === 'type' ||
+        (node.specifiers.length > 0 &&
+          node.specifiers.every((s) => s.type === 'ImportSpecifier' && s.importKind === 'type'));
+      if (!typeOnly) {
+        specifiers.push(node.source.value);
+      }
+    } else if (
+      (node.type === 'ExportNamedDeclaration' || node.type === 'ExportAllDeclaration') &&
+      node.source &&
+      node.exportKind !== 'type'
+    ) {
+      specifiers.push(node.source.value);
+    } else if (
+      node.type === 'ImportExpression' &&
+      node.source.type === 'Literal' &&
+      typeof node.source.value === 'string'
+    ) {
+      specifiers.push(node.source.value);
+    }
+  });
+
+  return specifiers;
+}
+
+function resolveImports(specifiers: string[], file: string, resolver: ModuleResolver): string[] {
+  const imports = new Set<string>();
+  for (const specifier of specifiers) {
+    const resolved = resolver.resolve(specifier, file);
+    if (resolved) {
+      imports.add(resolved);
+    }
+  }
+  return Array.from(imports);
+}
+
+function loadModule(file: string, registry: DetectorRegistry, resolver: ModuleResolver): ModuleInfo {
+  let program: TSESTree.Program;
+  try {
+    program = parseModule(fs.readFileSync(file, 'utf-8'), file);
+  } catch (error) {
+    return {
+      file,
+      hasUseClient: false,
+      features: [],
+      imports: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const hasUseClient = hasDirective(program, 'use client');
+  return {
+    file,
+    hasUseClient,
+    // Client modules may use anything, no need to run the detectors on them
+    features: hasUseClient ? [] : detectClientFeatures(program, { registry }),
+    imports: resolveImports(getImportSpecifiers(program), file, resolver),
+  };
+}
+
+/**
+ * Reads a module's `'use client'` directive and import specifiers without
+ * running any detectors, for callers that only need the shape of the graph.
+ * Modules that can't be read or parsed count as server modules without
+ * imports.
+ */
+export function readModuleImports(file: string): { hasUseClient: boolean; imports: string[] } {
+  let program: TSESTree.Program;
+  try {
+    program = parseModule(fs.readFileSync(file, 'utf-8'), file);
+  } catch {
+    return { hasUseClient: false, imports: [] };
+  }
+  return { hasUseClient: hasDirective(program, 'use client'), imports: getImportSpecifiers(program) };
+}
+
+/**
+ * Follows imports breadth-first from the entry files (server components)
+ * and reports every reachable module that uses client-only features without
+ * being a `'use client'` boundary itself. Traversal stops at boundaries, since
+ * everything they import is client code already.
+ */
+export function analyzeImportGraph(
+  entries: readonly string[],
+  options: ImportGraphOptions = {}
+): ImportGraphResult {
+  const registry = options.registry ?? createDetectorRegistry();
+  const registryFor = (file: string) =>
+    !options.registry && options.config ? options.config.registryFor(file) : registry;
+  const resolver = options.resolver ?? createModuleResolver(options);
+  const modules = new Map<string, ModuleInfo>();
+  const importedBy = new Map<string, string | null>();
+  const violations: GraphViolation[] = [];
+
+  const queue: string[] = [];
+  for (const entry of entries) {
+    const file = path.resolve(entry);
+    if (!importedBy.has(file)) {
+      importedBy.set(file, null);
+      queue.push(file);
+    }
+  }
+
+  while (queue.length > 0) {
+    const file = queue.shift() as string;
+    let info: ModuleInfo;
+    if (options.readModule) {
+      const { hasUseClient, imports } = options.readModule(file);
+      info = {
+        file,
+        hasUseClient,
+        features: [],
+        imports: resolveImports(imports, file, resolver),
+      };
+    } else {
+      info = loadModule(file, registryFor(file), resolver);
+    }
+    modules.set(file, info);
+
+    if (info.hasUseClient) {
+      continue;
+    }
+
+    if (info.features.length > 0) {
+      const chain: string[] = [];
+      for (let current: string | null = file; current; current = importedBy.get(current) ?? null) {
+        chain.unshift(current);
+      }
+      violations.push({ file, chain, features: info.features });
+    }
+
+    for (const imported of info.imports) {
+      if (!importedBy.has(imported)) {
+        importedBy.set(imported, file);
+        queue.push(imported);
+      }
+    }
+  }
+
+  return { modules, violations };
+}
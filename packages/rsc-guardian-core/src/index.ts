@@ -0,0 +1,66 @@
+export type {
+  ClientFeature,
+  DetectionContext,
+  DetectionSettings,
+  Detector,
+  DetectorMatch,
+  FeatureCategory,
+  ImportedBinding,
+  NodeType,
+} from './types';
+export {
+  browserGlobals,
+  browserGlobalDetector,
+  builtinDetectors,
+  classComponentDetector,
+  clientOnlyPackages,
+  clientPackageDetector,
+  createBuiltinDetectors,
+  createContextDetector,
+  eventHandlerDetector,
+  hookDetector,
+  isEventHandler,
+  isHook,
+  reactDomApiDetector,
+  serverSafeImports,
+} from './detectors';
+export { matchServerOnlyModule, serverOnlyModules } from './server-only';
+export type { ServerOnlyModule } from './server-only';
+export { createDetectorRegistry, detectClientFeatures } from './registry';
+export type { DetectOptions, DetectorRegistry } from './registry';
+export { createDetectionContext, createScopeContext } from './scope';
+export { configFileNames, createConfigResolver, findConfigFile, loadConfig } from './config';
+export type {
+  ConfigOverride,
+  ConfigResolver,
+  ConfigResolverOptions,
+  RscGuardianConfig,
+} from './config';
+export { hasDirective, isDirectiveStatement } from './directives';
+export { walk } from './walk';
+export { analyzeImportGraph, getImportSpecifiers, readModuleImports } from './graph';
+export type { GraphViolation, ImportGraphOptions, ImportGraphResult, ModuleInfo } from './graph';
+export { createBoundaryResolver } from './boundary';
+export type {
+  Boundary,
+  BoundaryDirective,
+  BoundaryResolver,
+  BoundaryResolverOptions,
+} from './boundary';
+export { findDefaultComponent, findIslands } from './islands';
+export type { ComponentFunction, Island, IslandExtraction } from './islands';
+export { createModuleResolver, sourceExtensions } from './resolve';
+export type { ModuleResolver, ModuleResolverOptions } from './resolve';
+export { parseModule } from './parse';
+export {
+  checkNextFile,
+  classifyNextFile,
+  findNextRoot,
+  findServerModules,
+  frameworks,
+  isServerOnly,
+  nextConventions,
+  nextServerExports,
+  requiresUseClient,
+} from './next';
+export type { Framework, NextConvention, NextFile, NextProblem, NextProblemKind } from './next';
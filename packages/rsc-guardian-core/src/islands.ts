@@ -0,0 +1,569 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import { analyze } from '@typescript-eslint/scope-manager';
+import type { Reference, Scope, Variable } from '@typescript-eslint/scope-manager';
+import { detectClientFeatures } from './registry';
+import type { DetectorRegistry } from './registry';
+import { createScopeContext } from './scope';
+import type { ClientFeature } from './types';
+import { walk } from './walk';
+
+export type ComponentFunction =
+  TSESTree.FunctionDeclaration | TSESTree.FunctionExpression | TSESTree.ArrowFunctionExpression;
+
+/**
+ * A piece of a server component that has to run on the client: the
+ * statements that hold client state or effects, and the JSX that uses them.
+ */
+export interface Island {
+  /**
+   * The JSX the island replaces: an element, a fragment, a `{...}` child or
+   * a whole returned expression. `null` for client code that renders
+   * nothing, such as a lone effect.
+   */
+  node: TSESTree.Node | null;
+  /** Statements of the component body the island runs, in source order. */
+  statements: TSESTree.Statement[];
+  /** Variables of the server component the island reads, passed as props. */
+  props: string[];
+  features: ClientFeature[];
+}
+
+export interface IslandExtraction {
+  component: ComponentFunction;
+  /** `null` for anonymous default exports. */
+  name: string | null;
+  /** What the component returns, when it has a single return. */
+  output: TSESTree.Node | null;
+  /** In source order. */
+  islands: Island[];
+  /** Import specifiers island code uses. */
+  clientImports: TSESTree.ImportClause[];
+  /** Top-level declarations island code uses, in source order. */
+  clientDeclarations: TSESTree.ProgramStatement[];
+  /**
+   * Component statements, top-level declarations and import specifiers the
+   * server component no longer needs once the islands are extracted.
+   */
+  serverRemoved: TSESTree.Node[];
+}
+
+type Range = readonly [number, number];
+
+function contains(outer: Range, inner: Range): boolean {
+  return outer[0] <= inner[0] && inner[1] <= outer[1];
+}
+
+function isFunction(node: TSESTree.Node | null | undefined): node is ComponentFunction {
+  return (
+    node?.type === 'FunctionDeclaration' ||
+    node?.type === 'FunctionExpression' ||
+    node?.type === 'ArrowFunctionExpression'
+  );
+}
+
+/**
+ * The function behind a module's default export, whether it is exported
+ * directly or declared first and exported by name. `null` for anything else,
+ * such as classes or `memo(...)` calls.
+ */
+export function findDefaultComponent(
+  program: TSESTree.Program
+): { component: ComponentFunction; name: string | null } | null {
+  const declaration = program.body.find(
+    (statement): statement is TSESTree.ExportDefaultDeclaration =>
+      statement.type === 'ExportDefaultDeclaration'
+  )?.declaration;
+
+  if (isFunction(declaration)) {
+    return { component: declaration, name: declaration.id?.name ?? null };
+  }
+  if (declaration?.type !== 'Identifier') {
+    return null;
+  }
+
+  // `export default Counter;` with the component declared above
+  for (const statement of program.body) {
+    const node = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+    if (node?.type === 'FunctionDeclaration' && node.id?.name === declaration.name) {
+      return { component: node, name: declaration.name };
+    }
+    if (node?.type === 'VariableDeclaration') {
+      for (const declarator of node.declarations) {
+        if (
+          declarator.id.type === 'Identifier' &&
+          declarator.id.name === declaration.name &&
+          isFunction(declarator.init)
+        ) {
+          return { component: declarator.init, name: declaration.name };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/** Plain helper functions can run on the client; async ones may be Server Actions. */
+function isHelperFunction(statement: TSESTree.Statement): boolean {
+  if (statement.type === 'FunctionDeclaration') {
+    return !statement.async;
+  }
+  return (
+    statement.type === 'VariableDeclaration' &&
+    statement.declarations.every(
+      (declarator) =>
+        (declarator.init?.type === 'ArrowFunctionExpression' ||
+          declarator.init?.type === 'FunctionExpression') &&
+        !declarator.init.async
+    )
+  );
+}
+
+/**
+ * Finds the smallest parts of a module's default export that need the
+ * client: statements using hooks or browser APIs, together with every
+ * statement that depends on them, and the JSX subtrees that read their
+ * values or attach event handlers. Everything else, such as data fetching
+ * and static markup, stays in the server component.
+ *
+ * Returns `{ reason }` when the component can't be split this way.
+ */
+export function findIslands(
+  program: TSESTree.Program,
+  options: { registry?: DetectorRegistry } = {}
+): IslandExtraction | { reason: string } {
+  const found = findDefaultComponent(program);
+  if (!found) {
+    return { reason: 'The default export is not a function component.' };
+  }
+  const { component, name } = found;
+
+  const scopeManager = analyze(program, { sourceType: 'module' });
+  const context = createScopeContext(scopeManager);
+  const componentScope = scopeManager.acquire(component);
+  const moduleScope = scopeManager.globalScope?.childScopes.find(
+    (scope) => scope.type === 'module'
+  );
+  if (!componentScope || !moduleScope) {
+    return { reason: 'Could not analyze the scopes of the component.' };
+  }
+
+  const references = scopeManager.scopes
+    .flatMap((scope) => scope.references)
+    .sort((a, b) => a.identifier.range[0] - b.identifier.range[0]);
+  const referencesIn = (ranges: Range[]): Reference[] =>
+    references.filter((reference) =>
+      ranges.some((range) => contains(range, reference.identifier.range))
+    );
+  const referencesOutside = (ranges: Range[]): Reference[] =>
+    references.filter(
+      (reference) => !ranges.some((range) => contains(range, reference.identifier.range))
+    );
+
+  const parents = new Map<TSESTree.Node, TSESTree.Node | null>();
+  walk(component, (node, parent) => parents.set(node, parent));
+  const enclosingFunction = (node: TSESTree.Node): TSESTree.Node | null => {
+    let current = parents.get(node) ?? null;
+    while (current && !isFunction(current)) {
+      current = parents.get(current) ?? null;
+    }
+    return current;
+  };
+
+  // What the component renders: the arguments of its own return statements
+  const returns: TSESTree.ReturnStatement[] = [];
+  walk(component, (node) => {
+    if (node.type === 'ReturnStatement' && enclosingFunction(node) === component) {
+      returns.push(node);
+    }
+  });
+  const body = component.body.type === 'BlockStatement' ? component.body.body : [];
+  const roots: TSESTree.Node[] =
+    component.body.type === 'BlockStatement'
+      ? returns.flatMap((statement) => (statement.argument ? [statement.argument] : []))
+      : [component.body];
+  const statements = body.filter(
+    (statement) => statement.type !== 'ReturnStatement' || !returns.includes(statement)
+  );
+  const lastStatement = body[body.length - 1];
+  const output =
+    component.body.type !== 'BlockStatement'
+      ? component.body
+      : returns.length === 1 && lastStatement === returns[0]
+        ? returns[0].argument
+        : null;
+
+  const declaredBy = new Map<Variable, TSESTree.Statement>();
+  for (const variable of componentScope.variables) {
+    for (const def of variable.defs) {
+      const statement = statements.find((candidate) => contains(candidate.range, def.name.range));
+      if (statement) {
+        declaredBy.set(variable, statement);
+      }
+    }
+  }
+  const variablesOf = (statement: TSESTree.Node) =>
+    Array.from(declaredBy.entries())
+      .filter(([, declaring]) => declaring === statement)
+      .map(([variable]) => variable);
+
+  const features = detectClientFeatures(program, { context, registry: options.registry });
+
+  // Statements using client-only features, and everything that depends on them
+  const clientStatements = new Set(
+    statements.filter((statement) =>
+      features.some((feature) => contains(statement.range, feature.node.range))
+    )
+  );
+  for (let changed = true; changed;) {
+    changed = false;
+    for (const statement of statements) {
+      if (
+        !clientStatements.has(statement) &&
+        referencesIn([statement.range]).some((reference) => {
+          const declaring = reference.resolved && declaredBy.get(reference.resolved);
+          return declaring && clientStatements.has(declaring);
+        })
+      ) {
+        clientStatements.add(statement);
+        changed = true;
+      }
+    }
+  }
+  for (const statement of clientStatements) {
+    if (returns.some((ret) => contains(statement.range, ret.range))) {
+      return { reason: 'Client-only code decides what the component returns.' };
+    }
+  }
+
+  const clientVariableStatement = (reference: Reference) => {
+    const declaring = reference.resolved && declaredBy.get(reference.resolved);
+    return declaring && clientStatements.has(declaring) ? declaring : null;
+  };
+
+  // Sites: JSX features and reads of client variables in what the component renders
+  const sites: TSESTree.Node[] = [];
+  for (const root of roots) {
+    for (const feature of features) {
+      if (contains(root.range, feature.node.range)) {
+        sites.push(feature.node);
+      }
+    }
+    for (const reference of referencesIn([root.range])) {
+      if (clientVariableStatement(reference)) {
+        sites.push(reference.identifier);
+      }
+    }
+  }
+
+  // Group statements and sites that share client state
+  const groups = new Map<TSESTree.Node, TSESTree.Node>();
+  const find = (node: TSESTree.Node): TSESTree.Node => {
+    const parent = groups.get(node) ?? node;
+    if (parent === node) {
+      return node;
+    }
+    const root = find(parent);
+    groups.set(node, root);
+    return root;
+  };
+  const union = (a: TSESTree.Node, b: TSESTree.Node) => groups.set(find(a), find(b));
+  for (const unit of [...clientStatements, ...sites]) {
+    for (const reference of referencesIn([unit.range])) {
+      const declaring = clientVariableStatement(reference);
+      if (declaring) {
+        union(unit, declaring);
+      }
+    }
+  }
+
+  const isIslandRoot = (node: TSESTree.Node): boolean => {
+    const parent = parents.get(node);
+    return (
+      roots.includes(node) ||
+      node.type === 'JSXElement' ||
+      node.type === 'JSXFragment' ||
+      (node.type === 'JSXExpressionContainer' &&
+        node.expression.type !== 'JSXEmptyExpression' &&
+        (parent?.type === 'JSXElement' || parent?.type === 'JSXFragment'))
+    );
+  };
+  // Island roots from the returned expression down to `node`
+  const chain = (node: TSESTree.Node): TSESTree.Node[] => {
+    const nodes: TSESTree.Node[] = [];
+    for (let current: TSESTree.Node | null | undefined = node; current;) {
+      if (isIslandRoot(current)) {
+        nodes.unshift(current);
+      }
+      if (roots.includes(current)) {
+        break;
+      }
+      current = parents.get(current);
+    }
+    return nodes;
+  };
+  // The deepest island root covering every site; state stays out of callbacks such as `.map()`
+  const commonRoot = (nodes: TSESTree.Node[], hasState: boolean): TSESTree.Node | null => {
+    const chains = nodes.map(chain);
+    let common: TSESTree.Node | null = null;
+    for (let depth = 0; chains.every((nodes) => depth < nodes.length); depth++) {
+      const candidate = chains[0][depth];
+      if (!chains.every((nodes) => nodes[depth] === candidate)) {
+        break;
+      }
+      if (hasState && common && enclosingFunction(candidate) !== component) {
+        break;
+      }
+      common = candidate;
+    }
+    return common;
+  };
+
+  interface Group {
+    sites: TSESTree.Node[];
+    statements: TSESTree.Statement[];
+  }
+  const byGroup = new Map<TSESTree.Node, Group>();
+  const groupOf = (unit: TSESTree.Node) => {
+    const key = find(unit);
+    let group = byGroup.get(key);
+    if (!group) {
+      group = { sites: [], statements: [] };
+      byGroup.set(key, group);
+    }
+    return group;
+  };
+  for (const site of sites) {
+    groupOf(site).sites.push(site);
+  }
+  for (const statement of statements.filter((candidate) => clientStatements.has(candidate))) {
+    groupOf(statement).statements.push(statement);
+  }
+
+  const spansReturns = { reason: 'Client state is used by more than one return statement.' };
+  let rendered: Array<Group & { node: TSESTree.Node }> = [];
+  const orphans: Group[] = [];
+  for (const group of byGroup.values()) {
+    if (group.sites.length === 0) {
+      orphans.push(group);
+      continue;
+    }
+    const node = commonRoot(group.sites, group.statements.length > 0);
+    if (!node) {
+      return spansReturns;
+    }
+    rendered.push({ ...group, node });
+  }
+
+  // Islands can't nest: merge any island inside another into it
+  for (let merged = true; merged;) {
+    merged = false;
+    for (const outer of rendered) {
+      const inner = rendered.find(
+        (group) => group !== outer && contains(outer.node.range, group.node.range)
+      );
+      if (inner) {
+        outer.sites.push(...inner.sites);
+        outer.statements.push(...inner.statements);
+        const node = commonRoot(outer.sites, outer.statements.length > 0);
+        if (!node) {
+          return spansReturns;
+        }
+        outer.node = node;
+        rendered = rendered.filter((group) => group !== inner);
+        merged = true;
+        break;
+      }
+    }
+  }
+  rendered.sort((a, b) => a.node.range[0] - b.node.range[0]);
+
+  const islands: Island[] = rendered.map((group) => ({
+    node: group.node,
+    statements: group.statements,
+    props: [],
+    features: [],
+  }));
+
+  // Effects that render nothing join the first island, or become one of their own
+  const orphanStatements = orphans.flatMap((group) => group.statements);
+  if (orphanStatements.length > 0) {
+    if (islands.length > 0) {
+      islands[0].statements.push(...orphanStatements);
+    } else if (output) {
+      islands.push({ node: null, statements: orphanStatements, props: [], features: [] });
+    } else {
+      return { reason: 'The component has more than one return statement.' };
+    }
+  }
+  const islandRanges = (island: Island): Range[] => [
+    ...(island.node ? [island.node.range] : []),
+    ...island.statements.map((statement) => statement.range),
+  ];
+
+  // Helper functions the islands call move (or are copied) along with them
+  const helpers = new Set<TSESTree.Statement>();
+  for (const island of islands) {
+    for (let added = true; added;) {
+      added = false;
+      for (const reference of referencesIn(islandRanges(island))) {
+        const declaring = reference.resolved && declaredBy.get(reference.resolved);
+        if (
+          declaring &&
+          !clientStatements.has(declaring) &&
+          !island.statements.includes(declaring) &&
+          isHelperFunction(declaring)
+        ) {
+          island.statements.push(declaring);
+          helpers.add(declaring);
+          added = true;
+        }
+      }
+    }
+    island.statements.sort((a, b) => a.range[0] - b.range[0]);
+  }
+
+  const removedFrom = <T extends TSESTree.Node>(
+    candidates: T[],
+    excluded: Range[],
+    variables: (node: T) => Variable[]
+  ): T[] => {
+    let removed = candidates;
+    for (let changed = true; changed;) {
+      const used = new Set(
+        referencesOutside([...excluded, ...removed.map((node) => node.range)]).map(
+          (reference) => reference.resolved
+        )
+      );
+      const next = removed.filter(
+        (node) => !variables(node).some((variable) => used.has(variable))
+      );
+      changed = next.length !== removed.length;
+      removed = next;
+    }
+    return removed;
+  };
+
+  const allIslandRanges = islands.flatMap(islandRanges);
+  const removedStatements = [
+    ...clientStatements,
+    ...removedFrom(
+      Array.from(helpers),
+      islands
+        .flatMap((island) => (island.node ? [island.node.range] : []))
+        .concat(Array.from(clientStatements).map((statement) => statement.range)),
+      variablesOf
+    ),
+  ];
+
+  const isInsideComponent = (scope: Scope | null): boolean => {
+    for (let current = scope; current; current = current.upper) {
+      if (current === componentScope) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  for (const island of islands) {
+    const ranges = islandRanges(island);
+    const own = (variable: Variable) =>
+      variable.defs.some((def) => ranges.some((range) => contains(range, def.name.range)));
+    for (const reference of referencesIn(ranges)) {
+      const variable = reference.resolved;
+      if (
+        variable &&
+        isInsideComponent(variable.scope) &&
+        !own(variable) &&
+        !island.props.includes(variable.name)
+      ) {
+        island.props.push(variable.name);
+      }
+    }
+    island.features = features.filter((feature) =>
+      ranges.some((range) => contains(range, feature.node.range))
+    );
+  }
+
+  // Top-level code island code depends on
+  const topLevel = (def: Variable['defs'][number]) =>
+    program.body.find((statement) => contains(statement.range, def.name.range));
+  // The classic JSX runtime needs React in scope in both modules
+  const reactImports: TSESTree.ImportClause[] = program.body.flatMap((statement) =>
+    statement.type === 'ImportDeclaration' && statement.source.value === 'react'
+      ? statement.specifiers.filter((specifier) => specifier.type !== 'ImportSpecifier')
+      : []
+  );
+
+  const clientImports = new Set<TSESTree.ImportClause>(reactImports);
+  const clientDeclarations = new Set<TSESTree.ProgramStatement>();
+  const pending = [...allIslandRanges];
+  for (let range = pending.pop(); range; range = pending.pop()) {
+    for (const reference of referencesIn([range])) {
+      const variable = reference.resolved;
+      if (!variable || variable.scope !== moduleScope) {
+        continue;
+      }
+      for (const def of variable.defs) {
+        const statement = topLevel(def);
+        if (def.type === 'ImportBinding') {
+          clientImports.add(def.node as TSESTree.ImportClause);
+        } else if (
+          statement &&
+          statement.type !== 'ExportDefaultDeclaration' &&
+          !contains(statement.range, component.range) &&
+          !clientDeclarations.has(statement)
+        ) {
+          clientDeclarations.add(statement);
+          pending.push(statement.range);
+        }
+      }
+    }
+  }
+
+  const moduleVariablesOf = (node: TSESTree.Node) =>
+    moduleScope.variables.filter((variable) =>
+      variable.defs.some((def) =>
+        def.type === 'ImportBinding' ? def.node === node : contains(node.range, def.name.range)
+      )
+    );
+  const removedTopLevel = removedFrom<TSESTree.Node>(
+    [
+      ...Array.from(clientImports).filter((specifier) => !reactImports.includes(specifier)),
+      ...Array.from(clientDeclarations).filter(
+        (statement) => statement.type !== 'ExportNamedDeclaration'
+      ),
+    ],
+    [
+      ...islands.flatMap((island) => (island.node ? [island.node.range] : [])),
+      ...removedStatements.map((statement) => statement.range),
+    ],
+    moduleVariablesOf
+  );
+
+  // Every client-only feature has to leave the server component
+  const removedRanges = [
+    ...allIslandRanges,
+    ...removedStatements.map((statement) => statement.range),
+    ...removedTopLevel.map((node) => node.range),
+  ];
+  const stranded = features.find(
+    (feature) => !removedRanges.some((range) => contains(range, feature.node.range))
+  );
+  if (stranded) {
+    const where = contains(component.range, stranded.node.range)
+      ? 'outside of the JSX the component renders'
+      : 'outside of the component';
+    return { reason: `'${stranded.name}' is used ${where} and would stay on the server.` };
+  }
+
+  const byPosition = (a: TSESTree.Node, b: TSESTree.Node) => a.range[0] - b.range[0];
+  return {
+    component,
+    name,
+    output,
+    islands,
+    clientImports: Array.from(clientImports).sort(byPosition),
+    clientDeclarations: Array.from(clientDeclarations).sort(byPosition),
+    serverRemoved: [...removedStatements, ...removedTopLevel].sort(byPosition),
+  };
+}
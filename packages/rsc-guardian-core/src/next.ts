@@ -0,0 +1,225 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TSESTree } from '@typescript-eslint/types';
+import { hasDirective } from './directives';
+import { analyzeImportGraph, readModuleImports } from './graph';
+import type { ImportGraphOptions } from './graph';
+import { sourceExtensions } from './resolve';
+
+export type Framework = 'next-app';
+
+export const frameworks: readonly Framework[] = ['next-app'];
+
+export type NextConvention =
+  | 'page'
+  | 'layout'
+  | 'template'
+  | 'loading'
+  | 'error'
+  | 'global-error'
+  | 'not-found'
+  | 'route'
+  | 'default';
+
+export const nextConventions: readonly NextConvention[] = [
+  'page',
+  'layout',
+  'template',
+  'loading',
+  'error',
+  'global-error',
+  'not-found',
+  'route',
+  'default',
+];
+
+export interface NextFile {
+  /** Project directory: the nearest one with a `next.config.*`, else with a `package.json`. */
+  root: string;
+  /**
+   * `'app'` or `'pages'` for files under `app/` or `pages/` (optionally in
+   * `src/`), `null` for shared modules such as `components/`.
+   */
+  router: 'app' | 'pages' | null;
+  /** Special App Router file, e.g. `'page'` for `app/blog/page.tsx`. */
+  convention: NextConvention | null;
+}
+
+export type NextProblemKind = 'client-convention' | 'route-use-client' | 'client-metadata';
+
+export interface NextProblem {
+  kind: NextProblemKind;
+  node: TSESTree.Node;
+  /** The export name, for `client-metadata`. */
+  name?: string;
+}
+
+const nextConfigFiles = ['next.config.js', 'next.config.mjs', 'next.config.cjs', 'next.config.ts'];
+
+const metadataExports = new Set(['metadata', 'generateMetadata', 'viewport', 'generateViewport']);
+
+/**
+ * Exports Next.js only reads from server modules: metadata and route segment
+ * config.
+ */
+export const nextServerExports: readonly string[] = [
+  ...metadataExports,
+  'generateStaticParams',
+  'revalidate',
+  'dynamic',
+  'dynamicParams',
+  'fetchCache',
+  'runtime',
+  'preferredRegion',
+  'maxDuration',
+];
+
+export function findNextRoot(filePath: string): string | null {
+  let packageRoot: string | null = null;
+  for (let dir = path.dirname(path.resolve(filePath)); ; dir = path.dirname(dir)) {
+    if (nextConfigFiles.some((name) => fs.existsSync(path.join(dir, name)))) {
+      return dir;
+    }
+    if (!packageRoot && fs.existsSync(path.join(dir, 'package.json'))) {
+      packageRoot = dir;
+    }
+    if (path.dirname(dir) === dir) {
+      return packageRoot;
+    }
+  }
+}
+
+/**
+ * Works out where a file sits in a Next.js project. Returns `null` when no
+ * project root is found above the file.
+ */
+export function classifyNextFile(filePath: string, root = findNextRoot(filePath)): NextFile | null {
+  if (!root) {
+    return null;
+  }
+
+  const segments = path.relative(root, path.resolve(filePath)).split(path.sep);
+  if (segments[0] === 'src') {
+    segments.shift();
+  }
+  const router = segments[0] === 'app' || segments[0] === 'pages' ? segments[0] : null;
+
+  const ext = path.extname(filePath);
+  const name = path.basename(filePath, ext);
+  const convention =
+    router === 'app' && segments.length > 1 && sourceExtensions.includes(ext)
+      ? (nextConventions.find((candidate) => candidate === name) ?? null)
+      : null;
+
+  return { root, router, convention };
+}
+
+/** `error` and `global-error` files are rendered on the client by Next.js. */
+export function requiresUseClient(convention: NextConvention | null): boolean {
+  return convention === 'error' || convention === 'global-error';
+}
+
+/** Route handlers never render; they only run on the server. */
+export function isServerOnly(convention: NextConvention | null): boolean {
+  return convention === 'route';
+}
+
+function exportedNames(node: TSESTree.ExportNamedDeclaration): Array<[string, TSESTree.Node]> {
+  const { declaration } = node;
+  if (declaration?.type === 'FunctionDeclaration' && declaration.id) {
+    return [[declaration.id.name, declaration.id]];
+  }
+  if (declaration?.type === 'VariableDeclaration') {
+    return declaration.declarations.flatMap((declarator) =>
+      declarator.id.type === 'Identifier'
+        ? [[declarator.id.name, declarator.id] as [string, TSESTree.Node]]
+        : []
+    );
+  }
+  return node.specifiers.map((specifier) => [specifier.exported.name, specifier.exported]);
+}
+
+/**
+ * Checks the expectations Next.js has for a special file beyond the usual
+ * server component rules: error files must be client components, route
+ * handlers must not be, and metadata exports only work in server pages and
+ * layouts.
+ */
+export function checkNextFile(program: TSESTree.Program, file: NextFile): NextProblem[] {
+  const hasUseClient = hasDirective(program, 'use client');
+
+  if (requiresUseClient(file.convention)) {
+    return hasUseClient ? [] : [{ kind: 'client-convention', node: program }];
+  }
+
+  if (!hasUseClient) {
+    return [];
+  }
+
+  if (isServerOnly(file.convention)) {
+    return [{ kind: 'route-use-client', node: program.body[0] }];
+  }
+
+  if (file.convention !== 'page' && file.convention !== 'layout') {
+    return [];
+  }
+
+  const problems: NextProblem[] = [];
+  for (const statement of program.body) {
+    if (statement.type !== 'ExportNamedDeclaration' || statement.exportKind === 'type') {
+      continue;
+    }
+    for (const [name, node] of exportedNames(statement)) {
+      if (metadataExports.has(name)) {
+        problems.push({ kind: 'client-metadata', node, name });
+      }
+    }
+  }
+  return problems;
+}
+
+function findAppEntries(root: string, dir: string, entries: string[] = []): string[] {
+  if (!fs.existsSync(dir)) {
+    return entries;
+  }
+  for (const dirent of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, dirent.name);
+    if (dirent.isDirectory()) {
+      if (dirent.name !== 'node_modules' && !dirent.name.startsWith('.')) {
+        findAppEntries(root, fullPath, entries);
+      }
+    } else {
+      const { convention } = classifyNextFile(fullPath, root) ?? {};
+      if (convention && !requiresUseClient(convention)) {
+        entries.push(fullPath);
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * Every module that runs on the server in a Next.js App Router project:
+ * the special files under `app/` and everything they import up to the
+ * first `'use client'` boundary. Modules imported only from client files
+ * are client code already and are not in the set.
+ */
+export function findServerModules(root: string, options: ImportGraphOptions = {}): Set<string> {
+  const entries = [
+    ...findAppEntries(root, path.join(root, 'app')),
+    ...findAppEntries(root, path.join(root, 'src', 'app')),
+  ];
+  // Only the boundaries matter here, so modules aren't run through the detectors
+  const { modules } = analyzeImportGraph(entries, {
+    ...options,
+    readModule: options.readModule ?? readModuleImports,
+  });
+
+  const serverModules = new Set<string>();
+  for (const module of modules.values()) {
+    if (!module.hasUseClient) {
+      serverModules.add(module.file);
+    }
+  }
+  return serverModules;
+}
@@ -0,0 +1,15 @@
+import { parse } from '@typescript-eslint/typescript-estree';
+import type { TSESTree } from '@typescript-eslint/types';
+
+/**
+ * Parses a module with the options every detector relies on (`loc` for
+ * reporting, `range` for scope analysis). JSX is picked from the extension.
+ */
+export function parseModule(code: string, filePath: string): TSESTree.Program {
+  return parse(code, {
+    filePath,
+    jsx: true,
+    loc: true,
+    range: true,
+  });
+}
@@ -0,0 +1,85 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import { builtinDetectors } from './detectors';
+import { createDetectionContext } from './scope';
+import type { ClientFeature, DetectionContext, Detector, NodeType } from './types';
+import { walk } from './walk';
+
+export interface DetectorRegistry {
+  register(detector: Detector): void;
+  detectors(): readonly Detector[];
+  /** Every node type at least one registered detector is interested in. */
+  nodeTypes(): NodeType[];
+  /** Runs the detectors registered for `node.type` against a single node. */
+  check(node: TSESTree.Node, context: DetectionContext): ClientFeature[];
+}
+
+export function createDetectorRegistry(
+  detectors: readonly Detector[] = builtinDetectors
+): DetectorRegistry {
+  const registered: Detector[] = [];
+  const byType = new Map<string, Detector[]>();
+
+  function register(detector: Detector): void {
+    registered.push(detector);
+    for (const type of detector.nodeTypes) {
+      const list = byType.get(type) ?? [];
+      list.push(detector);
+      byType.set(type, list);
+    }
+  }
+
+  detectors.forEach(register);
+
+  return {
+    register,
+    detectors: () => registered,
+    nodeTypes: () => Array.from(byType.keys()) as NodeType[],
+    check(node, context) {
+      const features: ClientFeature[] = [];
+      for (const detector of byType.get(node.type) ?? []) {
+        const match = detector.check(node, context);
+        if (match) {
+          const target = match.node ?? node;
+          features.push({
+            category: detector.category,
+            name: match.name,
+            node: target,
+            loc: target.loc,
+            reason: match.reason,
+          });
+        }
+      }
+      return features;
+    },
+  };
+}
+
+export interface DetectOptions {
+  registry?: DetectorRegistry;
+  /**
+   * Binding information for the whole program. Required when `root` is not
+   * the Program itself, since scopes can't be resolved from a subtree.
+   */
+  context?: DetectionContext;
+}
+
+/**
+ * Walks `root` and returns every client-only feature the registry finds,
+ * in source order.
+ */
+export function detectClientFeatures(
+  root: TSESTree.Node,
+  options: DetectOptions = {}
+): ClientFeature[] {
+  const registry = options.registry ?? createDetectorRegistry();
+  if (!options.context && root.type !== 'Program') {
+    throw new Error('A detection context is required when detecting from a non-Program node');
+  }
+  const context = options.context ?? createDetectionContext(root as TSESTree.Program);
+
+  const features: ClientFeature[] = [];
+  walk(root, (node) => {
+    features.push(...registry.check(node, context));
+  });
+  return features;
+}
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const sourceExtensions = ['.tsx', '.ts', '.jsx', '.js', '.mjs', '.cjs'];
+
+interface PathMapping {
+  /** Only set when the tsconfig declares `baseUrl`, which enables bare `components/Button` imports. */
+  baseUrl?: string;
+  /** Directory `paths` targets are resolved against. */
+  pathsBase: string;
+  paths: Record<string, string[]>;
+}
+
+interface RawTsconfig {
+  extends?: string;
+  compilerOptions?: {
+    baseUrl?: string;
+    paths?: Record<string, string[]>;
+  };
+}
+
+// tsconfig files are JSONC: strip comments and trailing commas, leaving strings intact
+function parseJsonc(text: string): unknown {
+  const withoutComments = text.replace(
+    /("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+    (_match, str: string | undefined) => str ?? ''
+  );
+  return JSON.parse(withoutComments.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+function readTsconfig(tsconfigPath: string, seen = new Set<string>()): PathMapping | null {
+  if (seen.has(tsconfigPath) || !fs.existsSync(tsconfigPath)) {
+    return null;
+  }
+  seen.add(tsconfigPath);
+
+  let config: RawTsconfig;
+  try {
+    config = (parseJsonc(fs.readFileSync(tsconfigPath, 'utf-8')) ?? {}) as RawTsconfig;
+  } catch {
+    // A tsconfig TypeScript can't read either has no aliases to follow
+    return null;
+  }
+  const dir = path.dirname(tsconfigPath);
+
+  // Only relative `extends` are followed; package-based presets rarely define paths
+  let inherited: PathMapping | null = null;
+  if (config.extends && config.extends.startsWith('.')) {
+    const parentPath = path.resolve(dir, config.extends);
+    const parentFile = parentPath.endsWith('.json') ? parentPath : `${parentPath}.json`;
+    inherited = readTsconfig(parentFile, seen);
+  }
+
+  const options = config.compilerOptions ?? {};
+  if (!options.paths && options.baseUrl === undefined) {
+    return inherited;
+  }
+
+  const baseUrl =
+    options.baseUrl !== undefined ? path.resolve(dir, options.baseUrl) : inherited?.baseUrl;
+  return {
+    baseUrl,
+    pathsBase: baseUrl ?? (options.paths ? dir : inherited?.pathsBase ?? dir),
+    paths: options.paths ?? inherited?.paths ?? {},
+  };
+}
+
+function resolveFile(candidate: string): string | null {
+  if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+    return candidate;
+  }
+  for (const ext of sourceExtensions) {
+    if (fs.existsSync(candidate + ext)) {
+      return candidate + ext;
+    }
+  }
+  // `./lib/foo.js` written for ESM output may point at `./lib/foo.ts`
+  const ext = path.extname(candidate);
+  if (ext === '.js' || ext === '.jsx') {
+    const withoutExt = candidate.slice(0, -ext.length);
+    for (const tsExt of ['.ts', '.tsx']) {
+      if (fs.existsSync(withoutExt + tsExt)) {
+        return withoutExt + tsExt;
+      }
+    }
+  }
+  if (fs.existsSync(candidate) && fs.statSync(candidate).isDirectory()) {
+    for (const ext of sourceExtensions) {
+      const index = path.join(candidate, `index${ext}`);
+      if (fs.existsSync(index)) {
+        return index;
+      }
+    }
+  }
+  return null;
+}
+
+function matchPathPattern(pattern: string, specifier: string): string | null {
+  const star = pattern.indexOf('*');
+  if (star === -1) {
+    return pattern === specifier ? '' : null;
+  }
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (
+    specifier.length >= prefix.length + suffix.length &&
+    specifier.startsWith(prefix) &&
+    specifier.endsWith(suffix)
+  ) {
+    return specifier.slice(prefix.length, specifier.length - suffix.length);
+  }
+  return null;
+}
+
+export interface ModuleResolver {
+  /**
+   * Resolves an import specifier to an absolute source file path, or `null`
+   * for packages and anything that can't be found on disk.
+   */
+  resolve(specifier: string, fromFile: string): string | null;
+}
+
+export interface ModuleResolverOptions {
+  /** Use this tsconfig for every file instead of the nearest one. */
+  tsconfig?: string;
+}
+
+/**
+ * Resolves relative imports and tsconfig `paths` aliases. Each importing file
+ * uses the nearest `tsconfig.json` above it unless one is given explicitly.
+ */
+export function createModuleResolver(options: ModuleResolverOptions = {}): ModuleResolver {
+  const mappingByTsconfig = new Map<string, PathMapping | null>();
+  const tsconfigByDir = new Map<string, string | null>();
+
+  function findTsconfig(dir: string): string | null {
+    const cached = tsconfigByDir.get(dir);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const candidate = path.join(dir, 'tsconfig.json');
+    const parent = path.dirname(dir);
+    let found: string | null = null;
+    if (fs.existsSync(candidate)) {
+      found = candidate;
+    } else if (parent !== dir) {
+      found = findTsconfig(parent);
+    }
+    tsconfigByDir.set(dir, found);
+    return found;
+  }
+
+  function getMapping(fromFile: string): PathMapping | null {
+    const tsconfigPath = options.tsconfig
+      ? path.resolve(options.tsconfig)
+      : findTsconfig(path.dirname(fromFile));
+    if (!tsconfigPath) {
+      return null;
+    }
+    if (!mappingByTsconfig.has(tsconfigPath)) {
+      mappingByTsconfig.set(tsconfigPath, readTsconfig(tsconfigPath));
+    }
+    return mappingByTsconfig.get(tsconfigPath) ?? null;
+  }
+
+  return {
+    resolve(specifier, fromFile) {
+      if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+        return resolveFile(path.resolve(path.dirname(fromFile), specifier));
+      }
+
+      const mapping = getMapping(fromFile);
+      if (!mapping) {
+        return null;
+      }
+
+      for (const [pattern, targets] of Object.entries(mapping.paths)) {
+        const wildcard = matchPathPattern(pattern, specifier);
+        if (wildcard === null) {
+          continue;
+        }
+        for (const target of targets) {
+          const resolved = resolveFile(
+            path.resolve(mapping.pathsBase, target.replace('*', wildcard))
+          );
+          if (resolved) {
+            return resolved;
+          }
+        }
+      }
+
+      // Bare specifiers under baseUrl, e.g. `components/Button`
+      return mapping.baseUrl ? resolveFile(path.resolve(mapping.baseUrl, specifier)) : null;
+    },
+  };
+}
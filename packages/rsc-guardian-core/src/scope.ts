@@ -0,0 +1,65 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import { analyze } from '@typescript-eslint/scope-manager';
+import type { Reference, ScopeManager } from '@typescript-eslint/scope-manager';
+import type { DetectionContext } from './types';
+
+/**
+ * Builds a detection context from an existing scope manager, e.g. the one
+ * ESLint exposes on `sourceCode.scopeManager`.
+ */
+export function createScopeContext(scopeManager: ScopeManager): DetectionContext {
+  const references = new Map<TSESTree.Node, Reference>();
+  // Code in these scopes runs later than the module body, if at all
+  const deferredRanges: TSESTree.Range[] = [];
+  for (const scope of scopeManager.scopes) {
+    for (const reference of scope.references) {
+      references.set(reference.identifier, reference);
+    }
+    if (
+      scope.type === 'function' ||
+      scope.type === 'class-field-initializer' ||
+      scope.type === 'class-static-block'
+    ) {
+      deferredRanges.push(scope.block.range);
+    }
+  }
+
+  return {
+    isUnboundGlobal(node) {
+      const reference = references.get(node);
+      if (!reference || !reference.isValueReference) {
+        return false;
+      }
+
+      // Globals configured through ESLint `env`/`globals` resolve to implicit
+      // global-scope variables without definitions.
+      const variable = reference.resolved;
+      return !variable || (variable.scope.type === 'global' && variable.defs.length === 0);
+    },
+    isModuleScope(node) {
+      return !deferredRanges.some(([start, end]) => start <= node.range[0] && node.range[1] <= end);
+    },
+    importedBinding(node) {
+      const def = references.get(node)?.resolved?.defs[0];
+      if (def?.type !== 'ImportBinding' || def.parent.type !== 'ImportDeclaration') {
+        return null;
+      }
+      const specifier = def.node;
+      let imported = '*';
+      if (specifier.type === 'ImportDefaultSpecifier') {
+        imported = 'default';
+      } else if (specifier.type === 'ImportSpecifier') {
+        imported = specifier.imported.name;
+      }
+      return { source: def.parent.source.value, imported };
+    },
+  };
+}
+
+/**
+ * Runs scope analysis over a parsed program. The program must have been
+ * parsed with `range: true`.
+ */
+export function createDetectionContext(program: TSESTree.Program): DetectionContext {
+  return createScopeContext(analyze(program, { sourceType: 'module' }));
+}
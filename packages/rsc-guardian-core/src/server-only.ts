@@ -0,0 +1,72 @@
+import { matchPackage } from './detectors';
+
+type ServerModuleKind = 'marker' | 'node' | 'request' | 'database';
+
+const serverModuleReasons: Record<ServerModuleKind, string> = {
+  marker: 'marks code that must never be bundled for the browser',
+  node: "is a Node.js built-in module, which doesn't exist in the browser",
+  request: 'reads the incoming request, which only exists on the server',
+  database: 'connects to a database with server-side credentials',
+};
+
+/** Modules that only work on the server, by what they do. */
+export const serverOnlyModules: Readonly<Record<string, ServerModuleKind>> = {
+  'server-only': 'marker',
+  fs: 'node',
+  'fs/promises': 'node',
+  child_process: 'node',
+  cluster: 'node',
+  dgram: 'node',
+  dns: 'node',
+  net: 'node',
+  os: 'node',
+  tls: 'node',
+  v8: 'node',
+  vm: 'node',
+  worker_threads: 'node',
+  'next/headers': 'request',
+  'next/server': 'request',
+  '@prisma/client': 'database',
+  pg: 'database',
+  postgres: 'database',
+  mysql: 'database',
+  mysql2: 'database',
+  mongodb: 'database',
+  mongoose: 'database',
+  sqlite3: 'database',
+  'better-sqlite3': 'database',
+  redis: 'database',
+  ioredis: 'database',
+  '@vercel/postgres': 'database',
+  '@planetscale/database': 'database',
+};
+
+export interface ServerOnlyModule {
+  name: string;
+  reason: string;
+}
+
+/**
+ * The server-only module an import specifier refers to: a built-in one, a
+ * `node:` built-in, or one of the project's `extra` modules.
+ */
+export function matchServerOnlyModule(
+  source: string,
+  extra: readonly string[] = []
+): ServerOnlyModule | null {
+  if (source.startsWith('node:')) {
+    return { name: source, reason: `'${source}' ${serverModuleReasons.node}.` };
+  }
+  const configured = matchPackage(source, extra);
+  if (configured) {
+    return {
+      name: configured,
+      reason: `'${configured}' is a server-only module and can't be imported by client components.`,
+    };
+  }
+  const name = matchPackage(source, Object.keys(serverOnlyModules));
+  if (!name) {
+    return null;
+  }
+  return { name, reason: `'${name}' ${serverModuleReasons[serverOnlyModules[name]]}.` };
+}
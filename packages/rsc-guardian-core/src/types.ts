@@ -0,0 +1,82 @@
+import type { TSESTree } from '@typescript-eslint/types';
+
+/** AST node type names as plain strings, e.g. `'CallExpression'`. */
+export type NodeType = `${TSESTree.Node['type']}`;
+
+export type FeatureCategory =
+  | 'hook'
+  | 'browser-global'
+  | 'event-handler'
+  | 'class-component'
+  | 'create-context'
+  | 'react-dom-api'
+  | 'client-import';
+
+/**
+ * A single client-only feature found in a module.
+ */
+export interface ClientFeature {
+  category: FeatureCategory;
+  name: string;
+  node: TSESTree.Node;
+  loc: TSESTree.SourceLocation;
+  reason: string;
+}
+
+/**
+ * What a detector returns when a node matches. `node` defaults to the
+ * node the detector was called with.
+ */
+export interface DetectorMatch {
+  name: string;
+  reason: string;
+  node?: TSESTree.Node;
+}
+
+/**
+ * The import a name is bound to: `import { createPortal as portal } from
+ * 'react-dom'` binds `portal` to `{ source: 'react-dom', imported:
+ * 'createPortal' }`. Default and namespace imports have `imported` set to
+ * `'default'` and `'*'`.
+ */
+export interface ImportedBinding {
+  source: string;
+  imported: string;
+}
+
+/**
+ * Binding information detectors can query while checking a node.
+ */
+export interface DetectionContext {
+  /**
+   * True when `node` is a value reference that does not resolve to any
+   * declaration in the module, i.e. it reads a real global.
+   */
+  isUnboundGlobal(node: TSESTree.Identifier): boolean;
+  /** True when `node` runs as the module loads, outside any function or class body. */
+  isModuleScope(node: TSESTree.Node): boolean;
+  /** The import `node` reads, or `null` for locals, globals and non-references. */
+  importedBinding(node: TSESTree.Identifier): ImportedBinding | null;
+}
+
+export interface Detector {
+  category: FeatureCategory;
+  /** Node types the detector wants to inspect; `check` is only called for these. */
+  nodeTypes: readonly NodeType[];
+  check(node: TSESTree.Node, context: DetectionContext): DetectorMatch | null;
+}
+
+/**
+ * Project-specific tuning of the built-in detectors, read from
+ * `rsc-guardian.config.*`.
+ */
+export interface DetectionSettings {
+  /** Globals that only exist in the browser, on top of the built-in list. */
+  clientGlobals?: string[];
+  /** Hooks that are safe to call in server components, e.g. `useId`. */
+  serverHooks?: string[];
+  /** Packages that only work on the client. Subpath imports (`pkg/sub`) match too. */
+  clientPackages?: string[];
+  /** Built-in client-only packages that are fine in this project, e.g. `recharts`. */
+  serverPackages?: string[];
+}
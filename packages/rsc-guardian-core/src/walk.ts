@@ -0,0 +1,36 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import { visitorKeys } from '@typescript-eslint/visitor-keys';
+
+function isNode(value: unknown): value is TSESTree.Node {
+  return (
+    typeof value === 'object' && value !== null && typeof (value as TSESTree.Node).type === 'string'
+  );
+}
+
+/**
+ * Depth-first, pre-order walk over an ESTree AST. Only follows the child keys
+ * ESLint itself visits, so `parent` links and token arrays are never entered.
+ * `visit` receives the parent the walk came from (`null` for the start node),
+ * since parsers other than ESLint's don't set `parent` links.
+ */
+export function walk(
+  node: TSESTree.Node,
+  visit: (node: TSESTree.Node, parent: TSESTree.Node | null) => void,
+  parent: TSESTree.Node | null = null
+): void {
+  visit(node, parent);
+
+  const keys = visitorKeys[node.type] ?? [];
+  for (const key of keys) {
+    const value = (node as unknown as Record<string, unknown>)[key];
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        if (isNode(item)) {
+          walk(item, visit, node);
+        }
+      }
+    } else if (isNode(value)) {
+      walk(value, visit, node);
+    }
+  }
+}